@@ -0,0 +1,95 @@
+// --- AI-vs-AI Simulator CLI ---
+// 使い方: npm run simulate -- --a MID --b HIGH --games 200 --seed balance --rules elemental,same,plus --board grand --out reports
+// --out を省略すると JSON を標準出力に書く。進捗は標準エラーに出す
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { GameSettings } from '../src/types';
+import { BOARD_LAYOUTS, DEFAULT_SETTINGS } from '../src/constants';
+import { cardsCsv, runSimulation, STRATEGIES, summaryCsv, type Strategy } from '../src/simulator';
+
+// --rules に渡せる名前と設定項目の対応
+const RULES: Record<string, keyof GameSettings> = {
+  elemental: 'elementalEnabled',
+  same: 'sameEnabled',
+  plus: 'plusEnabled',
+  samewall: 'sameWallEnabled',
+  pluswall: 'plusWallEnabled',
+  open: 'openEnabled',
+  random: 'randomEnabled',
+  suddendeath: 'suddenDeathEnabled',
+  reverse: 'reverseEnabled',
+  fallenace: 'fallenAceEnabled',
+};
+
+const USAGE = `Usage: npm run simulate -- [options]
+  --a <strategy>      CPU for side A (${STRATEGIES.join('|')}, default MID)
+  --b <strategy>      CPU for side B (default HIGH)
+  --games <n>         number of games (default 100)
+  --seed <seed>       base seed (default "sim")
+  --rules <list>      comma-separated rules, or "none" (default: the game's default rules)
+                      ${Object.keys(RULES).join(', ')}
+  --board <layout>    board layout (${BOARD_LAYOUTS.map(l => l.id).join('|')}, default classic)
+  --out <dir>         write simulation.json, summary.csv and cards.csv into <dir>`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (key === '--help' || key === '-h') fail('Triple Triad AI-vs-AI simulator');
+    if (!key.startsWith('--') || argv[i + 1] === undefined) fail(`Invalid argument: ${key}`);
+    args[key.slice(2)] = argv[++i];
+  }
+  return args;
+}
+
+function parseStrategy(value: string | undefined, fallback: Strategy): Strategy {
+  if (value === undefined) return fallback;
+  const strategy = value.toUpperCase() as Strategy;
+  return STRATEGIES.includes(strategy) ? strategy : fail(`Unknown strategy: ${value}`);
+}
+
+function parseRules(value: string | undefined): GameSettings {
+  if (value === undefined) return DEFAULT_SETTINGS;
+  const settings: GameSettings = { ...DEFAULT_SETTINGS };
+  Object.values(RULES).forEach(key => { (settings[key] as boolean) = false; });
+  if (value === 'none') return settings;
+  value.split(',').map(r => r.trim().toLowerCase()).forEach(name => {
+    const key = RULES[name];
+    if (!key) fail(`Unknown rule: ${name}`);
+    (settings[key] as boolean) = true;
+  });
+  return settings;
+}
+
+function parseBoard(value: string | undefined): GameSettings['boardShape'] {
+  if (value === undefined) return DEFAULT_SETTINGS.boardShape;
+  return BOARD_LAYOUTS.find(l => l.id === value.toLowerCase())?.shape ?? fail(`Unknown board layout: ${value}`);
+}
+
+const args = parseArgs(process.argv.slice(2));
+const games = Number(args.games ?? 100);
+if (!Number.isInteger(games) || games < 1) fail(`Invalid game count: ${args.games}`);
+
+const report = runSimulation({
+  strategies: { A: parseStrategy(args.a, 'MID'), B: parseStrategy(args.b, 'HIGH') },
+  games,
+  seed: args.seed ?? 'sim',
+  settings: { ...parseRules(args.rules), boardShape: parseBoard(args.board) },
+  onProgress: (done, total) => process.stderr.write(`\r${done}/${total} games`),
+});
+process.stderr.write('\n');
+
+if (args.out) {
+  mkdirSync(args.out, { recursive: true });
+  writeFileSync(join(args.out, 'simulation.json'), JSON.stringify(report, null, 2));
+  writeFileSync(join(args.out, 'summary.csv'), summaryCsv(report));
+  writeFileSync(join(args.out, 'cards.csv'), cardsCsv(report));
+  console.error(`Wrote simulation.json, summary.csv and cards.csv to ${args.out}`);
+} else {
+  console.log(JSON.stringify(report, null, 2));
+}
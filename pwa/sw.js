@@ -0,0 +1,50 @@
+// --- Service Worker ---
+// アプリの本体とカード画像を先にキャッシュし、通信できなくても CPU 戦を遊べるようにする。
+// 先頭の定数はビルド時に vite.config.ts の serviceWorker プラグインが書き込む:
+//   SHELL_VERSION / SHELL_FILES: ビルドした JS・CSS・HTML など。ビルドが変わると版も変わる
+//   CARD_VERSION / CARD_FILES: src/data/cards.json に載っているカード画像。カードのデータが変わったときだけ取り直す
+//   CDN_FILES: 外部から読み込んでいるスクリプト (Tailwind)
+
+const SHELL_CACHE = `shell-${SHELL_VERSION}`;
+const CARD_CACHE = `cards-${CARD_VERSION}`;
+// 外部のスクリプトは URL が変わらなくても中身が更新されるので、アプリの版ごとに取り直す
+const CDN_CACHE = `cdn-${SHELL_VERSION}`;
+
+const scoped = path => new URL(path, self.registration.scope).href;
+
+// 新しい版は待機させ、画面の「更新」から SKIP_WAITING を受け取ってから切り替える
+self.addEventListener('install', event => {
+  event.waitUntil(Promise.all([
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_FILES.map(scoped))),
+    // カード画像の版が変わっていなければ前のキャッシュがそのまま使われる
+    caches.open(CARD_CACHE).then(cache => cache.keys().then(keys => (keys.length >= CARD_FILES.length ? null : cache.addAll(CARD_FILES.map(scoped))))),
+    // 別オリジンのスクリプトは中身の見えない応答になり addAll では保存できないので put する。
+    // CDN に届かなくてもインストールは失敗させず、その場合は通信できるときに読み込む
+    caches.open(CDN_CACHE)
+      .then(cache => Promise.all(CDN_FILES.map(url => fetch(url, { mode: 'no-cors' }).then(res => cache.put(url, res)))))
+      .catch(() => {}),
+  ]));
+});
+
+// 使わなくなった版のキャッシュを消す
+self.addEventListener('activate', event => {
+  const keep = [SHELL_CACHE, CARD_CACHE, CDN_CACHE];
+  event.waitUntil(caches.keys()
+    .then(names => Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name))))
+    .then(() => self.clients.claim()));
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// キャッシュにあればそれを返し、なければ通信する。画面の遷移はすべて index.html で受ける (SPA)
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(scoped('index.html')).then(cached => cached ?? fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(cached => cached ?? fetch(request)));
+});
@@ -0,0 +1,147 @@
+// --- Online Relay Server ---
+// オンライン対戦用の中継サーバー。ゲームのルールは知らず、部屋ごとに届いたメッセージへ通し番号を振って
+// 両方のプレイヤーに同じ順番で配信し、再接続したクライアントには取りこぼした分を再送する。
+// 使い方: npm run relay (PORT 環境変数で待ち受けポートを変更できる)
+import { randomBytes } from 'node:crypto';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_TTL_MS = 10 * 60 * 1000; // 両者が切断してからこの時間で部屋を破棄する
+const ROOM_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * @typedef {'P1' | 'P2'} Seat
+ * @typedef {{ seq: number, from: Seat, payload: unknown, secret?: unknown }} Entry
+ * @typedef {{ token: string, socket: import('ws').WebSocket | null }} Player
+ * @typedef {{ code: string, players: Partial<Record<Seat, Player>>, log: Entry[], expires: NodeJS.Timeout | null }} Room
+ */
+
+/** @type {Map<string, Room>} */
+const rooms = new Map();
+
+const createCode = () => {
+  let code;
+  do {
+    code = Array.from(randomBytes(5), b => ROOM_CHARS[b % ROOM_CHARS.length]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const send = (socket, message) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+// secret は送り主本人にだけ返す (Open ルールなしのデッキ内容など)
+const entryFor = (entry, seat) => {
+  const { secret, ...rest } = entry;
+  return { type: 'entry', ...rest, ...(entry.from === seat && secret !== undefined ? { secret } : {}) };
+};
+
+/** @returns {value is { type: string, [key: string]: unknown }} */
+const isMessage = value =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof value.type === 'string';
+
+const otherSeat = seat => (seat === 'P1' ? 'P2' : 'P1');
+
+function attach(room, seat, socket, since) {
+  const player = room.players[seat];
+  if (player.socket && player.socket !== socket) player.socket.close(4000, 'Replaced by a new connection');
+  player.socket = socket;
+  if (room.expires) clearTimeout(room.expires);
+  room.expires = null;
+
+  send(socket, { type: 'joined', room: room.code, seat, token: player.token });
+  room.log.filter(e => e.seq > since).forEach(e => send(socket, entryFor(e, seat)));
+  const other = room.players[otherSeat(seat)];
+  send(socket, { type: 'peer', connected: !!other?.socket });
+  send(other?.socket, { type: 'peer', connected: true });
+}
+
+function detach(room, seat, socket) {
+  const player = room.players[seat];
+  if (!player || player.socket !== socket) return;
+  player.socket = null;
+  send(room.players[otherSeat(seat)]?.socket, { type: 'peer', connected: false });
+  if (Object.values(room.players).every(p => !p.socket)) {
+    room.expires = setTimeout(() => rooms.delete(room.code), ROOM_TTL_MS);
+  }
+}
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', socket => {
+  /** @type {{ room: Room, seat: Seat } | null} */
+  let joined = null;
+
+  /** @param {{ type: string, [key: string]: unknown }} message */
+  const handle = message => {
+    if (message.type === 'create' && !joined) {
+      const room = { code: createCode(), players: { P1: { token: randomBytes(16).toString('hex'), socket: null } }, log: [], expires: null };
+      rooms.set(room.code, room);
+      joined = { room, seat: 'P1' };
+      attach(room, 'P1', socket, 0);
+      return;
+    }
+
+    if (message.type === 'join' && !joined) {
+      const room = rooms.get(String(message.room || '').toUpperCase());
+      if (!room) {
+        send(socket, { type: 'error', message: 'Room not found' });
+        return;
+      }
+      // トークンが一致すれば同じ席に戻る (再接続)。そうでなければ空いている P2 に座る
+      let seat = /** @type {Seat[]} */ (['P1', 'P2']).find(s => message.token && room.players[s]?.token === message.token);
+      if (!seat) {
+        if (room.players.P2) {
+          send(socket, { type: 'error', message: 'Room is full' });
+          return;
+        }
+        room.players.P2 = { token: randomBytes(16).toString('hex'), socket: null };
+        seat = 'P2';
+      }
+      joined = { room, seat };
+      attach(room, seat, socket, Number(message.since) || 0);
+      return;
+    }
+
+    if (message.type === 'send' && joined) {
+      const { room, seat } = joined;
+      const entry = { seq: room.log.length + 1, from: seat, payload: message.payload, ...(message.secret !== undefined ? { secret: message.secret } : {}) };
+      room.log.push(entry);
+      Object.entries(room.players).forEach(([s, p]) => send(p.socket, entryFor(entry, s)));
+      return;
+    }
+
+    send(socket, { type: 'error', message: `Unexpected message: ${message.type}` });
+  };
+
+  socket.on('message', data => {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      send(socket, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+    // null や配列、type のないメッセージは中身を読む前に断る
+    if (!isMessage(message)) {
+      send(socket, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+    // 1 つのメッセージの処理で例外が出ても、ほかの部屋を巻き込んでサーバーを止めない
+    try {
+      handle(message);
+    } catch (e) {
+      console.error('Failed to handle message', e);
+      send(socket, { type: 'error', message: 'Internal error' });
+    }
+  });
+
+  socket.on('error', e => console.error('Socket error', e));
+
+  socket.on('close', () => {
+    if (joined) detach(joined.room, joined.seat, socket);
+  });
+});
+
+console.log(`Triple Triad relay listening on ws://localhost:${PORT}`);
@@ -1,263 +1,82 @@
-// Version: v1.6 - Fix HandComp Prop Type Error (Final)
+// Version: v1.29 - Animation Timeline
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { 
   Swords, Trophy, Medal, CheckCircle2, XCircle, RefreshCw, 
   Settings2, Play, Users, Cpu as CpuIcon, Zap, User, 
-  ChevronRight, Layers, Plus as PlusIcon, Sparkles 
+  ChevronRight, Layers, Plus as PlusIcon, Sparkles,
+  Eye, Shuffle, Timer, Square, ShieldHalf, ArrowDownUp, Crown, Library, ArrowLeftRight, Hammer, AlertTriangle,
+  Undo2, Redo2, SkipBack, SkipForward, ChevronLeft, Film, Hash, Globe, LogOut, BarChart3, Languages, Lightbulb, SearchCheck, Map as MapIcon, Gift, Puzzle as PuzzleIcon, Target, RotateCcw, Database, Grid3x3, ChevronsUp, Lock, Equal, Drama, Share2, FileInput, Gauge, type LucideIcon
 } from 'lucide-react';
 
-// カードデータを外部ファイルからインポート
-import CARD_DATA_RAW from './data/cards.json';
-
-// --- Types ---
-export type PlayerType = 'P1' | 'P2';
-export type GameState = 'TITLE' | 'DECK_SELECT' | 'COIN_TOSS' | 'PLAYING' | 'ROUND_END' | 'GAME_OVER';
-export type EffectType = 'SAME' | 'PLUS' | 'COMBO' | null;
-
-export interface GameSettings {
-  elementalEnabled: boolean;
-  sameEnabled: boolean;
-  plusEnabled: boolean;
-  cpuDifficulty: 'LOW' | 'MID' | 'HIGH' | 'EXPERT';
-  pvpMode: boolean;
-}
-
-export interface Card {
-  id: number;
-  level: number;
-  name: string;
-  stats: number[]; 
-  modifiedStats?: number[];
-  attr: string | null;
-  img: string;
-  owner?: PlayerType | null;
-}
-
-export interface BoardTile {
-  card: Card | null;
-  element: string | null;
-}
-
-export interface MatchResult {
-  winner: PlayerType | 'DRAW';
-  scores: number[];
-}
-
-// --- Constants ---
-const ELEMENTS = ['火', '冷', '雷', '地', '風', '水', '毒', '聖'];
-const ELEMENT_ICONS: Record<string, string> = {
-  '火': '🔥', '冷': '❄️', '雷': '⚡', '地': '🌍', '風': '🌪️', '水': '💧', '毒': '💀', '聖': '✨'
-};
-
-const CARD_DATA = CARD_DATA_RAW as Card[];
+import type { BoardShape, BoardTile, Card, DeckConstraints, EffectType, GamePhase, GameSettings, MatchResult, PlayerType, RuleToggleKey, SeriesFormat, TradeRule } from './types';
+import { applyMove, calculateStats, collectOwnedCards, createBoard, getScores, getWinner, handSize, isBoardFull, isLegalMove, opponentOf, shapeOf, tileModifier, type GameState as EngineState } from './engine';
+import { chooseCpuDeck, type MoveAnalysis, type MoveHint } from './ai';
+import { requestAnalysis, requestCpuMove, requestMoveHints } from './aiClient';
+import {
+  applyTransfers, awardCards, countCards, loadCollections, ownedCards, playerChoosesTrade, saveCollections,
+  tradeCount, tradeTransfers, type CardTransfer, type CollectionStore
+} from './collection';
+import { BOARD_LAYOUTS, CARD_DATA, CLASSIC_BOARD, DEFAULT_SETTINGS, ELEMENT_ICONS } from './constants';
+import { cellName, createRoundLog, describeMove, recordMove, replayRound, revealInitialCard, type MoveRecord, type RoundLog } from './history';
+import { DECK_SIZE, generateValidDeck, loadDecks, resolveDeck, saveDecks, validateDeck, type SavedDeck } from './decks';
+import { createRng, randomSeed, type Rng } from './rng';
+import { cardTotals, countedRounds, describeSeries, getSeriesWinner, isSeriesOver, seriesSlots } from './series';
+import { isResumablePhase, loadSeries, saveSeries, type SeriesSnapshot } from './seriesSave';
+import { createSeriesId, loadStats, recordRound, saveStats, toRoundRecord, type SeriesRecord, type StatsStore } from './stats';
+import {
+  connectRelay, fillHiddenCards, hiddenHand, isHiddenCard, loadSession, saveSession,
+  type OnlinePayload, type OnlineSession, type RelayConnection, type RelayEntry, type RelayStatus
+} from './online';
+import { useInputActions, type InputAction } from './input';
+import {
+  campaignDeck, campaignSettings, findOpponent, loadCampaign, recordClear, saveCampaign,
+  type CampaignOpponent, type CampaignProgress, type CampaignRun
+} from './campaign';
+import {
+  describeGoal, findPuzzle, isGoalMet, loadPuzzleProgress, puzzleSettings, puzzleState, recordSolved, savePuzzleProgress,
+  type Puzzle, type PuzzleProgress, type PuzzleRun
+} from './puzzle';
+import { ACTIVE_CARD_SET, isCustomCardSet } from './cardSets';
+import { NOTATION_HASH_PREFIX, parseNotation } from './notation';
+import {
+  ANIMATION_SPEEDS, FLIP_DURATIONS, STEP_DURATIONS, buildTimeline, currentBanner, loadAnimationSpeed, saveAnimationSpeed, timelineBoard,
+  type AnimationSpeed, type Timeline
+} from './timeline';
+import { CPU_PERSONALITIES, findPersonality } from './personalities';
+import { describeCard, describeTile, playerName } from './a11y';
+import CardComponent from './components/CardComponent';
+import { useI18n } from './components/I18nProvider';
+import { LOCALES, LOCALE_LABELS, type MessageKey } from './i18n';
+import DeckBuilder from './components/DeckBuilder';
+import OnlineLobby from './components/OnlineLobby';
+import StatsDashboard from './components/StatsDashboard';
+import CampaignLadder from './components/CampaignLadder';
+import PuzzleList from './components/PuzzleList';
+import CardSetManager from './components/CardSetManager';
+import ElementalSettings from './components/ElementalSettings';
+import SeriesSettings from './components/SeriesSettings';
+import NotationShare from './components/NotationShare';
+import NotationImport from './components/NotationImport';
 
 // --- Helper Functions ---
 
-function resolveImgPath(path: string) {
-  if (!path) return "";
-  if (path.startsWith('http')) return path;
-  // import.meta.env の型エラー回避
-  const env = (import.meta as any).env;
-  const baseUrl = (env?.BASE_URL || '/').replace(/\/$/, '');
-  const cleanPath = path.replace(/^\.?\//, '');
-  return `${baseUrl}/${cleanPath}`;
-}
-
-function generateDeck(excludeIds?: Set<number>): Card[] {
-  const pool = excludeIds 
-    ? CARD_DATA.filter(c => !excludeIds.has(c.id)) 
-    : [...CARD_DATA];
-  
-  const source = pool.length >= 5 ? pool : [...CARD_DATA];
-  const sortedPool = source.sort(() => Math.random() - 0.5);
-  return sortedPool.slice(0, 5).map(c => ({ ...c }));
-}
-
-function calculateStats(card: Card, element: string | null): number[] {
-  if (!element) return [...card.stats];
-  const modifier = card.attr === element ? 1 : -1;
-  return card.stats.map(s => Math.max(1, Math.min(10, s + modifier)));
-}
-
-// --- CPU AI Logic ---
-const evaluateMove = (boardIdx: number, card: Card, currentBoard: BoardTile[], owner: PlayerType, settings: GameSettings): number => {
-  const stats = calculateStats(card, currentBoard[boardIdx].element);
-  let score = 0;
-
-  const getNeighbors = (idx: number) => [
-    { pos: idx - 3, side: 0, oppSide: 3, active: idx >= 3 },
-    { pos: idx - 1, side: 1, oppSide: 2, active: idx % 3 !== 0 },
-    { pos: idx + 1, side: 2, oppSide: 1, active: idx % 3 !== 2 },
-    { pos: idx + 3, side: 3, oppSide: 0, active: idx < 6 },
-  ];
-
-  const neighborTiles = getNeighbors(boardIdx).filter(n => n.active && currentBoard[n.pos].card);
-  const neighborData = neighborTiles.map(n => ({
-    card: currentBoard[n.pos].card!,
-    myVal: stats[n.side],
-    oppVal: (currentBoard[n.pos].card!.modifiedStats || currentBoard[n.pos].card!.stats)[n.oppSide]
-  }));
-
-  let flips = 0;
-  if (settings.sameEnabled) {
-    const sames = neighborData.filter(n => n.myVal === n.oppVal);
-    if (sames.length >= 2) {
-      flips += sames.filter(n => n.card.owner !== owner).length;
-      score += 50;
-    }
-  }
-  if (settings.plusEnabled) {
-    const sums: Record<number, number> = {};
-    neighborData.forEach(n => { sums[n.myVal + n.oppVal] = (sums[n.myVal + n.oppVal] || 0) + 1; });
-    const plusSums = Object.keys(sums).filter(s => sums[Number(s)] >= 2);
-    if (plusSums.length > 0) {
-      plusSums.forEach(s => { flips += neighborData.filter(n => (n.myVal + n.oppVal) === Number(s) && n.card.owner !== owner).length; });
-      score += 60;
-    }
-  }
-
-  flips += neighborData.filter(n => n.myVal > n.oppVal && n.card.owner !== owner).length;
-  score += flips * 20;
-  score += (stats.reduce((a, b) => a + b, 0) / 4) * 2;
-  if ([0, 2, 6, 8].includes(boardIdx)) score += 15;
-
-  return score;
-};
-
-const getBestMove = (board: BoardTile[], hand: Card[], settings: GameSettings): { boardIdx: number; handIdx: number } => {
-  const emptyCells = board.map((t, i) => t.card === null ? i : null).filter((i): i is number => i !== null);
-  if (settings.cpuDifficulty === 'LOW' || emptyCells.length === 0) {
-    return { boardIdx: emptyCells[Math.floor(Math.random() * emptyCells.length)], handIdx: Math.floor(Math.random() * hand.length) };
-  }
-  const moves = emptyCells.flatMap(cellIdx => hand.map((card, hIdx) => ({
-    boardIdx: cellIdx, handIdx: hIdx, score: evaluateMove(cellIdx, card, board, 'P2', settings)
-  })));
-  moves.sort((a, b) => b.score - a.score || Math.random() - 0.5);
-  return { boardIdx: moves[0].boardIdx, handIdx: moves[0].handIdx };
-};
+// シリーズのシードからラウンドごとのシードを派生させる (デッキ選択の前から決まっている必要がある)
+const roundSeed = (seed: string, round: number) => `${seed}:${round}`;
 
 // --- Components ---
 
-const CardComponent: React.FC<{ card: Card | null; isSelected?: boolean; isHovered?: boolean; onClick?: () => void; small?: boolean; side?: 'left' | 'right'; isMobile?: boolean }> = ({ card, isSelected, isHovered, onClick, small, side = 'left', isMobile = false }) => {
-  const [isFlipping, setIsFlipping] = useState(false);
-  const [displayOwner, setDisplayOwner] = useState(card?.owner);
-  const prevOwnerRef = useRef(card?.owner);
-  const prevCardIdRef = useRef<number | null>(card?.id || null);
-
-  useEffect(() => {
-    if (!card) return;
-    if (card.id !== prevCardIdRef.current) {
-      setDisplayOwner(card.owner);
-      setIsFlipping(false);
-      prevOwnerRef.current = card.owner;
-      prevCardIdRef.current = card.id;
-      return;
-    }
-    if (card.owner !== prevOwnerRef.current) {
-      if (prevOwnerRef.current) {
-        setIsFlipping(true);
-        const t1 = setTimeout(() => setDisplayOwner(card.owner), 250);
-        const t2 = setTimeout(() => setIsFlipping(false), 500);
-        prevOwnerRef.current = card.owner;
-        return () => { clearTimeout(t1); clearTimeout(t2); };
-      } else {
-        setDisplayOwner(card.owner);
-      }
-      prevOwnerRef.current = card.owner;
-    }
-  }, [card?.owner, card?.id]);
-
-  if (!card) return (
-    <div className="w-full aspect-[3/4] bg-slate-800/20 rounded-xl border-2 border-dashed border-slate-700/50 flex items-center justify-center opacity-30">
-      <div className="w-8 h-8 rounded-full border-4 border-slate-700/10" />
-    </div>
-  );
-  
-  const stats = card.modifiedStats || card.stats;
-  const displayStat = (val: number) => val === 10 ? 'A' : val;
-  const getStatColor = (idx: number) => {
-    if (!card.modifiedStats) return 'text-white';
-    if (card.modifiedStats[idx] > card.stats[idx]) return 'text-cyan-300';
-    if (card.modifiedStats[idx] < card.stats[idx]) return 'text-red-400';
-    return 'text-white';
-  };
-
-  const getAttrStyle = (attr: string) => {
-    switch (attr) {
-      case '火': return { bg: 'bg-orange-600', icon: '🔥', border: 'border-orange-400' };
-      case '冷': return { bg: 'bg-cyan-500', icon: '❄️', border: 'border-cyan-300' };
-      case '雷': return { bg: 'bg-yellow-500', icon: '⚡', border: 'border-yellow-300' };
-      case '地': return { bg: 'bg-amber-800', icon: '🌍', border: 'border-amber-600' };
-      case '風': return { bg: 'bg-emerald-500', icon: '🌪️', border: 'border-emerald-300' };
-      case '水': return { bg: 'bg-blue-500', icon: '💧', border: 'border-blue-300' };
-      case '毒': return { bg: 'bg-purple-600', icon: '💀', border: 'border-purple-400' };
-      case '聖': return { bg: 'bg-yellow-100', icon: '✨', border: 'border-yellow-400', text: 'text-slate-900' };
-      default: return { bg: 'bg-slate-500', icon: '', border: 'border-slate-400' };
-    }
-  };
-
-  const ownerClass = displayOwner === 'P1' 
-    ? 'from-blue-600 to-blue-900 border-blue-400 border-4 shadow-[0_0_20px_rgba(96,165,250,0.5)]' 
-    : displayOwner === 'P2' 
-      ? 'from-red-600 to-red-900 border-red-400 border-4 shadow-[0_0_20px_rgba(248,113,113,0.5)]' 
-      : 'from-slate-700 to-slate-900 border-slate-500 border-2';
-
-  let translateClass = '';
-  if (onClick) {
-    if (isSelected) {
-      translateClass = isMobile ? '-translate-y-[60%] scale-105' : (side === 'left' ? '-translate-x-[60%] scale-95' : 'translate-x-[60%] scale-95');
-    } else if (isHovered) {
-      translateClass = isMobile ? '-translate-y-[20%] scale-105' : (side === 'left' ? 'hover:-translate-x-[40%] scale-110' : 'hover:translate-x-[40%] scale-110');
-    }
-  }
+const displayStat = (val: number) => (val === 10 ? 'A' : val);
 
-  const transformOrigin = side === 'left' ? 'origin-right' : 'origin-left';
+// ヒントでめくれる枚数ごとのマスの濃さ (4 枚以上は同じ)
+const HINT_SHADES = ['', 'bg-emerald-500/10', 'bg-emerald-500/20', 'bg-emerald-500/30', 'bg-emerald-500/40'];
 
-  return (
-    <div 
-      onClick={(e) => { if (onClick) { e.stopPropagation(); onClick(); } }} 
-      className={`relative w-full aspect-[3/4] transition-all duration-300 perspective-1000 ${transformOrigin} ${onClick ? 'cursor-pointer' : ''} ${isSelected ? 'z-40 ring-4 ring-yellow-400 rounded-xl shadow-[0_0_30px_rgba(250,204,21,0.4)]' : 'z-10 hover:z-50'} ${translateClass} ${small ? 'scale-90' : ''}`}
-    >
-      <div className={`relative w-full h-full transition-transform duration-500 transform-style-3d ${isFlipping ? 'rotate-y-180' : ''}`}>
-        <div className={`absolute inset-0 w-full h-full rounded-xl bg-gradient-to-br ${ownerClass} overflow-hidden shadow-lg backface-hidden`}>
-          <div className="absolute inset-0 bg-slate-900">
-             <img src={resolveImgPath(card.img)} alt={card.name} className="w-full h-full object-cover opacity-80 pointer-events-none" />
-             <div className="absolute inset-0 bg-black/10" />
-          </div>
+const BoardComp: React.FC<{ board: BoardTile[]; onPlace: (idx: number) => void; canPlace: boolean; selectedCard: Card | null; effect: EffectType; highlighted?: Set<number>; lastPlaced?: number | null; cursorIdx?: number | null; vsCpu?: boolean; hints?: MoveHint[] | null; shape?: BoardShape; magnitude?: number; flipDuration?: number }> = ({ board, onPlace, canPlace, selectedCard, effect, highlighted, lastPlaced = null, cursorIdx = null, vsCpu = false, hints = null, shape = CLASSIC_BOARD, magnitude = 1, flipDuration }) => {
+  const tr = useI18n();
+  const tileRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const width = shape.cols;
+  // キーボード・ゲームパッドのカーソルに DOM のフォーカスを合わせ、スクリーンリーダーにマスの内容を読ませる
+  useEffect(() => { if (cursorIdx !== null) tileRefs.current[cursorIdx]?.focus(); }, [cursorIdx]);
 
-          <div className="absolute top-1 left-1 w-12 h-14 bg-black/60 backdrop-blur-md rounded-lg border border-white/20 z-20 flex flex-col items-center justify-center shadow-xl scale-[0.7] sm:scale-100 origin-top-left">
-            <div className="relative w-full h-full flex flex-col items-center justify-center font-black italic text-white drop-shadow-[0_2px_4px_rgba(0,0,0,1)]">
-              <div className={`text-base leading-none mb-0.5 ${getStatColor(0)}`}>{displayStat(stats[0])}</div>
-              <div className="flex w-full justify-between px-1.5 -my-0.5">
-                 <span className={`text-base leading-none ${getStatColor(1)}`}>{displayStat(stats[1])}</span>
-                 <span className={`text-base leading-none ${getStatColor(2)}`}>{displayStat(stats[2])}</span>
-              </div>
-              <div className={`text-base leading-none mt-0.5 ${getStatColor(3)}`}>{displayStat(stats[3])}</div>
-            </div>
-          </div>
-
-          {card.attr && (
-            <div className={`absolute top-1.5 right-1.5 w-7 h-7 ${getAttrStyle(card.attr).bg} ${getAttrStyle(card.attr).border} border-2 rounded-lg flex items-center justify-center shadow-lg z-20 scale-75 sm:scale-100`}>
-              <span className={`text-[12px] drop-shadow-sm ${getAttrStyle(card.attr).text || ''}`}>{getAttrStyle(card.attr).icon}</span>
-            </div>
-          )}
-
-          <div className="absolute bottom-0 w-full bg-gradient-to-t from-black/95 via-black/40 to-transparent pt-6 pb-2 px-2 z-10">
-            <div className="text-[10px] sm:text-[13px] font-black text-white uppercase tracking-normal text-center truncate drop-shadow-lg">{card.name}</div>
-          </div>
-        </div>
-        <div 
-          className="absolute inset-0 w-full h-full rounded-xl bg-slate-800 border-4 border-slate-600 flex items-center justify-center shadow-inner"
-          style={{ transform: 'rotateY(180deg)', backfaceVisibility: 'hidden' }}
-        >
-           <div className="w-10 h-10 rounded-full border-4 border-slate-700 flex items-center justify-center font-black text-slate-600 italic text-lg">TT</div>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-const BoardComp: React.FC<{ board: BoardTile[]; onPlace: (idx: number) => void; canPlace: boolean; selectedCardAttr: string | null; effect: EffectType }> = ({ board, onPlace, canPlace, selectedCardAttr, effect }) => {
   const getEffectStyle = (type: EffectType) => {
     switch (type) {
       case 'SAME': return 'text-cyan-400 drop-shadow-[0_0_30px_rgba(34,211,238,1)] stroke-cyan-800';
@@ -268,20 +87,65 @@ const BoardComp: React.FC<{ board: BoardTile[]; onPlace: (idx: number) => void;
   };
 
   return (
-    <div className="w-full h-full aspect-square bg-slate-900/80 p-2 sm:p-4 rounded-[2rem] sm:rounded-[2.5rem] border-4 border-slate-800 grid grid-cols-3 grid-rows-3 gap-1.5 sm:gap-3 shadow-2xl relative overflow-visible">
-      {board.map((tile, i) => (
-        <div key={i} onClick={() => onPlace(i)} className={`relative rounded-xl sm:rounded-2xl border-2 transition-all duration-300 flex items-center justify-center overflow-hidden ${tile.card ? 'border-slate-700/30 bg-slate-800/20' : !canPlace ? 'border-slate-800 bg-slate-900/50 opacity-50' : !tile.element ? 'border-blue-500/40 bg-blue-500/5 shadow-[inset_0_0_15px_rgba(59,130,246,0.1)] hover:border-blue-400' : tile.element === selectedCardAttr ? 'border-yellow-400 bg-yellow-400/10 animate-pulse' : 'border-red-900/80 bg-red-950/40'}`}>
-          {!tile.card && tile.element && (
-            <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none select-none">
-               <span className="text-3xl sm:text-5xl opacity-20 drop-shadow-lg">{ELEMENT_ICONS[tile.element]}</span>
-               <span className="text-[8px] sm:text-[10px] font-black text-white/10 uppercase mt-1">{tile.element}</span>
-            </div>
-          )}
-          {tile.card && <div className="w-full h-full p-1 animate-in zoom-in-95 duration-300 z-10"><CardComponent card={tile.card} isMobile={false} /></div>}
+    <div role="grid" aria-label={tr.t('a11y.board')} className="w-full h-full bg-slate-900/80 p-2 sm:p-4 rounded-[2rem] sm:rounded-[2.5rem] border-4 border-slate-800 grid gap-1.5 sm:gap-3 shadow-2xl relative overflow-visible" style={{ gridTemplateColumns: `repeat(${shape.cols}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${shape.rows}, minmax(0, 1fr))`, aspectRatio: `${shape.cols} / ${shape.rows}` }}>
+      {/* 行は display: contents で CSS グリッドに影響させない */}
+      {Array.from({ length: shape.rows }, (_, row) => (
+        <div key={row} role="row" className="contents">
+          {board.slice(row * width, (row + 1) * width).map((tile, col) => {
+            const i = row * width + col;
+            const hint = hints?.find(h => h.boardIdx === i);
+            // 選んだカードをこのマスに置いたときの 4 辺の値 (変わらないマスでは出さない)
+            const delta = selectedCard && canPlace && !tile.card ? tileModifier(selectedCard, tile, magnitude) : 0;
+            const preview = delta !== 0 ? calculateStats(selectedCard!, tile, magnitude) : null;
+            // 置けないマスは盤面の一部として塗りつぶすだけ
+            if (tile.blocked) {
+              return <div key={i} ref={el => { tileRefs.current[i] = el; }} role="gridcell" tabIndex={-1} aria-label={describeTile(tile, i, vsCpu, tr, shape)} aria-disabled className="rounded-xl sm:rounded-2xl border-2 border-slate-950 bg-slate-950 shadow-[inset_0_0_20px_rgba(0,0,0,0.8)] outline-none" />;
+            }
+            return (
+              <div
+                key={i}
+                ref={el => { tileRefs.current[i] = el; }}
+                role="gridcell"
+                tabIndex={-1}
+                aria-label={describeTile(tile, i, vsCpu, tr, shape) + (preview ? `, ${tr.t('a11y.preview', { stats: preview.join(' ') })}` : '') + (hint ? `, ${tr.t(hint.best ? 'hint.best' : 'hint.flips', { count: hint.flips })}` : '')}
+                aria-disabled={!canPlace || !!tile.card}
+                onClick={() => onPlace(i)}
+                className={`relative outline-none rounded-xl sm:rounded-2xl border-2 transition-all duration-300 flex items-center justify-center overflow-hidden ${cursorIdx === i ? 'ring-4 ring-cyan-300' : hint?.best ? 'ring-4 ring-emerald-400' : lastPlaced === i ? 'ring-2 ring-white' : highlighted?.has(i) ? 'ring-2 ring-yellow-400' : ''} ${tile.card ? 'border-slate-700/30 bg-slate-800/20' : !canPlace ? 'border-slate-800 bg-slate-900/50 opacity-50' : delta > 0 ? 'border-yellow-400 bg-yellow-400/10 animate-pulse' : delta < 0 ? 'border-red-900/80 bg-red-950/40' : 'border-blue-500/40 bg-blue-500/5 shadow-[inset_0_0_15px_rgba(59,130,246,0.1)] hover:border-blue-400'}`}>
+                {!tile.card && tile.element && (
+                  <div aria-hidden="true" className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none select-none">
+                     <span className="text-3xl sm:text-5xl opacity-20 drop-shadow-lg">{ELEMENT_ICONS[tile.element]}</span>
+                     <span className="text-[8px] sm:text-[10px] font-black text-white/10 uppercase mt-1">{tr.elementName(tile.element)}</span>
+                  </div>
+                )}
+                {!tile.card && tile.effect && (
+                  <div aria-hidden="true" className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none select-none">
+                     {tile.effect === 'BOOST' ? <ChevronsUp className="w-8 h-8 sm:w-12 sm:h-12 text-emerald-300/20" /> : <Lock className="w-8 h-8 sm:w-12 sm:h-12 text-slate-300/20" />}
+                     <span className="text-[8px] sm:text-[10px] font-black text-white/10 uppercase mt-1">{tr.t(`tileEffect.${tile.effect}`)}</span>
+                  </div>
+                )}
+                {preview && (
+                  <div aria-hidden="true" className={`absolute top-1 left-1 sm:top-2 sm:left-2 grid grid-cols-3 text-[9px] sm:text-xs font-black leading-none pointer-events-none select-none ${delta > 0 ? 'text-yellow-300' : 'text-red-300'}`}>
+                    <span className="col-start-2">{displayStat(preview[0])}</span>
+                    <span className="col-start-1">{displayStat(preview[1])}</span>
+                    <span className="col-start-3">{displayStat(preview[2])}</span>
+                    <span className="col-start-2">{displayStat(preview[3])}</span>
+                  </div>
+                )}
+                {preview && <div aria-hidden="true" className={`absolute bottom-1 right-1 sm:bottom-2 sm:right-2 text-xs sm:text-base font-black italic pointer-events-none select-none ${delta > 0 ? 'text-yellow-300' : 'text-red-300'}`}>{delta > 0 ? `+${delta}` : `−${-delta}`}</div>}
+                {hint && (
+                  <div aria-hidden="true" className={`absolute inset-0 flex items-center justify-center pointer-events-none select-none ${HINT_SHADES[Math.min(hint.flips, HINT_SHADES.length - 1)]}`}>
+                    <span className={`text-2xl sm:text-4xl font-black italic drop-shadow-lg ${hint.best ? 'text-emerald-300' : 'text-white/60'}`}>{hint.flips}</span>
+                  </div>
+                )}
+                {tile.card && <div className="w-full h-full p-1 animate-in zoom-in-95 duration-300 z-10"><CardComponent card={tile.card} isMobile={false} flipDuration={flipDuration} /></div>}
+                {tile.card && tile.effect === 'LOCK' && <Lock aria-hidden="true" size={14} className="absolute top-1.5 right-1.5 z-20 text-slate-200 drop-shadow" />}
+              </div>
+            );
+          })}
         </div>
       ))}
       {effect && (
-        <div className="absolute inset-0 z-[100] flex items-center justify-center pointer-events-none">
+        <div aria-hidden="true" className="absolute inset-0 z-[100] flex items-center justify-center pointer-events-none">
            <div className={`text-6xl sm:text-9xl font-black italic uppercase tracking-tighter animate-bounce ${getEffectStyle(effect)}`} style={{ WebkitTextStroke: '2px black' }}>{effect}!</div>
         </div>
       )}
@@ -289,27 +153,40 @@ const BoardComp: React.FC<{ board: BoardTile[]; onPlace: (idx: number) => void;
   );
 };
 
-const HandComp: React.FC<{ hand: Card[]; score: number; isTurn: boolean; selectedIdx: number | null; onSelect: (idx: number) => void; color: 'blue' | 'red'; isLandscape?: boolean }> = ({ hand, score, isTurn, selectedIdx, onSelect, color, isLandscape }) => {
+const HandComp: React.FC<{ hand: Card[]; score: number; isTurn: boolean; selectedIdx: number | null; onSelect: (idx: number) => void; color: 'blue' | 'red'; isLandscape?: boolean; hidden?: boolean; cursorIdx?: number | null; vsCpu?: boolean; size?: number }> = ({ hand, score, isTurn, selectedIdx, onSelect, color, isLandscape, hidden = false, cursorIdx = null, vsCpu = false, size = DECK_SIZE }) => {
+  const tr = useI18n();
   const [hoveredIdx, setHoveredIdx] = useState<number | null>(null);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
   const isP1 = color === 'blue';
   const isMobile = !isLandscape;
+  const name = playerName(isP1 ? 'P1' : 'P2', vsCpu, tr);
+  useEffect(() => { if (cursorIdx !== null) cardRefs.current[cursorIdx]?.focus(); }, [cursorIdx]);
+  // 手札が多い盤面では 1 枚あたりの幅 (縦向き) と高さ (横向き) を枚数で割る
+  const slotClass = isMobile ? (size > DECK_SIZE ? 'h-full min-w-0' : 'h-full aspect-[3/4]') : 'w-full';
+  const slotStyle = isMobile ? {} : { height: `${90 / size}%` };
   
   // 縦向き: 横並び手札 / 横向き: 縦並び手札
   return (
     <div className={`flex ${isMobile ? 'flex-row w-full h-24 sm:h-32' : 'flex-col w-32 sm:w-48 h-full'} gap-2 sm:gap-4 relative shrink-0`}>
       <div className={`p-2 sm:p-4 rounded-xl sm:rounded-2xl border-2 shadow-lg flex ${isMobile ? 'flex-col items-center justify-center min-w-[3rem]' : 'justify-between items-center'} z-20 shrink-0 ${isP1 ? 'bg-blue-900/30 border-blue-500/50' : 'bg-red-900/30 border-red-500/50'}`}>
-        <div className={`flex flex-col ${isMobile ? 'text-center' : 'leading-tight'}`}>
+        <div aria-label={tr.t('a11y.score', { player: name, score })} className={`flex flex-col ${isMobile ? 'text-center' : 'leading-tight'}`}>
           <span className="text-[8px] sm:text-[10px] font-black uppercase tracking-[0.2em] text-white/60 hidden sm:block">{isP1 ? 'P1' : 'P2'}</span>
           <span className={`text-xl sm:text-3xl font-black italic ${isP1 ? 'text-blue-400' : 'text-red-400'}`}>{score}</span>
         </div>
         <div className={`${isMobile ? 'w-full h-1 mt-1' : 'w-2 h-8 lg:w-3 lg:h-12'} rounded-full ${isTurn ? (isP1 ? 'bg-blue-500 animate-pulse' : 'bg-red-500 animate-pulse') : 'bg-slate-700'}`} />
       </div>
-      <div className={`flex-1 flex ${isMobile ? 'flex-row' : 'flex-col'} gap-1 min-h-0 relative items-end`}>
+      <div role="listbox" aria-label={tr.t('a11y.hand', { player: name })} aria-orientation={isMobile ? 'horizontal' : 'vertical'} className={`flex-1 flex ${isMobile ? 'flex-row' : 'flex-col'} gap-1 min-h-0 relative items-end`}>
         {hand.map((card, i) => (
           <div 
             key={`${card.id}-${i}`} 
-            className={`flex-1 ${isMobile ? 'h-full aspect-[3/4]' : 'h-[18%] w-full'} relative transition-all duration-300`}
-            style={{ zIndex: hoveredIdx === i ? 50 : (selectedIdx === i ? 40 : 10) }}
+            ref={el => { cardRefs.current[i] = el; }}
+            role="option"
+            tabIndex={-1}
+            aria-selected={selectedIdx === i}
+            aria-disabled={!isTurn || hidden}
+            aria-label={hidden || isHiddenCard(card) ? tr.t('a11y.faceDown') : describeCard(card, tr)}
+            className={`flex-1 ${slotClass} relative outline-none transition-all duration-300 ${cursorIdx === i ? 'ring-4 ring-cyan-300 rounded-xl' : ''}`}
+            style={{ ...slotStyle, zIndex: hoveredIdx === i ? 50 : (selectedIdx === i ? 40 : 10) }}
             onMouseEnter={() => setHoveredIdx(i)}
             onMouseLeave={() => setHoveredIdx(null)}
           >
@@ -319,60 +196,92 @@ const HandComp: React.FC<{ hand: Card[]; score: number; isTurn: boolean; selecte
               isHovered={hoveredIdx === i}
               side={isP1 ? 'left' : 'right'} 
               isMobile={isMobile}
-              onClick={() => isTurn && onSelect(i)} 
+              faceDown={hidden || isHiddenCard(card)}
+              onClick={hidden ? undefined : () => isTurn && onSelect(i)} 
             />
           </div>
         ))}
-        {[...Array(Math.max(0, 5 - hand.length))].map((_, i) => (
-          <div key={`empty-${i}`} className={`flex-1 ${isMobile ? 'h-full aspect-[3/4]' : 'h-[18%] w-full'} opacity-10 pointer-events-none`}><CardComponent card={null} isMobile={isMobile} /></div>
+        {[...Array(Math.max(0, size - hand.length))].map((_, i) => (
+          <div key={`empty-${i}`} className={`flex-1 ${slotClass} opacity-10 pointer-events-none`} style={slotStyle}><CardComponent card={null} isMobile={isMobile} /></div>
         ))}
       </div>
     </div>
   );
 };
 
-const DeckSelect: React.FC<{ onSelect: (deck: Card[]) => void; player: string; color: 'blue' | 'red'; excludeIds: Set<number>; isMobile: boolean }> = ({ onSelect, player, color, excludeIds, isMobile }) => {
-  const [options, setOptions] = useState<Card[][]>([]);
+interface DeckOption {
+  label: string;
+  deck: Card[];
+  errors: string[];
+}
+
+const DeckSelect: React.FC<{ onSelect: (deck: Card[]) => void; player: string; color: 'blue' | 'red'; excludeIds: Set<number>; pool: Card[]; savedDecks: SavedDeck[]; constraints: DeckConstraints; seed: string; isMobile: boolean; size: number }> = ({ onSelect, player, color, excludeIds, pool, savedDecks, constraints, seed, isMobile, size }) => {
+  const tr = useI18n();
+  const [options, setOptions] = useState<DeckOption[]>([]);
   const [previewIdx, setPreviewIdx] = useState<number>(0);
+  const optionRefs = useRef<(HTMLButtonElement | null)[]>([]);
 
   useEffect(() => {
-    const newOptions = Array.from({ length: 5 }).map(() => generateDeck(excludeIds));
-    setOptions(newOptions);
-  }, [excludeIds]);
+    const rng = createRng(`${seed}:patterns:${player}`);
+    const patterns = Array.from({ length: 5 }).map((_, i) => {
+      const deck = generateValidDeck(constraints, rng, excludeIds, pool, size);
+      return { label: tr.t('deckSelect.pattern', { number: `0${i + 1}` }), deck, errors: validateDeck(deck, constraints, { tr, size }) };
+    });
+    // 保存済みデッキは制限違反があっても一覧に出し、理由を表示する
+    const saved = savedDecks.map(d => {
+      const deck = resolveDeck(d);
+      return { label: d.name, deck, errors: validateDeck(deck, constraints, { pool, excludeIds, tr, size }) };
+    });
+    setOptions([...saved, ...patterns]);
+  }, [excludeIds, pool, savedDecks, constraints, seed, player, tr, size]);
 
-  const handleClick = (deck: Card[], idx: number) => {
+  const handleClick = ({ deck, errors }: DeckOption, idx: number) => {
     if (previewIdx === idx) {
-      onSelect(deck);
+      if (errors.length === 0) onSelect(deck);
     } else {
       setPreviewIdx(idx);
     }
   };
 
+  useInputActions((action: InputAction) => {
+    if (action.type === 'MOVE') setPreviewIdx(i => (i + (action.dx || action.dy) + options.length) % options.length);
+    else if (action.type === 'NUMBER' && action.value <= options.length) setPreviewIdx(action.value - 1);
+    else if (action.type === 'CONFIRM') handleClick(options[previewIdx], previewIdx);
+  }, options.length > 0);
+
+  useEffect(() => optionRefs.current[previewIdx]?.scrollIntoView({ block: 'nearest' }), [previewIdx]);
+
   if (options.length === 0) return null;
 
   return (
     <div className="w-full flex flex-col gap-6 animate-in fade-in duration-700 px-2 h-full">
       <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-6 overflow-y-auto pb-4 min-h-0">
-        {options.map((deck, idx) => (
+        {options.map((option, idx) => (
           <button 
             key={idx} 
-            onClick={() => handleClick(deck, idx)} 
+            ref={el => { optionRefs.current[idx] = el; }}
+            onClick={() => handleClick(option, idx)} 
             className={`relative flex flex-col items-center justify-center p-4 sm:p-8 rounded-2xl sm:rounded-3xl border-2 sm:border-4 transition-all duration-300 
               ${previewIdx === idx 
                 ? (color === 'blue' ? 'bg-blue-600/10 border-blue-500 scale-[1.02]' : 'bg-red-600/10 border-red-500 scale-[1.02]') 
                 : 'bg-slate-900/50 border-slate-800 hover:border-slate-600'
               }`}
           >
-            <div className={`text-[10px] sm:text-xs font-black mb-1 ${previewIdx === idx ? (color === 'blue' ? 'text-blue-400' : 'text-red-400') : 'text-slate-500'}`}>PATTERN 0{idx + 1}</div>
-            <div className="text-xl sm:text-3xl font-black italic tracking-tighter mb-4 text-white uppercase leading-none">SELECT <span className={color === 'blue' ? 'text-blue-500' : 'text-red-500'}>DECK</span></div>
+            <div className={`text-[10px] sm:text-xs font-black mb-1 ${previewIdx === idx ? (color === 'blue' ? 'text-blue-400' : 'text-red-400') : 'text-slate-500'}`}>{option.label}</div>
+            <div className="text-xl sm:text-3xl font-black italic tracking-tighter mb-4 text-white uppercase leading-none">{tr.t('deckSelect.select')} <span className={color === 'blue' ? 'text-blue-500' : 'text-red-500'}>{tr.t('deckSelect.deck')}</span></div>
             <div className="space-y-1 w-full text-left opacity-70 group-hover:opacity-100 transition-opacity">
-              {deck.map((c, i) => (
-                <div key={i} className="flex justify-between text-[8px] sm:text-[10px] font-bold border-b border-slate-800 pb-0.5"><span className="text-slate-500 font-mono">Lv.{c.level}</span><span className="truncate max-w-[80px] sm:max-w-[120px] text-slate-300 uppercase">{c.name}</span></div>
+              {option.deck.map((c, i) => (
+                <div key={i} className="flex justify-between text-[8px] sm:text-[10px] font-bold border-b border-slate-800 pb-0.5"><span className="text-slate-500 font-mono">Lv.{c.level}</span><span className="truncate max-w-[80px] sm:max-w-[120px] text-slate-300 uppercase">{tr.cardName(c)}</span></div>
               ))}
             </div>
-            {previewIdx === idx && (
+            {option.errors.length > 0 && (
+              <div className="mt-4 w-full space-y-0.5 text-left">
+                {option.errors.map(err => <div key={err} className="flex items-center gap-1 text-[8px] sm:text-[10px] font-bold text-red-400"><AlertTriangle size={10} className="shrink-0" /> {err}</div>)}
+              </div>
+            )}
+            {previewIdx === idx && option.errors.length === 0 && (
               <div className={`mt-4 flex items-center gap-1 font-black animate-pulse text-xs uppercase ${color === 'blue' ? 'text-blue-400' : 'text-red-400'}`}>
-                Click to Confirm <Play size={12} fill="currentColor" />
+                {tr.t('deckSelect.confirm')} <Play size={12} fill="currentColor" />
               </div>
             )}
           </button>
@@ -380,12 +289,12 @@ const DeckSelect: React.FC<{ onSelect: (deck: Card[]) => void; player: string; c
       </div>
       
       <div className="flex h-[200px] sm:h-[300px] lg:h-[380px] bg-slate-900/80 border-t-2 border-slate-800 rounded-t-[2rem] sm:rounded-t-[4rem] p-4 sm:p-10 justify-center items-end gap-2 sm:gap-6 overflow-hidden backdrop-blur-sm shrink-0">
-          {options[previewIdx].map((card, i) => (
+          {options[previewIdx].deck.map((card, i) => (
             <div key={`${previewIdx}-${card.id}-${i}`} className="w-20 sm:w-32 lg:w-40 flex flex-col transition-all duration-500 transform hover:-translate-y-4">
                <div className="flex-1 min-h-0 flex items-end pb-2"><CardComponent card={{...card, owner: player as any}} small isMobile={false} /></div>
                <div className="mt-2 text-center shrink-0 leading-tight hidden sm:block">
-                 <div className={`text-[10px] font-black ${color === 'blue' ? 'text-blue-500' : 'text-red-500'}`}>LEVEL {card.level}</div>
-                 <div className="text-sm font-black text-white truncate px-1 uppercase">{card.name}</div>
+                 <div className={`text-[10px] font-black ${color === 'blue' ? 'text-blue-500' : 'text-red-500'}`}>{tr.t('deckSelect.level', { level: card.level })}</div>
+                 <div className="text-sm font-black text-white truncate px-1 uppercase">{tr.cardName(card)}</div>
                </div>
             </div>
           ))}
@@ -394,11 +303,12 @@ const DeckSelect: React.FC<{ onSelect: (deck: Card[]) => void; player: string; c
   );
 };
 
-const CoinToss: React.FC<{ winner: string; onComplete: () => void }> = ({ winner, onComplete }) => {
+const CoinToss: React.FC<{ winner: string; seed: string; onComplete: () => void }> = ({ winner, seed, onComplete }) => {
+  const { t } = useI18n();
   const [rotation, setRotation] = useState(0);
   const [showResultText, setShowResultText] = useState(false);
   useEffect(() => {
-    const spins = 10 + Math.floor(Math.random() * 5); 
+    const spins = 10 + createRng(`${seed}:spins`).int(5);
     const timer = setTimeout(() => {
       // P1=0deg, P2=180deg
       const targetRotation = 360 * spins + (winner === 'P1' ? 0 : 180);
@@ -407,13 +317,13 @@ const CoinToss: React.FC<{ winner: string; onComplete: () => void }> = ({ winner
       setTimeout(onComplete, 4500);
     }, 100);
     return () => clearTimeout(timer);
-  }, [winner, onComplete]);
+  }, [winner, seed, onComplete]);
 
   return (
     <div className="fixed inset-0 flex flex-col items-center justify-center bg-slate-950/95 backdrop-blur-2xl z-50 p-4 safe-area">
       <div className="mb-8 sm:mb-16 text-center animate-in fade-in duration-500">
-        <h2 className="text-3xl sm:text-5xl font-black italic tracking-[0.2em] text-white uppercase mb-4 leading-none">Coin Toss</h2>
-        <p className="text-slate-400 font-black tracking-widest uppercase text-[10px] sm:text-sm leading-none">Determining the First Turn...</p>
+        <h2 className="text-3xl sm:text-5xl font-black italic tracking-[0.2em] text-white uppercase mb-4 leading-none">{t('coinToss.title')}</h2>
+        <p className="text-slate-400 font-black tracking-widest uppercase text-[10px] sm:text-sm leading-none">{t('coinToss.subtitle')}</p>
       </div>
       <div className="relative w-48 h-48 sm:w-72 sm:h-72 perspective-1000">
         <div className="w-full h-full relative transition-transform duration-[3000ms] cubic-bezier(0.25, 1, 0.5, 1) transform-style-3d" style={{ transform: `rotateY(${rotation}deg)` }}>
@@ -427,14 +337,196 @@ const CoinToss: React.FC<{ winner: string; onComplete: () => void }> = ({ winner
           </div>
         </div>
       </div>
-      <div className="mt-12 sm:mt-20 h-16">{showResultText && <div className="animate-in slide-in-from-bottom-4 zoom-in duration-700 px-8 py-3 rounded-full border-4 font-black italic text-xl sm:text-3xl text-white uppercase">{winner === 'P1' ? 'PLAYER 1' : 'PLAYER 2'} START</div>}</div>
+      <div className="mt-12 sm:mt-20 h-16">{showResultText && <div className="animate-in slide-in-from-bottom-4 zoom-in duration-700 px-8 py-3 rounded-full border-4 font-black italic text-xl sm:text-3xl text-white uppercase">{t('coinToss.result', { player: t(winner === 'P1' ? 'common.player1' : 'common.player2') })}</div>}</div>
+    </div>
+  );
+};
+
+const TradePanel: React.FC<{ rule: TradeRule; winner: PlayerType | 'DRAW'; decks: Record<PlayerType, Card[]>; board: BoardTile[]; finalScores: number[]; onConfirm: (transfers: CardTransfer[]) => void }> = ({ rule, winner, decks, board, finalScores, onConfirm }) => {
+  const { t } = useI18n();
+  const [picked, setPicked] = useState<number[]>([]);
+  const loserDeck = winner === 'DRAW' ? [] : decks[opponentOf(winner)];
+  const count = Math.min(tradeCount(rule, finalScores), loserDeck.length);
+  const playerChooses = playerChoosesTrade(rule, winner);
+  const transfers = tradeTransfers(rule, winner, decks, board, finalScores, picked);
+  const shown = playerChooses ? loserDeck : transfers.map(t => CARD_DATA.find(c => c.id === t.cardId)!);
+
+  const toggle = (id: number) => setPicked(prev => prev.includes(id) ? prev.filter(p => p !== id) : prev.length < count ? [...prev, id] : prev);
+  const caption = rule === 'DIRECT' ? t('trade.direct')
+    : winner === 'DRAW' ? t('trade.draw')
+    : playerChooses ? (count === 1 ? t('trade.chooseOne') : t('trade.choose', { count }))
+    : winner === 'P1' ? t('trade.youTake') : t('trade.cpuTakes');
+
+  return (
+    <div className="mb-6 lg:mb-10">
+      <div className="flex items-center justify-center gap-2 text-[10px] lg:text-xs font-black uppercase tracking-widest text-slate-400 mb-4"><ArrowLeftRight size={14} /> {t('trade.label', { rule: t(`tradeRule.${rule}`), caption })}</div>
+      <div className="flex justify-center gap-2 sm:gap-3">
+        {shown.map(card => (
+          <button key={card.id} disabled={!playerChooses} onClick={() => toggle(card.id)} className={`w-14 sm:w-20 transition-all rounded-xl outline-none focus-visible:ring-4 focus-visible:ring-cyan-300 ${playerChooses && !picked.includes(card.id) ? 'opacity-40' : ''}`}>
+            <CardComponent card={{ ...card, owner: playerChooses ? 'P2' : winner === 'P1' || rule === 'DIRECT' ? 'P1' : 'P2' }} small isMobile={false} isSelected={picked.includes(card.id)} />
+          </button>
+        ))}
+        {shown.length === 0 && <div className="text-slate-600 font-black uppercase text-xs">{t('trade.noCards')}</div>}
+      </div>
+      <button
+        onClick={() => onConfirm(transfers)}
+        disabled={playerChooses && picked.length < count}
+        className="mt-6 w-full py-4 lg:py-6 bg-white text-slate-950 rounded-full font-black text-lg lg:text-2xl uppercase italic hover:bg-slate-100 transition-all active:scale-95 shadow-xl leading-none disabled:opacity-30 outline-none focus-visible:ring-4 focus-visible:ring-cyan-300"
+      >
+        {t('trade.claim')}
+      </button>
+    </div>
+  );
+};
+
+// ラウンドごとの得点と勝者。数えない引き分けは薄く表示し、合計は形式に合わせて勝利数か枚数
+const SeriesScoreboard: React.FC<{ results: MatchResult[]; format: SeriesFormat; vsCpu: boolean }> = ({ results, format, vsCpu }) => {
+  const tr = useI18n();
+  const { t } = tr;
+  const totals = format.type === 'TOTAL_CARDS'
+    ? cardTotals(countedRounds(results, format))
+    : [results.filter(r => r.winner === 'P1').length, results.filter(r => r.winner === 'P2').length];
+
+  return (
+    <div className="mb-6 lg:mb-8">
+      <div className="text-[10px] lg:text-xs font-black uppercase tracking-widest text-slate-500 mb-2">{describeSeries(format, tr)}</div>
+      <table className="w-full text-xs lg:text-sm font-black uppercase tabular-nums">
+        <thead>
+          <tr className="text-[10px] text-slate-500">
+            <th className="text-left py-1 font-black">{t('series.round')}</th>
+            <th className="font-black text-blue-400">{playerName('P1', vsCpu, tr)}</th>
+            <th className="font-black text-red-400">{playerName('P2', vsCpu, tr)}</th>
+            <th className="text-right font-black">{t('series.result')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r, i) => (
+            <tr key={i} className={`border-t border-slate-800 ${r.winner === 'DRAW' && !format.countDraws ? 'opacity-40' : ''}`}>
+              <td className="text-left py-1 text-slate-400">{i + 1}</td>
+              <td className={r.winner === 'P1' ? 'text-blue-400' : 'text-slate-500'}>{r.scores[0]}</td>
+              <td className={r.winner === 'P2' ? 'text-red-400' : 'text-slate-500'}>{r.scores[1]}</td>
+              <td className="text-right text-slate-300">{r.winner === 'DRAW' ? t(format.countDraws ? 'battle.draw' : 'series.notCounted') : playerName(r.winner, vsCpu, tr)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t-2 border-slate-700">
+            <td className="text-left py-1 text-slate-400">{t(format.type === 'TOTAL_CARDS' ? 'series.totalCards' : 'series.totalWins')}</td>
+            <td className="text-blue-400">{totals[0]}</td>
+            <td className="text-red-400">{totals[1]}</td>
+            <td />
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+// ラウンド後の検討。開いたときに Worker で読み、より良い手があった着手だけを並べる
+const RoundAnalysis: React.FC<{ log: RoundLog; players: PlayerType[] }> = ({ log, players }) => {
+  const tr = useI18n();
+  const { t } = tr;
+  const [analysis, setAnalysis] = useState<MoveAnalysis[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysis(null);
+    setFailed(false);
+    requestAnalysis(log, players)
+      .then(result => { if (!cancelled) setAnalysis(result); })
+      .catch(() => { if (!cancelled) setFailed(true); });
+    return () => { cancelled = true; };
+  }, [log]);
+
+  const cards = [...log.initial.hands.P1, ...log.initial.hands.P2];
+  const cardName = (id: number) => { const card = cards.find(c => c.id === id); return card ? tr.cardName(card) : '?'; };
+  const cell = (idx: number) => cellName(idx, shapeOf(log.initial.rules), tr);
+
+  return (
+    <div className="mt-4 max-h-56 overflow-y-auto space-y-2 text-left">
+      {!analysis && !failed && <div className="text-center text-slate-500 font-black italic uppercase text-xs animate-pulse">{t('analysis.running')}</div>}
+      {failed && <div className="text-center text-red-400 font-black uppercase text-xs">{t('analysis.failed')}</div>}
+      {analysis?.length === 0 && <div className="text-center text-slate-500 font-black uppercase text-xs">{t('analysis.clean')}</div>}
+      {analysis?.map(a => (
+        <div key={a.step} className="flex items-center justify-between gap-3 p-3 rounded-xl border-2 border-slate-800 bg-slate-950/50">
+          <div className="min-w-0">
+            <div className="text-[9px] font-black uppercase text-slate-500">{t('analysis.move', { step: a.step + 1 })}{players.length > 1 ? ` · ${playerName(a.played.owner, false, tr)}` : ''}</div>
+            <div className="text-xs font-bold text-slate-300 truncate">{t('analysis.played', { card: cardName(a.played.cardId), cell: cell(a.played.boardIdx) })}</div>
+            <div className="text-xs font-bold text-emerald-400 truncate">{t('analysis.better', { card: cardName(a.best.cardId), cell: cell(a.best.boardIdx) })}</div>
+          </div>
+          <div className="shrink-0 font-black italic uppercase text-sm text-red-400">{t('analysis.lost', { count: a.lost })}</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// shared: 読み込んだ棋譜を開いたとき。共有された局面 (最後の手) から表示し、閉じるとタイトルに戻る
+const ReplayViewer: React.FC<{ logs: RoundLog[]; isLandscape: boolean; onClose: () => void; shared?: boolean }> = ({ logs, isLandscape, onClose, shared = false }) => {
+  const tr = useI18n();
+  const [roundIdx, setRoundIdx] = useState(0);
+  const [step, setStep] = useState(shared ? logs[0].moves.length : 0);
+  const [sharing, setSharing] = useState(false);
+  const log = logs[roundIdx];
+  const state = useMemo(() => replayRound(log, step), [log, step]);
+  const scores = getScores(state.board, state.hands);
+  const lastMove = step > 0 ? log.moves[step - 1] : null;
+  const cardName = (id: number) => { const card = CARD_DATA.find(c => c.id === id); return card ? tr.cardName(card) : `#${id}`; };
+  const selectRound = (idx: number) => { setRoundIdx(idx); setStep(0); };
+  const flipped = new Set(lastMove?.flips.map(f => f.boardIdx));
+  const shape = shapeOf(log.initial.rules);
+
+  return (
+    <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col p-2 lg:p-6 font-sans overflow-hidden safe-area">
+      <header className="flex flex-wrap justify-between items-center gap-2 mb-2 lg:mb-6 border-b border-slate-900 pb-2 lg:pb-4 shrink-0">
+        <button onClick={onClose} className="flex items-center gap-1 text-slate-400 hover:text-white font-black uppercase text-xs"><ChevronLeft size={16} /> {tr.t(shared ? 'replay.title' : 'replay.results')}</button>
+        <div className="flex gap-2">
+          <button onClick={() => setSharing(!sharing)} aria-pressed={sharing} className={`flex items-center gap-1 px-3 h-8 rounded-lg border-2 text-[10px] font-black uppercase transition-all ${sharing ? 'bg-blue-600/30 border-blue-500' : 'bg-slate-900 border-slate-800'}`}><Share2 size={12} /> {tr.t('replay.share')}</button>
+          {logs.map((l, i) => (
+            <button key={i} onClick={() => selectRound(i)} className={`px-3 h-8 rounded-lg border-2 text-[10px] font-black uppercase transition-all ${roundIdx === i ? 'bg-white text-slate-950 border-white' : l.result?.winner === 'P1' ? 'bg-blue-600/30 border-blue-500' : l.result?.winner === 'P2' ? 'bg-red-600/30 border-red-500' : 'bg-slate-900 border-slate-800'}`}>
+              {tr.t('replay.round', { round: l.round })}{l.suddenDeath ? ` ${tr.t('replay.suddenDeath')}` : ''}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-4 text-2xl lg:text-4xl font-black italic tracking-tighter leading-none">
+          <div className="text-blue-500">{scores[0]}</div>
+          <div className="text-slate-700">-</div>
+          <div className="text-red-500">{scores[1]}</div>
+        </div>
+      </header>
+
+      {sharing && <div className="flex justify-center mb-2 lg:mb-4 shrink-0"><NotationShare log={log} /></div>}
+
+      <main className={`flex-1 relative min-h-0 w-full flex ${isLandscape ? 'flex-row' : 'flex-col'} justify-between items-center gap-4`}>
+        <div className={`${isLandscape ? 'w-48 h-full order-3' : 'w-full h-24 shrink-0 order-1'}`}>
+          <HandComp hand={state.hands.P2} score={scores[1]} isTurn={state.turn === 'P2'} color="red" selectedIdx={null} onSelect={() => {}} isLandscape={isLandscape} size={handSize(shape)} />
+        </div>
+        <div className={`flex-1 flex flex-col items-center justify-center min-h-0 order-2 relative ${isLandscape ? 'h-full' : 'w-full'}`}>
+          <div className="flex items-center gap-2 lg:gap-4 mb-2 lg:mb-6">
+            <button onClick={() => setStep(0)} disabled={step === 0} className="p-2 rounded-full border-2 border-slate-800 bg-slate-900 disabled:opacity-20"><SkipBack size={16} /></button>
+            <button onClick={() => setStep(step - 1)} disabled={step === 0} className="p-2 rounded-full border-2 border-slate-800 bg-slate-900 disabled:opacity-20"><Undo2 size={16} /></button>
+            <div className="px-6 py-1 rounded-full border-2 border-slate-700 font-black uppercase text-xs lg:text-base tabular-nums">{tr.t('replay.move', { step, total: log.moves.length })}</div>
+            <button onClick={() => setStep(step + 1)} disabled={step === log.moves.length} className="p-2 rounded-full border-2 border-slate-800 bg-slate-900 disabled:opacity-20"><Redo2 size={16} /></button>
+            <button onClick={() => setStep(log.moves.length)} disabled={step === log.moves.length} className="p-2 rounded-full border-2 border-slate-800 bg-slate-900 disabled:opacity-20"><SkipForward size={16} /></button>
+          </div>
+          <div className="h-5 mb-2 text-[10px] lg:text-xs font-bold uppercase text-slate-400 text-center">
+            {lastMove ? describeMove(lastMove, cardName(lastMove.cardId), playerName(lastMove.owner, false, tr), tr, shape) : tr.t('replay.movesFirst', { player: playerName(log.initial.turn, false, tr) })}
+          </div>
+          <div className={`flex items-center justify-center ${isLandscape ? 'h-full max-h-[75vh]' : 'w-full max-w-[80vw]'}`} style={{ aspectRatio: `${shape.cols} / ${shape.rows}` }}>
+            <BoardComp board={state.board} onPlace={() => {}} canPlace={false} selectedCard={null} effect={null} highlighted={flipped} lastPlaced={lastMove?.boardIdx ?? null} shape={shape} />
+          </div>
+        </div>
+        <div className={`${isLandscape ? 'w-48 h-full order-1' : 'w-full h-24 shrink-0 order-3'}`}>
+          <HandComp hand={state.hands.P1} score={scores[0]} isTurn={state.turn === 'P1'} color="blue" selectedIdx={null} onSelect={() => {}} isLandscape={isLandscape} size={handSize(shape)} />
+        </div>
+      </main>
     </div>
   );
 };
 
 // --- Main Logic ---
 const useGame = () => {
-  const [gameState, setGameState] = useState<GameState>('TITLE');
+  const [gameState, setGameState] = useState<GamePhase>('TITLE');
   const [round, setRound] = useState(1);
   const [matchResults, setMatchResults] = useState<MatchResult[]>([]);
   const [p1Hand, setP1Hand] = useState<Card[]>([]);
@@ -444,23 +536,75 @@ const useGame = () => {
   const [selectedCardIdx, setSelectedCardIdx] = useState<number | null>(null);
   const [tossWinner, setTossWinner] = useState<PlayerType | null>(null);
   const [selectingPlayer, setSelectingPlayer] = useState<PlayerType>('P1');
-  const [activeEffect, setActiveEffect] = useState<EffectType>(null);
-  const [settings, setSettings] = useState<GameSettings>({
-    elementalEnabled: true, sameEnabled: true, plusEnabled: true, cpuDifficulty: 'MID', pvpMode: false
-  });
+  const [timeline, setTimeline] = useState<Timeline | null>(null); // 直前の手の演出。終わるまで CPU は次の手を指さない
+  const [animationSpeed, setAnimationSpeed] = useState<AnimationSpeed>(loadAnimationSpeed);
+  const [suddenDeathHands, setSuddenDeathHands] = useState<Record<PlayerType, Card[]> | null>(null);
+  const [roundDecks, setRoundDecks] = useState<Record<PlayerType, Card[]>>({ P1: [], P2: [] });
+  const [collections, setCollections] = useState<CollectionStore>(loadCollections);
+  const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
+  const [savedDecks, setSavedDecks] = useState<SavedDeck[]>(loadDecks);
+  const [roundLog, setRoundLog] = useState<RoundLog | null>(null);
+  const [redoMoves, setRedoMoves] = useState<MoveRecord[]>([]);
+  const [seriesLog, setSeriesLog] = useState<RoundLog[]>([]);
+  const [sharedLog, setSharedLog] = useState<RoundLog | null>(null); // 読み込んだ棋譜。リプレイで開く
+  const [seedInput, setSeedInput] = useState('');
+  const [matchSeed, setMatchSeed] = useState('');
+  const [gameSeed, setGameSeed] = useState(''); // 配布済みの 1 ゲーム分のシード (Sudden Death の再戦ごとに変わる)
+  const [online, setOnline] = useState<OnlineSession | null>(null);
+  const [onlineStatus, setOnlineStatus] = useState<RelayStatus>('closed');
+  const [peerConnected, setPeerConnected] = useState(false);
+  const [onlineError, setOnlineError] = useState<string | null>(null);
+  const [inbox, setInbox] = useState<RelayEntry[]>([]); // 中継サーバーから届いて未適用のエントリ
+  const [onlineDecks, setOnlineDecks] = useState<Record<string, Partial<Record<PlayerType, Card[]>>>>({}); // ラウンドのシード -> 各席のデッキ
+  const relay = useRef<RelayConnection | null>(null);
+  const revealSent = useRef(new Set<string>());
+  const [resumable, setResumable] = useState<SeriesSnapshot | null>(loadSeries);
+  const [stats, setStats] = useState<StatsStore>(loadStats);
+  const [seriesId, setSeriesId] = useState('');
+  const [campaign, setCampaign] = useState<CampaignRun | null>(null);
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>(loadCampaign);
+  const [campaignReward, setCampaignReward] = useState<Card[] | null>(null); // 直前のシリーズで初めて倒した相手の報酬
+  const [campaignStart, setCampaignStart] = useState(false);
+  const [puzzle, setPuzzle] = useState<PuzzleRun | null>(null);
+  const [puzzleProgress, setPuzzleProgress] = useState<PuzzleProgress>(loadPuzzleProgress);
+
+  useEffect(() => saveCollections(collections), [collections]);
+  useEffect(() => saveCampaign(campaignProgress), [campaignProgress]);
+  useEffect(() => savePuzzleProgress(puzzleProgress), [puzzleProgress]);
+  useEffect(() => saveDecks(savedDecks), [savedDecks]);
+  useEffect(() => saveStats(stats), [stats]);
+
+  // コレクションモードは同梱のカードでの CPU 戦のみ。P1 は自分の所持カード、CPU は CPU の所持カードからデッキを組む
+  const collectionActive = settings.collectionMode && !settings.pvpMode && !isCustomCardSet();
+  const deckPools = useMemo<Record<PlayerType, Card[]>>(() => collectionActive
+    ? { P1: ownedCards(collections.P1), P2: ownedCards(collections.CPU) }
+    : { P1: CARD_DATA, P2: CARD_DATA }, [collectionActive, collections]);
+
+  // 自動で組む P2 のデッキ: キャンペーンでは相手ごとの固定・テーマデッキ、それ以外は P2 のカードプールから引く
+  // board を渡すと CPU が難易度とパーソナリティに応じて複数の候補からその盤面に合うデッキを選ぶ
+  const campaignOpponent = campaign ? findOpponent(campaign.opponentId) : null;
+  const generateP2Deck = (rng: Rng, excludeIds: Set<number>, board?: BoardTile[]) => {
+    if (campaignOpponent) return campaignDeck(campaignOpponent, rng, excludeIds);
+    const generate = () => generateValidDeck(settings.deckConstraints, rng, excludeIds, deckPools.P2, handSize(settings.boardShape));
+    return board ? chooseCpuDeck(generate, board, settings) : generate();
+  };
 
-  const initializeBoard = useCallback(() => {
-    const b: BoardTile[] = Array(9).fill(null).map(() => ({ card: null, element: null }));
-    if (!settings.elementalEnabled) return b;
-    const count = Math.floor(Math.random() * 4) + 1;
-    for (let i = 0; i < count; i++) {
-      const idx = Math.floor(Math.random() * 9);
-      if (!b[idx].element) b[idx].element = ELEMENTS[Math.floor(Math.random() * ELEMENTS.length)];
-    }
-    return b;
-  }, [settings.elementalEnabled]);
+  // 盤面は startGame と同じ派生シードから作るので、配る前に同じ盤面を用意できる
+  const previewBoard = (seed: string) => createBoard(createRng(`${seed}:setup`), settings.elementalEnabled, settings.boardShape, settings.elementalConfig);
+
+  const dealDecks = (p1Deck: Card[], p2Deck: Card[], seed: string) => {
+    const decks = { P1: p1Deck.map(c => ({ ...c, owner: 'P1' as const })), P2: p2Deck.map(c => ({ ...c, owner: 'P2' as const })) };
+    setRoundDecks(decks);
+    startGame(decks, seed);
+  };
 
   const handleDeckSelect = (deck: Card[]) => {
+    if (online) {
+      // Open ルールなしでは中身を相手に送らない (自分にだけ secret として戻ってくる)
+      const open = settings.openEnabled;
+      sendOnline({ kind: 'deck', seed: roundSeed(matchSeed, round), cards: open ? deck : null }, open ? undefined : { cards: deck });
+      return;
+    }
     if (selectingPlayer === 'P1') {
       setP1Hand(deck.map(c => ({ ...c, owner: 'P1' })));
       // P1のカードIDリストを作成
@@ -470,163 +614,471 @@ const useGame = () => {
         setSelectingPlayer('P2'); 
       } else { 
         // CPUデッキ生成時もP1のカードを除外
-        setP2Hand(generateDeck(p1Ids).map(c => ({ ...c, owner: 'P2' })));
-        startGame();
+        const seed = roundSeed(matchSeed, round);
+        dealDecks(deck, generateP2Deck(createRng(`${seed}:cpu-deck`), p1Ids, previewBoard(seed)), seed);
       }
     } else {
-      setP2Hand(deck.map(c => ({ ...c, owner: 'P2' })));
-      startGame();
+      dealDecks(p1Hand, deck, roundSeed(matchSeed, round));
     }
   };
 
-  const startGame = () => {
-    setBoard(initializeBoard());
-    setTossWinner(Math.random() > 0.5 ? 'P1' : 'P2');
+  const startGame = (hands: Record<PlayerType, Card[]>, seed: string, suddenDeath = false) => {
+    const rng = createRng(`${seed}:setup`);
+    const initialBoard = createBoard(rng, settings.elementalEnabled, settings.boardShape, settings.elementalConfig);
+    const first: PlayerType = rng.next() < 0.5 ? 'P1' : 'P2';
+    setGameSeed(seed);
+    setBoard(initialBoard);
+    setTimeline(null);
+    setP1Hand(hands.P1);
+    setP2Hand(hands.P2);
+    setTossWinner(first);
+    setTurn(first);
+    setRoundLog(createRoundLog(round, { board: initialBoard, hands, turn: first, rules: settings }, suddenDeath));
+    setRedoMoves([]);
     setGameState('COIN_TOSS');
   };
 
-  const triggerEffect = (type: EffectType) => {
-    setActiveEffect(type);
-    setTimeout(() => setActiveEffect(null), 2000);
+  // シード未入力ならランダムに決める。同じシードと同じルールなら同じ配布・盤面・先手になる
+  const startSeries = (seed = seedInput.trim() || randomSeed(), id = createSeriesId()) => {
+    setResumable(null);
+    setCampaignReward(null);
+    setSeriesId(id);
+    setMatchSeed(seed);
+    setRound(1);
+    setMatchResults([]);
+    setSeriesLog([]);
+    beginDeckPhase(roundSeed(seed, 1));
   };
 
-  const placeCard = useCallback((idx: number, hand: Card[], handIdx: number, owner: PlayerType) => {
-    if (board[idx].card || turn !== owner) return;
-    const nextBoard = board.map(tile => ({ ...tile }));
-    const card = hand[handIdx];
-    const stats = calculateStats(card, nextBoard[idx].element);
-    nextBoard[idx].card = { ...card, owner, modifiedStats: stats };
-
-    // --- RULE LOGIC ---
-    let flippedIndices: number[] = [];
-    let comboQueue: number[] = [];
-    const getNeighbors = (i: number) => [
-      { pos: i - 3, side: 0, oppSide: 3, active: i >= 3 },
-      { pos: i - 1, side: 1, oppSide: 2, active: i % 3 !== 0 },
-      { pos: i + 1, side: 2, oppSide: 1, active: i % 3 !== 2 },
-      { pos: i + 3, side: 3, oppSide: 0, active: i < 6 },
-    ];
-
-    // Same & Plus
-    let sameMatches: number[] = [];
-    let plusSums: Record<number, number[]> = {};
-    const neighbors = getNeighbors(idx);
-
-    neighbors.forEach(n => {
-      if (n.active) {
-        const neighborCard = nextBoard[n.pos].card;
-        if (neighborCard) {
-          const myVal = stats[n.side];
-          const oppStats = neighborCard.modifiedStats || neighborCard.stats;
-          const oppVal = oppStats[n.oppSide];
-          if (settings.sameEnabled && myVal === oppVal) sameMatches.push(n.pos);
-          if (settings.plusEnabled) {
-            const sum = myVal + oppVal;
-            if (!plusSums[sum]) plusSums[sum] = [];
-            plusSums[sum].push(n.pos);
-          }
-        }
-      }
-    });
-
-    let triggeredSpecial = false;
+  // Random ルールではデッキ選択を飛ばして両者に配る
+  const beginDeckPhase = (seed: string) => {
+    setSelectingPlayer(online ? online.seat : 'P1');
+    if (!settings.randomEnabled) {
+      setGameState('DECK_SELECT');
+      return;
+    }
+    const rng = createRng(`${seed}:random-deal`);
+    const p1Deck = generateValidDeck(settings.deckConstraints, rng, undefined, deckPools.P1, handSize(settings.boardShape));
+    const p1Ids = new Set(p1Deck.map(c => c.id));
+    dealDecks(p1Deck, generateP2Deck(rng, p1Ids), seed);
+  };
 
-    if (settings.sameEnabled && sameMatches.length >= 2) {
-      triggerEffect('SAME');
-      triggeredSpecial = true;
-      sameMatches.forEach(pos => {
-        if (nextBoard[pos].card!.owner !== owner) {
-          nextBoard[pos].card!.owner = owner;
-          flippedIndices.push(pos);
-        }
-        comboQueue.push(pos);
-      });
+  // シリーズ終了: トレードの結果をコレクションに反映してタイトル (キャンペーン戦・パズルならそれぞれの一覧) へ戻る
+  const finishSeries = (transfers: CardTransfer[]) => {
+    if (transfers.length > 0) setCollections(prev => applyTransfers(prev, transfers));
+    saveSeries(null);
+    setRound(1);
+    setMatchResults([]);
+    if (puzzle) {
+      setSettings(puzzle.previousSettings);
+      setPuzzle(null);
+      setGameState('PUZZLES');
+      return;
     }
-    if (settings.plusEnabled) {
-      let plusTriggered = false;
-      Object.values(plusSums).forEach(indices => {
-        if (indices.length >= 2) {
-          plusTriggered = true;
-          indices.forEach(pos => {
-            if (nextBoard[pos].card!.owner !== owner) {
-              nextBoard[pos].card!.owner = owner;
-              flippedIndices.push(pos);
-            }
-            comboQueue.push(pos);
-          });
-        }
-      });
-      if (plusTriggered) { triggerEffect('PLUS'); triggeredSpecial = true; }
+    if (campaign) {
+      setSettings(campaign.previousSettings);
+      setCampaign(null);
+      setGameState('CAMPAIGN');
+      return;
     }
+    setGameState('TITLE');
+  };
 
-    // Basic Rule
-    neighbors.forEach(n => {
-      if (n.active) {
-        const neighborCard = nextBoard[n.pos].card;
-        if (neighborCard && neighborCard.owner !== owner) {
-          const myVal = stats[n.side];
-          const oppStats = neighborCard.modifiedStats || neighborCard.stats;
-          const oppVal = oppStats[n.oppSide];
-          if (myVal > oppVal) {
-            nextBoard[n.pos].card!.owner = owner;
-            flippedIndices.push(n.pos);
-          }
-        }
-      }
-    });
+  // --- Campaign ---
+  // startSeries は現在の settings を参照するので、相手のルールに切り替えてから始める
+  const startCampaign = (opponent: CampaignOpponent) => {
+    setCampaign({ opponentId: opponent.id, previousSettings: settings });
+    setSettings(campaignSettings(opponent, settings));
+    setCampaignStart(true);
+  };
 
-    // Combo
-    while (comboQueue.length > 0) {
-      const cIdx = comboQueue.shift()!;
-      const cCard = nextBoard[cIdx].card!;
-      const cStats = cCard.modifiedStats || cCard.stats;
-      getNeighbors(cIdx).forEach(cn => {
-        if (cn.active) {
-          const target = nextBoard[cn.pos].card;
-          if (target && target.owner !== owner) {
-            const tStats = target.modifiedStats || target.stats;
-            if (cStats[cn.side] > tStats[cn.oppSide]) {
-              nextBoard[cn.pos].card!.owner = owner;
-              if (!flippedIndices.includes(cn.pos)) {
-                flippedIndices.push(cn.pos);
-                comboQueue.push(cn.pos);
-                triggerEffect('COMBO');
-              }
-            }
-          }
-        }
-      });
+  useEffect(() => {
+    if (!campaignStart) return;
+    setCampaignStart(false);
+    startSeries();
+  }, [campaignStart]);
+
+  // 初めて倒したときだけ報酬のカードをコレクションに加える
+  const clearCampaignOpponent = (opponent: CampaignOpponent) => {
+    const firstClear = !campaignProgress.cleared.includes(opponent.id);
+    const reward = firstClear ? (opponent.reward ?? []) : [];
+    setCampaignProgress(prev => recordClear(prev, opponent.id));
+    if (reward.length > 0) setCollections(prev => awardCards(prev, reward));
+    setCampaignReward(reward.map(id => CARD_DATA.find(c => c.id === id)).filter((c): c is Card => !!c));
+  };
+
+  // --- Puzzles ---
+  // デッキ選択とコイントスを飛ばし、問題の局面からそのまま 1 ラウンドだけ遊ぶ。やり直しでも元の設定は最初のものを引き継ぐ
+  const startPuzzle = (target: Puzzle) => {
+    const rules = puzzleSettings(target, puzzle?.previousSettings ?? settings);
+    const state = puzzleState(target, rules);
+    const seed = `puzzle-${target.id}`;
+    setResumable(null);
+    setCampaignReward(null);
+    setPuzzle({ puzzleId: target.id, previousSettings: puzzle?.previousSettings ?? settings });
+    setSettings(rules);
+    setSeriesId(createSeriesId());
+    setMatchSeed(seed);
+    setGameSeed(seed);
+    setRound(1);
+    setMatchResults([]);
+    setSeriesLog([]);
+    setSuddenDeathHands(null);
+    setBoard(state.board);
+    setTimeline(null);
+    setP1Hand(state.hands.P1);
+    setP2Hand(state.hands.P2);
+    setTurn(state.turn);
+    setTossWinner(state.turn);
+    setRoundDecks(state.hands);
+    setRoundLog(createRoundLog(1, state));
+    setRedoMoves([]);
+    setSelectedCardIdx(null);
+    setGameState('PLAYING');
+  };
+
+  const puzzleData = puzzle ? findPuzzle(puzzle.puzzleId) : null;
+  // 結果画面で表示する判定。ラウンドのログから求めるので再開したセーブでも同じになる
+  const puzzleSolved = puzzleData && seriesLog[0]?.result ? isGoalMet(puzzleData.goal, seriesLog[0], seriesLog[0].result) : null;
+
+  // --- Shared Games ---
+  // 棋譜は遊んでいるシリーズとは別に持ち、閉じたらタイトルに戻る
+  const openSharedGame = (log: RoundLog) => {
+    setSharedLog(log);
+    setGameState('REPLAY');
+  };
+
+  const closeSharedGame = () => {
+    setSharedLog(null);
+    setGameState('TITLE');
+  };
+
+  // 共有リンク (#game=...) で開かれたら棋譜をリプレイで見せる。読めないリンクは無視してタイトルのまま
+  useEffect(() => {
+    const openFromHash = () => {
+      if (!window.location.hash.startsWith(NOTATION_HASH_PREFIX)) return;
+      const parsed = parseNotation(window.location.hash);
+      window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+      if ('log' in parsed) openSharedGame(parsed.log);
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
+  // Sudden Death: 引き分けた盤面で所有していたカードを手札にして再戦する
+  const replaySuddenDeath = () => {
+    if (!suddenDeathHands) return;
+    setSuddenDeathHands(null);
+    startGame(suddenDeathHands, `${gameSeed}:sd`, true);
+  };
+
+  // --- Animation ---
+  // 手順ごとの時間が過ぎたら次へ進め、最後まで再生したら消す
+  useEffect(() => {
+    if (!timeline) return;
+    if (timeline.index >= timeline.steps.length || animationSpeed === 'INSTANT') {
+      setTimeline(null);
+      return;
     }
+    const timer = setTimeout(() => setTimeline(tl => tl && { ...tl, index: tl.index + 1 }), STEP_DURATIONS[animationSpeed][timeline.steps[timeline.index].type]);
+    return () => clearTimeout(timer);
+  }, [timeline, animationSpeed]);
+
+  const changeAnimationSpeed = (speed: AnimationSpeed) => {
+    setAnimationSpeed(speed);
+    saveAnimationSpeed(speed);
+  };
 
-    setBoard(nextBoard);
-    if (owner === 'P1') setP1Hand(prev => prev.filter((_, i) => i !== handIdx));
-    else setP2Hand(prev => prev.filter((_, i) => i !== handIdx));
+  const animating = timeline !== null;
+  const shownBoard = useMemo(() => timelineBoard(board, timeline), [board, timeline]);
+  const activeEffect = currentBanner(timeline);
+
+  // revealed: オンライン対戦で伏せられていた相手のカード (出されたときに初めてわかる)
+  const placeCard = useCallback((idx: number, handIdx: number, owner: PlayerType, revealed?: Card) => {
+    if (turn !== owner) return;
+    let hands = { P1: p1Hand, P2: p2Hand };
+    const wasHidden = !!revealed && !!hands[owner][handIdx] && isHiddenCard(hands[owner][handIdx]);
+    if (revealed && wasHidden) hands = { ...hands, [owner]: hands[owner].map((c, i) => (i === handIdx ? { ...revealed, owner } : c)) };
+    const state: EngineState = { board, hands, turn, rules: settings };
+    const move = { boardIdx: idx, handIdx };
+    if (!isLegalMove(state, move)) return;
+
+    const { state: next, events } = applyMove(state, move);
+    setTimeline(animationSpeed === 'INSTANT' ? null : { steps: buildTimeline(events), index: 0 });
+    setBoard(next.board);
+    setP1Hand(next.hands.P1);
+    setP2Hand(next.hands.P2);
+    setSelectedCardIdx(null);
+    setTurn(next.turn);
+    setRoundLog(log => log && recordMove(revealed && wasHidden ? revealInitialCard(log, owner, handIdx, revealed) : log, move, events));
+    setRedoMoves([]);
+  }, [board, turn, p1Hand, p2Hand, settings, animationSpeed]);
+
+  const restoreState = (state: EngineState) => {
+    setBoard(state.board);
+    setTimeline(null);
+    setP1Hand(state.hands.P1);
+    setP2Hand(state.hands.P2);
+    setTurn(state.turn);
     setSelectedCardIdx(null);
-    setTurn(owner === 'P1' ? 'P2' : 'P1');
-  }, [board, turn, selectedCardIdx, p1Hand, p2Hand, settings]);
+  };
 
-  const scores = useMemo(() => {
-    let s1 = p1Hand.length, s2 = p2Hand.length;
-    board.forEach(t => { if (t.card?.owner === 'P1') s1++; if (t.card?.owner === 'P2') s2++; });
-    return [s1, s2];
-  }, [board, p1Hand, p2Hand]);
+  // 待った: 対人戦は 1 手、CPU 戦は自分の直前の手まで (CPU の応手もまとめて) 戻す。コレクション戦では不可
+  const undoAvailable = gameState === 'PLAYING' && !collectionActive && !online && !!roundLog
+    && roundLog.moves.some(m => settings.pvpMode || m.owner === 'P1');
+  const redoAvailable = gameState === 'PLAYING' && !collectionActive && !online && redoMoves.length > 0;
+
+  const undo = () => {
+    if (!undoAvailable || !roundLog) return;
+    const moves = [...roundLog.moves];
+    const undone: MoveRecord[] = [];
+    do { undone.unshift(moves.pop()!); } while (!settings.pvpMode && undone[0].owner !== 'P1');
+    const log = { ...roundLog, moves };
+    restoreState(replayRound(log));
+    setRoundLog(log);
+    setRedoMoves(prev => [...undone, ...prev]);
+  };
+
+  const redo = () => {
+    if (!redoAvailable || !roundLog) return;
+    let log = roundLog;
+    let state = replayRound(log);
+    const rest = [...redoMoves];
+    do {
+      const move = rest.shift()!;
+      const { state: next, events } = applyMove(state, move);
+      log = recordMove(log, move, events);
+      state = next;
+    } while (!settings.pvpMode && rest.length > 0 && rest[0].owner !== 'P1');
+    restoreState(state);
+    setRoundLog(log);
+    setRedoMoves(rest);
+  };
+
+  const scores = useMemo(() => getScores(board, { P1: p1Hand, P2: p2Hand }), [board, p1Hand, p2Hand]);
+  const shownScores = useMemo(() => getScores(shownBoard, { P1: p1Hand, P2: p2Hand }), [shownBoard, p1Hand, p2Hand]); // 演出中はめくれた分だけ数える
+
+  // 終わったラウンドをリプレイ用のログと戦績に記録する。seriesWinner はシリーズが決着したときだけ渡す
+  const logRound = (result: MatchResult, seriesWinner: SeriesRecord['winner']) => {
+    if (!roundLog) return;
+    const finished = { ...roundLog, round, result };
+    setSeriesLog(prev => [...prev, finished]);
+    if (puzzle) return; // パズルは戦績に数えない
+    const meta = { id: seriesId, playedAt: Date.now(), mode: online ? 'ONLINE' as const : settings.pvpMode ? 'PVP' as const : 'CPU' as const, seat: online?.seat ?? 'P1', settings, seed: matchSeed };
+    setStats(prev => recordRound(prev, meta, toRoundRecord(finished), seriesWinner));
+  };
 
   useEffect(() => {
-    if (gameState === 'PLAYING' && board.every(t => t.card)) {
-      const winner = scores[0] > scores[1] ? 'P1' : scores[0] < scores[1] ? 'P2' : 'DRAW';
-      const results = [...matchResults, { winner: winner as any, scores }];
+    if (gameState === 'PLAYING' && isBoardFull(board) && !animating) {
+      const winner = getWinner(scores);
+      if (puzzleData && roundLog) {
+        if (isGoalMet(puzzleData.goal, roundLog, { winner, scores })) setPuzzleProgress(prev => recordSolved(prev, puzzleData.id));
+        logRound({ winner, scores }, null);
+        setMatchResults([{ winner, scores }]);
+        setGameState('GAME_OVER');
+        return;
+      }
+      if (winner === 'DRAW' && settings.suddenDeathEnabled) {
+        setSuddenDeathHands(collectOwnedCards(board, { P1: p1Hand, P2: p2Hand }));
+        logRound({ winner, scores }, null);
+        setGameState('ROUND_END');
+        return;
+      }
+      const results = [...matchResults, { winner, scores }];
+      const over = isSeriesOver(results, settings.seriesFormat);
+      const seriesWinner = getSeriesWinner(results, settings.seriesFormat);
+      logRound({ winner, scores }, over ? seriesWinner : null);
+      if (over && campaignOpponent && seriesWinner === 'P1') clearCampaignOpponent(campaignOpponent);
       setMatchResults(results);
-      if (results.length >= 3 || results.filter(r => r.winner === 'P1').length >= 2 || results.filter(r => r.winner === 'P2').length >= 2) setGameState('GAME_OVER');
-      else setGameState('ROUND_END');
+      setGameState(over ? 'GAME_OVER' : 'ROUND_END');
     }
-  }, [board, scores, gameState, matchResults]);
+  }, [board, scores, gameState, matchResults, settings.suddenDeathEnabled, p1Hand, p2Hand, roundLog, round, animating]);
+
+
+  // --- Save & Resume ---
+  // 遷移のたびに丸ごと保存する。オンライン対戦は中継サーバーのログから復元するので対象外
+  useEffect(() => {
+    if (online || !isResumablePhase(gameState)) return;
+    saveSeries({
+      gameState, round, matchResults, p1Hand, p2Hand, board, turn, settings, tossWinner, selectingPlayer,
+      suddenDeathHands, roundDecks, roundLog, seriesLog, matchSeed, gameSeed, seriesId, campaign, puzzle
+    });
+  }, [online, gameState, round, matchResults, p1Hand, p2Hand, board, turn, settings, tossWinner, selectingPlayer, suddenDeathHands, roundDecks, roundLog, seriesLog, matchSeed, gameSeed, seriesId, campaign, puzzle]);
+
+  const continueSeries = () => {
+    if (!resumable) return;
+    setSettings(resumable.settings);
+    setRound(resumable.round);
+    setMatchResults(resumable.matchResults);
+    setP1Hand(resumable.p1Hand);
+    setP2Hand(resumable.p2Hand);
+    setBoard(resumable.board);
+    setTimeline(null);
+    setTurn(resumable.turn);
+    setTossWinner(resumable.tossWinner);
+    setSelectingPlayer(resumable.selectingPlayer);
+    setSuddenDeathHands(resumable.suddenDeathHands);
+    setRoundDecks(resumable.roundDecks);
+    setRoundLog(resumable.roundLog);
+    setSeriesLog(resumable.seriesLog);
+    setMatchSeed(resumable.matchSeed);
+    setGameSeed(resumable.gameSeed);
+    setSeriesId(resumable.seriesId);
+    setCampaign(resumable.campaign);
+    setPuzzle(resumable.puzzle);
+    setRedoMoves([]);
+    setSelectedCardIdx(null);
+    setGameState(resumable.gameState);
+    setResumable(null);
+  };
+
+  // --- Online PvP ---
+  // 自分の操作も中継サーバーへ送るだけで、戻ってきたエントリを inbox から順に適用する。
+  // 適用できる局面になるまで (コインの演出中など) は先頭のエントリで待つ
+
+  const sendOnline = (payload: OnlinePayload, secret?: RelayEntry['secret']) => relay.current?.send(payload, secret);
+
+  const connectOnline = (url: string, target: { room?: string; token?: string } = {}) => {
+    relay.current?.close();
+    setOnlineError(null);
+    setInbox([]);
+    setOnlineDecks({});
+    setGameState('LOBBY');
+    relay.current = connectRelay(url, target, {
+      onJoined: session => { setOnline(session); saveSession(session); },
+      onEntry: entry => setInbox(prev => [...prev, entry]),
+      onPeer: setPeerConnected,
+      onStatus: setOnlineStatus,
+      onError: setOnlineError,
+    });
+  };
+
+  const leaveOnline = () => {
+    relay.current?.close();
+    relay.current = null;
+    saveSession(null);
+    setOnline(null);
+    setPeerConnected(false);
+    setInbox([]);
+    setGameState('TITLE');
+  };
+
+  // リロードしても同じ席に戻り、部屋のログを最初から再生して局面を復元する
+  useEffect(() => {
+    const session = loadSession();
+    if (session) connectOnline(session.url, { room: session.room, token: session.token });
+    return () => relay.current?.close();
+  }, []);
+
+  // 開始したプレイヤーのルールを両者で使う。コレクションとトレードはオンラインでは使わない
+  const requestOnlineStart = () => sendOnline({
+    kind: 'start',
+    settings: { ...settings, pvpMode: true, collectionMode: false, tradeRule: 'NONE' },
+    seed: seedInput.trim() || randomSeed(),
+  });
+
+  // ラウンド終了時に残った手札を公開する (Sudden Death で相手の手札になるため)
+  const revealHand = (seat: PlayerType, hand: Card[]) => {
+    (seat === 'P1' ? setP1Hand : setP2Hand)(prev => fillHiddenCards(prev, hand));
+    setSuddenDeathHands(prev => prev && { ...prev, [seat]: fillHiddenCards(prev[seat], hand) });
+    setSeriesLog(prev => prev.map((l, i) => (i < prev.length - 1 ? l : hand.reduce((log, c, idx) => revealInitialCard(log, seat, idx, c), l))));
+  };
 
-  return { gameState, setGameState, round, matchResults, p1Hand, p2Hand, board, turn, selectedCardIdx, setSelectedCardIdx, tossWinner, selectingPlayer, settings, setSettings, handleDeckSelect, placeCard, scores, setRound, setMatchResults, startGame, nextRound: () => { setRound(r => r + 1); setSelectingPlayer('P1'); setGameState('DECK_SELECT'); }, activeEffect, setSelectingPlayer };
+  useEffect(() => {
+    const entry = inbox[0];
+    if (!entry || !online) return;
+    const { payload } = entry;
+    const consume = () => setInbox(prev => prev.slice(1));
+    switch (payload.kind) {
+      case 'start':
+        if (!['LOBBY', 'GAME_OVER', 'REPLAY'].includes(gameState)) return;
+        // startSeries は現在の settings を参照するので、ルールの反映を待ってから始める
+        if (JSON.stringify(settings) !== JSON.stringify(payload.settings)) {
+          setSettings(payload.settings);
+          return;
+        }
+        consume();
+        // 同じシードで再戦しても前のシリーズのデッキや公開済みの記録を使わないように消す
+        setOnlineDecks({});
+        revealSent.current.clear();
+        // 戦績の ID は部屋と開始エントリから決めるので、リロードして再生しても二重に記録しない
+        startSeries(payload.seed, `${online.room}-${entry.seq}`);
+        return;
+      case 'deck': {
+        const cards = entry.secret?.cards ?? payload.cards ?? hiddenHand(handSize(settings.boardShape), entry.from);
+        setOnlineDecks(prev => ({ ...prev, [payload.seed]: { ...prev[payload.seed], [entry.from]: cards } }));
+        consume();
+        return;
+      }
+      case 'move':
+        if (gameState !== 'PLAYING' || gameSeed !== payload.seed) return;
+        consume();
+        // 手番違いなどの不正な手は両者とも同じように無視される
+        placeCard(payload.boardIdx, payload.handIdx, entry.from, payload.card);
+        return;
+      case 'reveal':
+        if (gameSeed !== payload.seed || !['ROUND_END', 'GAME_OVER', 'REPLAY'].includes(gameState)) return;
+        consume();
+        if (entry.from !== online.seat) revealHand(entry.from, payload.hand);
+        return;
+    }
+  }, [inbox, online, gameState, settings, gameSeed, placeCard]);
+
+  // 両者のデッキが揃ったら配る。揃うまでは DECK_SELECT で相手を待つ
+  const onlineDeckSent = !!online && !!onlineDecks[roundSeed(matchSeed, round)]?.[online.seat];
+  useEffect(() => {
+    if (!online || gameState !== 'DECK_SELECT') return;
+    const seed = roundSeed(matchSeed, round);
+    const decks = onlineDecks[seed];
+    if (decks?.P1 && decks.P2) dealDecks(decks.P1, decks.P2, seed);
+  }, [online, gameState, onlineDecks, matchSeed, round]);
+
+  useEffect(() => {
+    if (!online || settings.openEnabled || settings.randomEnabled || !['ROUND_END', 'GAME_OVER'].includes(gameState)) return;
+    const hand = online.seat === 'P1' ? p1Hand : p2Hand;
+    const queued = inbox.some(e => e.from === online.seat && e.payload.kind === 'reveal' && e.payload.seed === gameSeed);
+    if (hand.length === 0 || queued || revealSent.current.has(gameSeed)) return;
+    revealSent.current.add(gameSeed);
+    sendOnline({ kind: 'reveal', seed: gameSeed, hand });
+  }, [online, settings.openEnabled, settings.randomEnabled, gameState, p1Hand, p2Hand, inbox, gameSeed]);
+
+  // 操作できる手札: CPU 戦は P1、ローカル対人戦は両方、オンラインは自分の席だけ
+  const controls = (seat: PlayerType) => (online ? online.seat === seat : seat === 'P1' || settings.pvpMode);
+
+  // Open ルールなしでは対戦中の相手の手札を伏せる
+  const handHidden = (seat: PlayerType) => gameState === 'PLAYING' && !settings.openEnabled
+    && (online ? online.seat !== seat : seat === 'P2' && !settings.pvpMode);
+
+  const suddenDeathReady = !suddenDeathHands || ![...suddenDeathHands.P1, ...suddenDeathHands.P2].some(isHiddenCard);
+
+  // オンラインでは盤面に直接置かず、中継サーバーから戻ってきたときに適用する
+  const placeSelected = (idx: number) => {
+    if (selectedCardIdx === null || animating) return;
+    if (!online) {
+      placeCard(idx, selectedCardIdx, turn);
+      return;
+    }
+    const hand = turn === 'P1' ? p1Hand : p2Hand;
+    const move = { boardIdx: idx, handIdx: selectedCardIdx };
+    if (turn !== online.seat || !isLegalMove({ board, hands: { P1: p1Hand, P2: p2Hand }, turn, rules: settings }, move)) return;
+    sendOnline({ kind: 'move', seed: gameSeed, ...move, card: hand[selectedCardIdx] });
+    setSelectedCardIdx(null);
+  };
+
+  return { gameState, setGameState, round, matchResults, p1Hand, p2Hand, board, turn, selectedCardIdx, setSelectedCardIdx, tossWinner, selectingPlayer, settings, setSettings, handleDeckSelect, placeCard, scores, setRound, setMatchResults, startGame, beginDeckPhase, nextRound: () => { setRound(round + 1); beginDeckPhase(roundSeed(matchSeed, round + 1)); }, activeEffect, setSelectingPlayer, suddenDeathHands, replaySuddenDeath, collections, collectionActive, deckPools, roundDecks, finishSeries, savedDecks, setSavedDecks, startSeries, undo, redo, undoAvailable, redoAvailable, seriesLog, seedInput, setSeedInput, matchSeed, gameSeed,
+    online, onlineStatus, peerConnected, onlineError, connectOnline, leaveOnline, requestOnlineStart, onlineDeckSent, controls, handHidden, suddenDeathReady, placeSelected,
+    resumable, continueSeries, stats, setStats, roundLog, campaignOpponent, campaignProgress, campaignReward, startCampaign,
+    puzzleData, puzzleProgress, puzzleSolved, startPuzzle, sharedLog, openSharedGame, closeSharedGame,
+    animating, shownBoard, shownScores, animationSpeed, changeAnimationSpeed };
 };
 
 // --- Main App ---
+
 export default function App() {
   const g = useGame();
+  const tr = useI18n();
+  const { t } = tr;
   const [isLandscape, setIsLandscape] = useState(false);
 
   useEffect(() => {
@@ -636,64 +1088,215 @@ export default function App() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // キーボード・ゲームパッドのカーソル。一度も使うまでは表示しない
+  // 手札とマスのどちらを動かすかはカードを選んでいるかで決まるので、マウス操作と混ぜても食い違わない
+  const [cursor, setCursor] = useState<{ hand: number; board: number } | null>(null);
+
+  // ヒント表示と検討。検討はどのラウンドを開いたかを seriesLog の長さで覚え、次のラウンドでは閉じた状態に戻る
+  const [hintMode, setHintMode] = useState(false);
+  const [importing, setImporting] = useState(false); // タイトルの棋譜の読み込み欄
+  const [analysisOpenFor, setAnalysisOpenFor] = useState<number | null>(null);
+  const [hints, setHints] = useState<MoveHint[] | null>(null);
+  // ヒントの読みは Worker で行い、届くまでは前の表示を消しておく
   useEffect(() => {
-    if (!g.settings.pvpMode && g.gameState === 'PLAYING' && g.turn === 'P2' && g.p2Hand.length > 0) {
-      const timer = setTimeout(() => {
-        const { boardIdx, handIdx } = getBestMove(g.board, g.p2Hand, g.settings);
-        g.placeCard(boardIdx, g.p2Hand, handIdx, 'P2');
-      }, 1000);
-      return () => clearTimeout(timer);
+    setHints(null);
+    if (!hintMode || g.gameState !== 'PLAYING' || g.selectedCardIdx === null || !g.controls(g.turn)) return;
+    let cancelled = false;
+    const state: EngineState = { board: g.board, hands: { P1: g.p1Hand, P2: g.p2Hand }, turn: g.turn, rules: g.settings };
+    requestMoveHints(state, g.selectedCardIdx, g.settings, `${g.gameSeed}:hint:${g.board.filter(t => t.card).length}`)
+      .then(result => { if (!cancelled) setHints(result); })
+      .catch(() => {}); // ヒントが出せなくても対局は続けられる
+    return () => { cancelled = true; };
+  }, [hintMode, g.gameState, g.selectedCardIdx, g.turn, g.board, g.p1Hand, g.p2Hand, g.settings, g.gameSeed, g.online]);
+  const lastRoundLog = g.seriesLog[g.seriesLog.length - 1];
+  const analyzedPlayers: PlayerType[] = g.online ? [g.online.seat] : g.settings.pvpMode ? ['P1', 'P2'] : ['P1'];
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const turnHand = g.turn === 'P1' ? g.p1Hand : g.p2Hand;
+  const cursorActive = !!cursor && g.gameState === 'PLAYING' && g.controls(g.turn) && turnHand.length > 0;
+  const handCursor = cursorActive && g.selectedCardIdx === null ? Math.min(cursor.hand, turnHand.length - 1) : null;
+  const boardCursor = cursorActive && g.selectedCardIdx !== null ? cursor.board : null;
+
+  // 結果画面ではボタンのフォーカスを移動して操作する (Enter はフォーカス中のボタンがそのまま受け取る)
+  const moveOverlayFocus = (action: InputAction) => {
+    const buttons = [...(overlayRef.current?.querySelectorAll<HTMLButtonElement>('button:not(:disabled)') ?? [])];
+    if (buttons.length === 0) return;
+    const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    if (action.type === 'MOVE') buttons[current < 0 ? 0 : (current + (action.dx || action.dy) + buttons.length) % buttons.length].focus();
+    else if (action.type === 'CONFIRM' && current < 0) buttons[0].focus();
+    else if (action.type === 'CONFIRM') buttons[current].click();
+  };
+
+  const handleInput = (action: InputAction) => {
+    if (g.gameState !== 'PLAYING') return moveOverlayFocus(action);
+    if (!g.controls(g.turn) || turnHand.length === 0) return;
+    const { cols, rows } = g.settings.boardShape;
+    const firstEmpty = Math.max(0, g.board.findIndex(t => !t.card && !t.blocked));
+    const pos = { hand: Math.min(cursor?.hand ?? 0, turnHand.length - 1), board: cursor?.board ?? firstEmpty };
+    // 最初の入力はカーソルを出すだけ (数字キーはそのまま効かせる)
+    if (!cursor && action.type !== 'NUMBER') return setCursor(pos);
+
+    if (g.selectedCardIdx === null) {
+      if (action.type === 'MOVE') setCursor({ ...pos, hand: (pos.hand + (action.dx || action.dy) + turnHand.length) % turnHand.length });
+      if (action.type === 'CONFIRM' || (action.type === 'NUMBER' && action.value <= turnHand.length)) {
+        const handIdx = action.type === 'NUMBER' ? action.value - 1 : pos.hand;
+        g.setSelectedCardIdx(handIdx);
+        setCursor({ hand: handIdx, board: g.board[pos.board]?.card || g.board[pos.board]?.blocked ? firstEmpty : pos.board });
+      }
+      return;
+    }
+    if (action.type === 'MOVE') {
+      const clamp = (n: number, size: number) => Math.min(size - 1, Math.max(0, n));
+      setCursor({ ...pos, board: clamp(Math.floor(pos.board / cols) + action.dy, rows) * cols + clamp((pos.board % cols) + action.dx, cols) });
+    } else if (action.type === 'CONFIRM' || (action.type === 'NUMBER' && action.value <= g.board.length)) {
+      const boardIdx = action.type === 'NUMBER' ? action.value - 1 : pos.board;
+      setCursor({ ...pos, board: boardIdx });
+      g.placeSelected(boardIdx);
+    } else if (action.type === 'CANCEL') {
+      setCursor({ ...pos, hand: g.selectedCardIdx });
+      g.setSelectedCardIdx(null);
+    }
+  };
+  useInputActions(handleInput, ['PLAYING', 'ROUND_END', 'GAME_OVER'].includes(g.gameState));
+
+  // 着手ごとにスクリーンリーダーへ読み上げる。待ったで手数が減ったときは読み上げない
+  const [announcement, setAnnouncement] = useState('');
+  const announcedMoves = useRef(0);
+  useEffect(() => {
+    const moves = g.roundLog?.moves ?? [];
+    const last = moves[moves.length - 1];
+    if (last && moves.length > announcedMoves.current) {
+      const placed = g.board[last.boardIdx].card;
+      const cardName = placed ? tr.cardName(placed) : '?';
+      setAnnouncement(`${describeMove(last, cardName, playerName(last.owner, !g.settings.pvpMode, tr), tr, g.settings.boardShape)}. ${t('move.score', { p1: g.scores[0], p2: g.scores[1] })}`);
     }
-  }, [g.turn, g.gameState, g.p2Hand, g.settings, g.board, g.placeCard]);
+    announcedMoves.current = moves.length;
+  }, [g.roundLog]);
+
+  useEffect(() => {
+    if (['ROUND_END', 'GAME_OVER'].includes(g.gameState)) overlayRef.current?.querySelector<HTMLButtonElement>('button:not(:disabled)')?.focus();
+  }, [g.gameState]);
+
+  useEffect(() => {
+    if (!g.settings.pvpMode && g.gameState === 'PLAYING' && g.turn === 'P2' && g.p2Hand.length > 0 && !g.animating) {
+      // 探索が速く終わっても最低 1 秒は考えている演出を入れる
+      let cancelled = false;
+      const state: EngineState = { board: g.board, hands: { P1: g.p1Hand, P2: g.p2Hand }, turn: 'P2', rules: g.settings };
+      const minDelay = new Promise(resolve => setTimeout(resolve, 1000));
+      // 同じ局面なら同じ手を選ぶよう、埋まったマス数でシードを派生させる
+      const seed = `${g.gameSeed}:cpu:${g.board.filter(t => t.card).length}`;
+      Promise.all([requestCpuMove(state, g.settings, seed), minDelay]).then(([{ boardIdx, handIdx }]) => {
+        if (!cancelled) g.placeCard(boardIdx, handIdx, 'P2');
+      });
+      return () => { cancelled = true; };
+    }
+  }, [g.turn, g.gameState, g.p1Hand, g.p2Hand, g.settings, g.board, g.placeCard, g.gameSeed, g.animating]);
 
   const difficultyConfig = {
-    LOW: { label: 'Easy', color: 'text-emerald-400', border: 'border-emerald-900/50', icon: <CpuIcon size={20} /> },
-    MID: { label: 'Normal', color: 'text-blue-400', border: 'border-blue-900/50', icon: <CpuIcon size={20} /> },
-    HIGH: { label: 'Hard', color: 'text-red-400', border: 'border-red-900/50', icon: <CpuIcon size={20} /> },
-    EXPERT: { label: 'Expert', color: 'text-purple-400', border: 'border-purple-500/50', icon: <Sparkles size={20} /> },
+    LOW: { color: 'text-emerald-400', border: 'border-emerald-900/50', icon: <CpuIcon size={20} /> },
+    MID: { color: 'text-blue-400', border: 'border-blue-900/50', icon: <CpuIcon size={20} /> },
+    HIGH: { color: 'text-red-400', border: 'border-red-900/50', icon: <CpuIcon size={20} /> },
+    EXPERT: { color: 'text-purple-400', border: 'border-purple-500/50', icon: <Sparkles size={20} /> },
   };
 
+  const tradeRules: TradeRule[] = ['NONE', 'ONE', 'DIFF', 'DIRECT', 'ALL'];
+
+  // 表示名は i18n のバンドル (rule.*) にある
+  const ruleToggles: { key: RuleToggleKey; Icon: LucideIcon; activeClass: string; iconClass: string }[] = [
+    { key: 'elementalEnabled', Icon: Zap, activeClass: 'bg-emerald-600/20 border-emerald-500', iconClass: 'text-emerald-400' },
+    { key: 'sameEnabled', Icon: Layers, activeClass: 'bg-blue-600/20 border-blue-500', iconClass: 'text-blue-400' },
+    { key: 'plusEnabled', Icon: PlusIcon, activeClass: 'bg-amber-600/20 border-amber-500', iconClass: 'text-amber-400' },
+    { key: 'sameWallEnabled', Icon: Square, activeClass: 'bg-sky-600/20 border-sky-500', iconClass: 'text-sky-400' },
+    { key: 'plusWallEnabled', Icon: ShieldHalf, activeClass: 'bg-orange-600/20 border-orange-500', iconClass: 'text-orange-400' },
+    { key: 'openEnabled', Icon: Eye, activeClass: 'bg-teal-600/20 border-teal-500', iconClass: 'text-teal-400' },
+    { key: 'randomEnabled', Icon: Shuffle, activeClass: 'bg-pink-600/20 border-pink-500', iconClass: 'text-pink-400' },
+    { key: 'suddenDeathEnabled', Icon: Timer, activeClass: 'bg-rose-600/20 border-rose-500', iconClass: 'text-rose-400' },
+    { key: 'reverseEnabled', Icon: ArrowDownUp, activeClass: 'bg-violet-600/20 border-violet-500', iconClass: 'text-violet-400' },
+    { key: 'fallenAceEnabled', Icon: Crown, activeClass: 'bg-yellow-600/20 border-yellow-500', iconClass: 'text-yellow-400' },
+  ];
+
+  // 盤面は BOARD_LAYOUTS を順に切り替える。コレクションのカードは 5 枚のデッキ前提なので 3x3 以外とは併用しない
+  const layoutIdx = Math.max(0, BOARD_LAYOUTS.findIndex(l => JSON.stringify(l.shape) === JSON.stringify(g.settings.boardShape)));
+  const layout = BOARD_LAYOUTS[layoutIdx];
+  const cycleLayout = () => {
+    const next = BOARD_LAYOUTS[(layoutIdx + 1) % BOARD_LAYOUTS.length];
+    g.setSettings({ ...g.settings, boardShape: next.shape, collectionMode: next.shape === CLASSIC_BOARD && g.settings.collectionMode });
+  };
+
+  // シリーズの結果の枠。FIRST_TO の長いシリーズでは枠を小さくする
+  const slots = seriesSlots(g.matchResults, g.settings.seriesFormat);
+  const pipSize = slots > 5 ? 'w-6 h-6' : 'w-8 h-8';
+  const seriesCards = cardTotals(countedRounds(g.matchResults, g.settings.seriesFormat));
+  // 結果画面の見出し: ラウンドの勝者、シリーズが終わったらシリーズの勝者
+  const shownWinner = g.gameState === 'GAME_OVER' ? getSeriesWinner(g.matchResults, g.settings.seriesFormat) : g.matchResults[g.matchResults.length - 1]?.winner;
+
   // UI RENDER
   if (g.gameState === 'TITLE') return (
     <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col items-center justify-center p-8 font-sans overflow-hidden relative safe-area">
       <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-blue-600/10 blur-[120px] rounded-full animate-pulse" />
       <div className="absolute bottom-1/4 right-1/4 w-96 h-96 bg-red-600/10 blur-[120px] rounded-full animate-pulse delay-700" />
       
+      <div className="absolute top-4 right-4 z-20 flex items-center gap-1" role="group" aria-label={t('common.language')}>
+        <Languages size={14} className="text-slate-500 mr-1" />
+        {LOCALES.map(locale => (
+          <button key={locale} onClick={() => tr.setLocale(locale)} aria-pressed={tr.locale === locale} className={`px-3 py-1 rounded-full border-2 text-[10px] font-black uppercase transition-all ${tr.locale === locale ? 'bg-white text-slate-950 border-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}>{LOCALE_LABELS[locale]}</button>
+        ))}
+      </div>
+
+      <div className="absolute top-4 left-4 z-20 flex items-center gap-1" role="group" aria-label={t('common.animation')}>
+        <Gauge size={14} className="text-slate-500 mr-1" />
+        {ANIMATION_SPEEDS.map(speed => (
+          <button key={speed} onClick={() => g.changeAnimationSpeed(speed)} aria-pressed={g.animationSpeed === speed} className={`px-3 py-1 rounded-full border-2 text-[10px] font-black uppercase transition-all ${g.animationSpeed === speed ? 'bg-white text-slate-950 border-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}>{t(`animationSpeed.${speed}`)}</button>
+        ))}
+      </div>
+
       <div className="relative z-10 flex flex-col items-center max-w-4xl w-full">
         <h1 className="text-6xl lg:text-9xl font-black italic mb-8 lg:mb-16 uppercase tracking-tighter drop-shadow-2xl">Triple <span className="text-blue-500">Triad</span></h1>
         
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 sm:gap-12 w-full mb-12">
           {/* Game Mode */}
           <div className="space-y-4 text-left">
-            <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2 flex items-center gap-2"><Users size={14} /> Game Mode</h3>
+            <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2 flex items-center gap-2"><Users size={14} /> {t('title.gameMode')}</h3>
             <button onClick={() => g.setSettings({ ...g.settings, pvpMode: false })} className={`w-full p-4 sm:p-6 rounded-2xl border-2 flex justify-between items-center transition-all ${!g.settings.pvpMode ? 'bg-blue-600 border-blue-400 shadow-lg' : 'bg-slate-900 border-slate-800 opacity-60'}`}>
-              <div className="flex items-center gap-4"><User size={20} /><span className="font-black italic uppercase">VS CPU</span></div>
+              <div className="flex items-center gap-4"><User size={20} /><span className="font-black italic uppercase">{t('title.vsCpu')}</span></div>
               {!g.settings.pvpMode && <CheckCircle2 size={20} />}
             </button>
             <button onClick={() => g.setSettings({ ...g.settings, pvpMode: true })} className={`w-full p-4 sm:p-6 rounded-2xl border-2 flex justify-between items-center transition-all ${g.settings.pvpMode ? 'bg-purple-600 border-purple-400 shadow-lg' : 'bg-slate-900 border-slate-800 opacity-60'}`}>
-              <div className="flex items-center gap-4"><Users size={20} /><span className="font-black italic uppercase">LOCAL PVP</span></div>
+              <div className="flex items-center gap-4"><Users size={20} /><span className="font-black italic uppercase">{t('title.localPvp')}</span></div>
               {g.settings.pvpMode && <CheckCircle2 size={20} />}
             </button>
+            <button onClick={() => g.setGameState('LOBBY')} className="w-full p-4 sm:p-6 rounded-2xl border-2 flex justify-between items-center transition-all bg-slate-900 border-slate-800 hover:border-emerald-500">
+              <div className="flex items-center gap-4"><Globe size={20} className="text-emerald-400" /><span className="font-black italic uppercase">{t('title.onlinePvp')}</span></div>
+              <ChevronRight size={20} className="text-slate-600" />
+            </button>
           </div>
 
           {/* Rules */}
           <div className="space-y-4 text-left">
-            <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2 flex items-center gap-2"><Settings2 size={14} /> Rule Settings</h3>
+            <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2 flex items-center gap-2"><Settings2 size={14} /> {t('title.rules')}</h3>
             <div className="flex flex-col gap-4">
-              <div className="grid grid-cols-3 gap-3">
-                <button onClick={() => g.setSettings({...g.settings, elementalEnabled: !g.settings.elementalEnabled})} className={`flex flex-col items-center justify-center p-3 sm:p-4 rounded-xl border-2 transition-all ${g.settings.elementalEnabled ? 'bg-emerald-600/20 border-emerald-500' : 'bg-slate-900 border-slate-800 opacity-40'}`}>
-                  <Zap size={18} className={g.settings.elementalEnabled ? 'text-emerald-400' : ''} />
-                  <span className="text-[10px] font-black uppercase mt-1">Elem</span>
-                </button>
-                <button onClick={() => g.setSettings({...g.settings, sameEnabled: !g.settings.sameEnabled})} className={`flex flex-col items-center justify-center p-3 sm:p-4 rounded-xl border-2 transition-all ${g.settings.sameEnabled ? 'bg-blue-600/20 border-blue-500' : 'bg-slate-900 border-slate-800 opacity-40'}`}>
-                  <Layers size={18} className={g.settings.sameEnabled ? 'text-blue-400' : ''} />
-                  <span className="text-[10px] font-black uppercase mt-1">Same</span>
-                </button>
-                <button onClick={() => g.setSettings({...g.settings, plusEnabled: !g.settings.plusEnabled})} className={`flex flex-col items-center justify-center p-3 sm:p-4 rounded-xl border-2 transition-all ${g.settings.plusEnabled ? 'bg-amber-600/20 border-amber-500' : 'bg-slate-900 border-slate-800 opacity-40'}`}>
-                  <PlusIcon size={18} className={g.settings.plusEnabled ? 'text-amber-400' : ''} />
-                  <span className="text-[10px] font-black uppercase mt-1">Plus</span>
-                </button>
+              <div className="grid grid-cols-5 gap-2 sm:gap-3">
+                {ruleToggles.map(({ key, Icon, activeClass, iconClass }) => (
+                  <button key={key} onClick={() => g.setSettings({...g.settings, [key]: !g.settings[key]})} className={`flex flex-col items-center justify-center p-2 sm:p-3 rounded-xl border-2 transition-all ${g.settings[key] ? activeClass : 'bg-slate-900 border-slate-800 opacity-40'}`}>
+                    <Icon size={18} className={g.settings[key] ? iconClass : ''} />
+                    <span className="text-[9px] sm:text-[10px] font-black uppercase mt-1 whitespace-nowrap">{t(`rule.${key}`)}</span>
+                  </button>
+                ))}
               </div>
+
+              <SeriesSettings format={g.settings.seriesFormat} onChange={seriesFormat => g.setSettings({ ...g.settings, seriesFormat })} />
+
+              {g.settings.elementalEnabled && <ElementalSettings config={g.settings.elementalConfig} onChange={elementalConfig => g.setSettings({ ...g.settings, elementalConfig })} />}
+
+              <button onClick={cycleLayout} className={`w-full flex items-center justify-between gap-3 p-3 sm:p-4 rounded-xl border-2 transition-all ${layoutIdx > 0 ? 'bg-lime-600/20 border-lime-500' : 'bg-slate-900 border-slate-800'}`}>
+                <div className="flex items-center gap-3">
+                  <Grid3x3 size={18} className={layoutIdx > 0 ? 'text-lime-400' : 'text-slate-500'} />
+                  <div className="text-left leading-tight">
+                    <div className="text-[10px] font-black uppercase">{t('title.board')} · {t(`boardLayout.${layout.id}` as MessageKey)}</div>
+                    <div className="text-[9px] text-slate-400 font-bold uppercase">{t('title.handSize', { count: handSize(layout.shape) })}</div>
+                  </div>
+                </div>
+                <ChevronRight size={18} className="text-slate-600" />
+              </button>
               
               {!g.settings.pvpMode && (
                 <button 
@@ -708,39 +1311,160 @@ export default function App() {
                       {difficultyConfig[g.settings.cpuDifficulty].icon}
                     </div>
                     <div>
-                      <div className={`font-black italic text-base sm:text-lg uppercase ${difficultyConfig[g.settings.cpuDifficulty].color}`}>CPU: {difficultyConfig[g.settings.cpuDifficulty].label}</div>
-                      <div className="text-[10px] text-slate-500 font-bold tracking-widest uppercase">Intelligence</div>
+                      <div className={`font-black italic text-base sm:text-lg uppercase ${difficultyConfig[g.settings.cpuDifficulty].color}`}>{t('title.cpu', { level: t(`difficulty.${g.settings.cpuDifficulty}`) })}</div>
+                      <div className="text-[10px] text-slate-500 font-bold tracking-widest uppercase">{t('title.intelligence')}</div>
+                      <div className="text-[9px] text-slate-400 font-bold">{t(`difficultyInfo.${g.settings.cpuDifficulty}`)}</div>
                     </div>
                   </div>
                   <ChevronRight size={18} className="text-slate-600" />
                 </button>
               )}
+
+              {!g.settings.pvpMode && (() => {
+                const personality = findPersonality(g.settings.cpuPersonality);
+                const nextPersonality = CPU_PERSONALITIES[(CPU_PERSONALITIES.indexOf(personality) + 1) % CPU_PERSONALITIES.length];
+                return (
+                  <button onClick={() => g.setSettings({...g.settings, cpuPersonality: nextPersonality.id})} className="w-full flex items-center gap-3 p-3 sm:p-4 rounded-xl border-2 border-slate-800 bg-slate-900 hover:border-amber-500 transition-all text-left">
+                    <Drama size={18} className="text-amber-400 shrink-0" />
+                    <div className="min-w-0 flex-1 leading-tight">
+                      <div className="text-[10px] font-black uppercase">{t('title.personality', { name: tr.localized(personality.name) })}</div>
+                      <div className="text-[9px] text-slate-400 font-bold truncate">{tr.localized(personality.description)}</div>
+                    </div>
+                    <ChevronRight size={16} className="text-slate-600" />
+                  </button>
+                );
+              })()}
+
+              {!g.settings.pvpMode && !isCustomCardSet() && (
+                <div className="grid grid-cols-2 gap-3">
+                  <button onClick={() => g.setSettings({...g.settings, collectionMode: !g.settings.collectionMode, boardShape: CLASSIC_BOARD})} className={`flex items-center gap-3 p-3 sm:p-4 rounded-xl border-2 transition-all ${g.settings.collectionMode ? 'bg-indigo-600/20 border-indigo-500' : 'bg-slate-900 border-slate-800 opacity-40'}`}>
+                    <Library size={18} className={g.settings.collectionMode ? 'text-indigo-400' : ''} />
+                    <div className="text-left leading-tight">
+                      <div className="text-[10px] font-black uppercase">{t('title.collection')}</div>
+                      <div className="text-[9px] text-slate-400 font-bold uppercase">{t('title.cardsOwned', { count: countCards(g.collections.P1) })}</div>
+                    </div>
+                  </button>
+                  <button
+                    disabled={!g.settings.collectionMode}
+                    onClick={() => g.setSettings({...g.settings, tradeRule: tradeRules[(tradeRules.indexOf(g.settings.tradeRule) + 1) % tradeRules.length]})}
+                    className={`flex items-center gap-3 p-3 sm:p-4 rounded-xl border-2 transition-all ${g.settings.collectionMode && g.settings.tradeRule !== 'NONE' ? 'bg-fuchsia-600/20 border-fuchsia-500' : 'bg-slate-900 border-slate-800 opacity-40'}`}
+                  >
+                    <ArrowLeftRight size={18} className={g.settings.collectionMode && g.settings.tradeRule !== 'NONE' ? 'text-fuchsia-400' : ''} />
+                    <div className="text-left leading-tight">
+                      <div className="text-[10px] font-black uppercase">{t('title.trade')}</div>
+                      <div className="text-[9px] text-slate-400 font-bold uppercase">{t(`tradeRule.${g.settings.tradeRule}`)}</div>
+                    </div>
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
-        <button onClick={() => { g.setRound(1); g.setMatchResults([]); g.setGameState('DECK_SELECT'); }} className="px-16 sm:px-24 py-5 sm:py-8 bg-white text-slate-950 rounded-full font-black text-xl sm:text-3xl italic uppercase hover:scale-110 transition-all active:scale-95 shadow-xl">Start Battle</button>
+        <div className="flex items-center gap-2 mb-6 bg-slate-900 border-2 border-slate-800 rounded-xl px-3 py-2 focus-within:border-blue-500">
+          <Hash size={14} className="text-slate-500" />
+          <input value={g.seedInput} onChange={e => g.setSeedInput(e.target.value)} placeholder={t('title.seed')} className="bg-transparent outline-none text-xs font-bold font-mono w-44" />
+        </div>
+        {importing && <div className="flex justify-center w-full mb-6"><NotationImport onLoad={g.openSharedGame} /></div>}
+        {g.resumable && (
+          <button onClick={g.continueSeries} className="mb-4 flex items-center gap-3 px-8 py-3 rounded-full border-2 border-blue-500 bg-blue-600/20 hover:bg-blue-600/40 transition-all">
+            <Play size={18} className="text-blue-400" />
+            <span className="font-black italic uppercase">{t('title.continue')}</span>
+            <span className="text-[10px] font-bold uppercase text-slate-400">
+              {t('common.round', { round: g.resumable.round })} · {g.resumable.matchResults.filter(r => r.winner === 'P1').length}-{g.resumable.matchResults.filter(r => r.winner === 'P2').length}
+            </span>
+          </button>
+        )}
+        <button onClick={() => g.startSeries()} className="px-16 sm:px-24 py-5 sm:py-8 bg-white text-slate-950 rounded-full font-black text-xl sm:text-3xl italic uppercase hover:scale-110 transition-all active:scale-95 shadow-xl">{t('title.start')}</button>
+        <div className="mt-6 flex flex-wrap justify-center gap-x-8 gap-y-3">
+          {/* キャンペーンとパズルは同梱のカードの ID で定義している */}
+          {!isCustomCardSet() && (
+            <>
+              <button onClick={() => g.setGameState('CAMPAIGN')} className="flex items-center gap-2 text-slate-400 hover:text-white font-black italic uppercase text-sm transition-colors"><MapIcon size={16} /> {t('title.campaign')}</button>
+              <button onClick={() => g.setGameState('PUZZLES')} className="flex items-center gap-2 text-slate-400 hover:text-white font-black italic uppercase text-sm transition-colors"><PuzzleIcon size={16} /> {t('title.puzzles')}</button>
+            </>
+          )}
+          <button onClick={() => g.setGameState('DECK_BUILDER')} className="flex items-center gap-2 text-slate-400 hover:text-white font-black italic uppercase text-sm transition-colors"><Hammer size={16} /> {t('title.deckBuilder')}</button>
+          <button onClick={() => g.setGameState('STATS')} className="flex items-center gap-2 text-slate-400 hover:text-white font-black italic uppercase text-sm transition-colors"><BarChart3 size={16} /> {t('title.stats')}</button>
+          <button onClick={() => g.setGameState('CARD_SETS')} className="flex items-center gap-2 text-slate-400 hover:text-white font-black italic uppercase text-sm transition-colors"><Database size={16} /> {ACTIVE_CARD_SET?.name ?? t('title.cardSets')}</button>
+          <button onClick={() => setImporting(!importing)} aria-expanded={importing} className="flex items-center gap-2 text-slate-400 hover:text-white font-black italic uppercase text-sm transition-colors"><FileInput size={16} /> {t('notation.import')}</button>
+        </div>
       </div>
     </div>
   );
 
+  if (g.gameState === 'DECK_BUILDER') return (
+    <DeckBuilder
+      pool={g.deckPools.P1}
+      constraints={g.settings.deckConstraints}
+      onConstraintsChange={deckConstraints => g.setSettings({ ...g.settings, deckConstraints })}
+      decks={g.savedDecks}
+      onDecksChange={g.setSavedDecks}
+      onBack={() => g.setGameState('TITLE')}
+    />
+  );
+
+  if (g.gameState === 'STATS') return (
+    <StatsDashboard series={g.stats.series} onClear={() => g.setStats({ ...g.stats, series: [] })} onBack={() => g.setGameState('TITLE')} />
+  );
+
+  if (g.gameState === 'CAMPAIGN') return (
+    <CampaignLadder progress={g.campaignProgress} onStart={g.startCampaign} onBack={() => g.setGameState('TITLE')} />
+  );
+
+  if (g.gameState === 'CARD_SETS') return (
+    <CardSetManager onBack={() => g.setGameState('TITLE')} />
+  );
+
+  if (g.gameState === 'PUZZLES') return (
+    <PuzzleList progress={g.puzzleProgress} onStart={g.startPuzzle} onBack={() => g.setGameState('TITLE')} />
+  );
+
+  if (g.gameState === 'LOBBY') return (
+    <OnlineLobby
+      session={g.online}
+      status={g.onlineStatus}
+      peerConnected={g.peerConnected}
+      error={g.onlineError}
+      onCreate={url => g.connectOnline(url)}
+      onJoin={(url, room) => g.connectOnline(url, { room })}
+      onStart={g.requestOnlineStart}
+      onLeave={g.leaveOnline}
+    />
+  );
+
+  if (g.gameState === 'REPLAY') return (
+    g.sharedLog
+      ? <ReplayViewer logs={[g.sharedLog]} isLandscape={isLandscape} onClose={g.closeSharedGame} shared />
+      : <ReplayViewer logs={g.seriesLog} isLandscape={isLandscape} onClose={() => g.setGameState('GAME_OVER')} />
+  );
+
   if (g.gameState === 'DECK_SELECT') return (
     <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col items-center justify-center p-4 font-sans overflow-hidden safe-area">
       <div className="h-full flex flex-col items-center overflow-y-auto pb-10 w-full">
          <div className="mb-4 sm:mb-6 text-center shrink-0 pt-4">
-            <h2 className="text-2xl sm:text-4xl font-black italic uppercase text-white mb-1 leading-none">Deck Selection</h2>
+            <h2 className="text-2xl sm:text-4xl font-black italic uppercase text-white mb-1 leading-none">{t('deckSelect.title')}</h2>
             <div className={`px-6 sm:px-10 py-1 sm:py-1.5 rounded-full inline-block font-black uppercase text-[10px] sm:text-xs tracking-widest shadow-xl ${g.selectingPlayer === 'P1' ? 'bg-blue-600' : 'bg-red-600'}`}>
-               {g.selectingPlayer === 'P1' ? 'PLAYER 1' : 'PLAYER 2'} CHOICE
+               {t('deckSelect.choice', { player: t(g.selectingPlayer === 'P1' ? 'common.player1' : 'common.player2') })}
             </div>
          </div>
          <div className="flex-1 w-full max-w-7xl min-h-0">
+            {g.onlineDeckSent ? (
+              <div className="h-full flex items-center justify-center text-slate-500 font-black italic uppercase animate-pulse">{t('deckSelect.waiting')}</div>
+            ) : (
             <DeckSelect 
               key={g.selectingPlayer} 
               onSelect={g.handleDeckSelect} 
               player={g.selectingPlayer} 
               color={g.selectingPlayer === 'P1' ? 'blue' : 'red'} 
-              excludeIds={g.selectingPlayer === 'P2' ? new Set(g.p1Hand.map(c => c.id)) : new Set()}
+              excludeIds={g.selectingPlayer === 'P2' && !g.online ? new Set(g.p1Hand.map(c => c.id)) : new Set()}
+              pool={g.deckPools[g.selectingPlayer]}
+              savedDecks={g.savedDecks}
+              constraints={g.settings.deckConstraints}
+              seed={roundSeed(g.matchSeed, g.round)}
               isMobile={!isLandscape}
+              size={handSize(g.settings.boardShape)}
             />
+            )}
          </div>
       </div>
     </div>
@@ -748,7 +1472,7 @@ export default function App() {
 
   if (g.gameState === 'COIN_TOSS') return (
     <div className="fixed inset-0 bg-slate-950 text-white flex flex-col items-center justify-center p-4 font-sans safe-area">
-       {g.tossWinner && <CoinToss winner={g.tossWinner === 'P1' ? 'P1' : 'P2'} onComplete={() => g.setGameState('PLAYING')} />}
+       {g.tossWinner && <CoinToss winner={g.tossWinner === 'P1' ? 'P1' : 'P2'} seed={g.gameSeed} onComplete={() => g.setGameState('PLAYING')} />}
     </div>
   );
 
@@ -759,20 +1483,35 @@ export default function App() {
           <Swords className="text-blue-500" size={!isLandscape ? 24 : 32} /> Triple Triad
         </h1>
         <div className="flex gap-4 lg:gap-12 items-center">
-          <div className="hidden sm:flex gap-2">
-            {[...Array(3)].map((_, i) => {
+          {g.campaignOpponent && (
+            <div className="hidden sm:flex items-center gap-1.5 text-[10px] font-black uppercase text-amber-300"><MapIcon size={12} /> {tr.localized(g.campaignOpponent.name)}</div>
+          )}
+          {g.puzzleData && (
+            <div className="flex items-center gap-1.5 text-[10px] font-black uppercase text-amber-300"><Target size={12} /> {describeGoal(g.puzzleData.goal, tr)}</div>
+          )}
+          {g.online && (
+            <div className={`flex items-center gap-1.5 text-[10px] font-black uppercase ${g.peerConnected && g.onlineStatus === 'open' ? 'text-emerald-400' : 'text-amber-400 animate-pulse'}`}>
+              <Globe size={12} /> {g.online.room} · {g.online.seat}{g.onlineStatus !== 'open' ? ` · ${t('battle.reconnecting')}` : !g.peerConnected ? ` · ${t('battle.opponentOffline')}` : ''}
+            </div>
+          )}
+          <div title={t('battle.matchSeed')} className="hidden md:flex items-center gap-1 text-[10px] font-bold font-mono text-slate-500 select-all"><Hash size={12} />{g.matchSeed}</div>
+          <div className="hidden sm:flex items-center gap-2" title={describeSeries(g.settings.seriesFormat, tr)}>
+            {[...Array(slots)].map((_, i) => {
               const res = g.matchResults[i];
               return (
-                <div key={i} className={`w-8 h-8 rounded-lg border-2 flex items-center justify-center transition-all ${res ? (res.winner === 'P1' ? 'bg-blue-600 border-blue-400' : 'bg-red-600 border-red-400') : 'bg-slate-900 border-slate-800'}`}>
-                  {res ? (res.winner === 'P1' ? <CheckCircle2 size={16} /> : <XCircle size={16} />) : <span className="text-[10px] text-slate-700">{i+1}</span>}
+                <div key={i} className={`${pipSize} rounded-lg border-2 flex items-center justify-center transition-all ${!res ? 'bg-slate-900 border-slate-800' : res.winner === 'P1' ? 'bg-blue-600 border-blue-400' : res.winner === 'P2' ? 'bg-red-600 border-red-400' : `bg-slate-700 border-slate-500 ${g.settings.seriesFormat.countDraws ? '' : 'opacity-40'}`}`}>
+                  {!res ? <span className="text-[10px] text-slate-700">{i+1}</span> : res.winner === 'P1' ? <CheckCircle2 size={16} /> : res.winner === 'P2' ? <XCircle size={16} /> : <Equal size={16} />}
                 </div>
               );
             })}
+            {g.settings.seriesFormat.type === 'TOTAL_CARDS' && (
+              <div className="text-[10px] font-black tabular-nums text-slate-400">Σ <span className="text-blue-400">{seriesCards[0]}</span>-<span className="text-red-400">{seriesCards[1]}</span></div>
+            )}
           </div>
           <div className="flex gap-4 lg:gap-6 text-2xl lg:text-5xl font-black italic tracking-tighter leading-none">
-            <div className="text-blue-500">{g.scores[0]}</div>
+            <div className="text-blue-500">{g.shownScores[0]}</div>
             <div className="text-slate-700">-</div>
-            <div className="text-red-500">{g.scores[1]}</div>
+            <div className="text-red-500">{g.shownScores[1]}</div>
           </div>
         </div>
       </header>
@@ -782,52 +1521,102 @@ export default function App() {
           <>
             {/* P2 Hand (Top/Right) */}
             <div className={`${isLandscape ? 'w-48 h-full order-3' : 'w-full h-24 shrink-0 order-1'}`}>
-              <HandComp hand={g.p2Hand} score={g.scores[1]} isTurn={g.turn === 'P2'} color="red" selectedIdx={g.turn === 'P2' && g.settings.pvpMode ? g.selectedCardIdx : null} onSelect={g.setSelectedCardIdx} isLandscape={isLandscape} />
+              <HandComp hand={g.p2Hand} score={g.shownScores[1]} isTurn={g.turn === 'P2'} color="red" selectedIdx={g.turn === 'P2' && g.controls('P2') ? g.selectedCardIdx : null} onSelect={idx => g.controls('P2') && g.setSelectedCardIdx(idx)} isLandscape={isLandscape} hidden={g.handHidden('P2')} cursorIdx={g.turn === 'P2' ? handCursor : null} vsCpu={!g.settings.pvpMode} size={handSize(g.settings.boardShape)} />
             </div>
             
             {/* Board Area (Center) */}
             <div className={`flex-1 flex flex-col items-center justify-center min-h-0 order-2 relative ${isLandscape ? 'h-full' : 'w-full'}`}>
-              <div className={`px-6 lg:px-12 py-1 lg:py-2 rounded-full mb-2 lg:mb-6 font-black uppercase text-xs lg:text-lg shadow-2xl border-2 z-50 transition-colors ${g.turn === 'P1' ? 'bg-blue-600/20 border-blue-500 text-blue-400' : 'bg-red-600/20 border-red-500 text-red-400'}`}>
-                {g.turn === 'P1' ? "Player 1 Turn" : (g.settings.pvpMode ? "Player 2 Turn" : "CPU Thinking...")}
+              <div className="flex items-center gap-2 lg:gap-4 mb-2 lg:mb-6 z-50">
+                {!g.collectionActive && <button onClick={g.undo} disabled={!g.undoAvailable} title={t('battle.undo')} className="p-1.5 lg:p-2 rounded-full border-2 border-slate-800 bg-slate-900 text-slate-400 hover:text-white transition-all disabled:opacity-20"><Undo2 size={16} /></button>}
+                <div className={`px-6 lg:px-12 py-1 lg:py-2 rounded-full font-black uppercase text-xs lg:text-lg shadow-2xl border-2 transition-colors ${g.turn === 'P1' ? 'bg-blue-600/20 border-blue-500 text-blue-400' : 'bg-red-600/20 border-red-500 text-red-400'}`}>
+                  {g.turn === 'P1' || g.settings.pvpMode ? t('battle.turn', { player: playerName(g.turn, false, tr) }) : t('battle.cpuThinking')}
+                </div>
+                {!g.collectionActive && <button onClick={g.redo} disabled={!g.redoAvailable} title={t('battle.redo')} className="p-1.5 lg:p-2 rounded-full border-2 border-slate-800 bg-slate-900 text-slate-400 hover:text-white transition-all disabled:opacity-20"><Redo2 size={16} /></button>}
+                <button onClick={() => setHintMode(!hintMode)} aria-pressed={hintMode} title={t('battle.hints')} className={`p-1.5 lg:p-2 rounded-full border-2 transition-all ${hintMode ? 'border-emerald-400 bg-emerald-500/20 text-emerald-300' : 'border-slate-800 bg-slate-900 text-slate-400 hover:text-white'}`}><Lightbulb size={16} /></button>
               </div>
               
               {/* Board Container: 縦横どちらでも画面内に収まるように制限 */}
-              <div className={`aspect-square flex items-center justify-center ${isLandscape ? 'h-full max-h-[80vh]' : 'w-full max-w-[80vw]'}`}>
+              <div className={`flex items-center justify-center ${isLandscape ? 'h-full max-h-[80vh]' : 'w-full max-w-[80vw]'}`} style={{ aspectRatio: `${g.settings.boardShape.cols} / ${g.settings.boardShape.rows}` }}>
                 <BoardComp 
-                  board={g.board} 
-                  onPlace={(idx) => g.selectedCardIdx !== null && g.placeCard(idx, g.turn === 'P1' ? g.p1Hand : g.p2Hand, g.selectedCardIdx, g.turn)} 
-                  canPlace={g.selectedCardIdx !== null && (g.settings.pvpMode || g.turn === 'P1')} 
-                  selectedCardAttr={g.selectedCardIdx !== null ? (g.turn === 'P1' ? g.p1Hand[g.selectedCardIdx].attr : g.p2Hand[g.selectedCardIdx].attr) : null} 
+                  board={g.shownBoard} 
+                  onPlace={g.placeSelected} 
+                  canPlace={g.selectedCardIdx !== null && g.controls(g.turn) && !g.animating} 
+                  selectedCard={g.selectedCardIdx !== null ? (g.turn === 'P1' ? g.p1Hand : g.p2Hand)[g.selectedCardIdx] : null}
+                  magnitude={g.settings.elementalConfig.magnitude}
                   effect={g.activeEffect}
+                  flipDuration={FLIP_DURATIONS[g.animationSpeed]}
+                  cursorIdx={boardCursor}
+                  vsCpu={!g.settings.pvpMode}
+                  hints={hints}
+                  shape={g.settings.boardShape}
                 />
               </div>
             </div>
 
             {/* P1 Hand (Bottom/Left) */}
             <div className={`${isLandscape ? 'w-48 h-full order-1' : 'w-full h-24 shrink-0 order-3'}`}>
-              <HandComp hand={g.p1Hand} score={g.scores[0]} isTurn={g.turn === 'P1'} color="blue" selectedIdx={g.turn === 'P1' ? g.selectedCardIdx : null} onSelect={g.setSelectedCardIdx} isLandscape={isLandscape} />
+              <HandComp hand={g.p1Hand} score={g.shownScores[0]} isTurn={g.turn === 'P1'} color="blue" selectedIdx={g.turn === 'P1' && g.controls('P1') ? g.selectedCardIdx : null} onSelect={idx => g.controls('P1') && g.setSelectedCardIdx(idx)} isLandscape={isLandscape} hidden={g.handHidden('P1')} cursorIdx={g.turn === 'P1' ? handCursor : null} vsCpu={!g.settings.pvpMode} size={handSize(g.settings.boardShape)} />
             </div>
           </>
         )}
       </main>
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
 
       {['ROUND_END', 'GAME_OVER'].includes(g.gameState) && (
         <div className="fixed inset-0 bg-black/95 backdrop-blur-2xl flex items-center justify-center z-50 p-6 lg:p-12">
-          <div className="bg-slate-900 border-4 border-slate-800 p-8 lg:p-16 rounded-[2rem] lg:rounded-[4rem] text-center max-w-2xl w-full shadow-2xl animate-in zoom-in-95 duration-300">
+          <div ref={overlayRef} role="dialog" aria-modal="true" aria-labelledby="round-result" className="bg-slate-900 border-4 border-slate-800 p-8 lg:p-16 rounded-[2rem] lg:rounded-[4rem] text-center max-w-2xl w-full shadow-2xl animate-in zoom-in-95 duration-300">
             <Trophy className="w-12 h-12 lg:w-20 lg:h-20 text-yellow-500 mx-auto mb-4 lg:mb-6 drop-shadow-[0_0_20px_rgba(234,179,8,0.4)]" />
-            <h2 className="text-3xl lg:text-6xl font-black italic uppercase mb-4 lg:mb-8 tracking-tighter text-white leading-none">
-              {g.matchResults[g.matchResults.length-1]?.winner === 'P1' ? 'PLAYER 1' : g.matchResults[g.matchResults.length-1]?.winner === 'P2' ? 'PLAYER 2' : 'DRAW'}
-              <div className="text-sm lg:text-2xl mt-2 text-slate-500 tracking-widest uppercase">{g.gameState === 'GAME_OVER' ? 'SERIES CHAMPION' : 'MATCH VICTORY'}</div>
+            <h2 id="round-result" className="text-3xl lg:text-6xl font-black italic uppercase mb-4 lg:mb-8 tracking-tighter text-white leading-none">
+              {g.puzzleData ? t(g.puzzleSolved ? 'puzzle.success' : 'puzzle.failed') : g.suddenDeathHands ? t('battle.draw') : shownWinner === 'P1' ? t('common.player1') : shownWinner === 'P2' ? t('common.player2') : t('battle.draw')}
+              <div className="text-sm lg:text-2xl mt-2 text-slate-500 tracking-widest uppercase">{g.puzzleData ? describeGoal(g.puzzleData.goal, tr) : g.suddenDeathHands ? t('battle.suddenDeath') : g.gameState === 'GAME_OVER' ? t('battle.seriesChampion') : t('battle.matchVictory')}</div>
             </h2>
-            <button 
-              onClick={() => {
-                if (g.gameState === 'GAME_OVER') { g.setRound(1); g.setMatchResults([]); g.setGameState('TITLE'); }
-                else { g.setRound(r => r + 1); g.setSelectingPlayer('P1'); g.setGameState('DECK_SELECT'); }
-              }} 
-              className="w-full py-4 lg:py-6 bg-white text-slate-950 rounded-full font-black text-lg lg:text-2xl uppercase italic hover:bg-slate-100 transition-all active:scale-95 shadow-xl leading-none"
-            >
-              {g.gameState === 'GAME_OVER' ? 'Return to Title' : 'Start Next Match'}
-            </button>
+            {!g.puzzleData && g.matchResults.length > 0 && <SeriesScoreboard results={g.matchResults} format={g.settings.seriesFormat} vsCpu={!g.settings.pvpMode} />}
+            {g.gameState === 'GAME_OVER' && g.campaignReward && g.campaignReward.length > 0 && (
+              <div className="mb-6 lg:mb-10">
+                <div className="flex items-center justify-center gap-2 text-[10px] lg:text-xs font-black uppercase tracking-widest text-amber-300 mb-4"><Gift size={14} /> {t('campaign.rewardEarned')}</div>
+                <div className="flex justify-center gap-2 sm:gap-3">
+                  {g.campaignReward.map(card => <div key={card.id} className="w-14 sm:w-20"><CardComponent card={{ ...card, owner: 'P1' }} small isMobile={false} /></div>)}
+                </div>
+              </div>
+            )}
+            {g.gameState === 'GAME_OVER' && g.collectionActive && g.settings.tradeRule !== 'NONE' ? (
+              <TradePanel
+                rule={g.settings.tradeRule}
+                winner={getSeriesWinner(g.matchResults, g.settings.seriesFormat)}
+                decks={g.roundDecks}
+                board={g.board}
+                finalScores={g.matchResults[g.matchResults.length - 1]?.scores || [0, 0]}
+                onConfirm={g.finishSeries}
+              />
+            ) : (
+              <button 
+                disabled={!g.suddenDeathReady}
+                onClick={() => {
+                  if (g.suddenDeathHands) g.replaySuddenDeath();
+                  else if (g.gameState === 'GAME_OVER' && g.online) g.requestOnlineStart();
+                  else if (g.gameState === 'GAME_OVER') g.finishSeries([]);
+                  else g.nextRound();
+                }} 
+                className="w-full py-4 lg:py-6 bg-white text-slate-950 rounded-full font-black text-lg lg:text-2xl uppercase italic hover:bg-slate-100 transition-all active:scale-95 shadow-xl leading-none disabled:opacity-30 outline-none focus-visible:ring-4 focus-visible:ring-cyan-300"
+              >
+                {g.suddenDeathHands ? t('battle.replayRound') : g.gameState === 'GAME_OVER' ? (g.online ? t('battle.rematch') : g.campaignOpponent ? t('campaign.back') : g.puzzleData ? t('puzzle.back') : t('battle.returnToTitle')) : t('battle.nextMatch')}
+              </button>
+            )}
+            {g.gameState === 'GAME_OVER' && g.puzzleData && (
+              <button onClick={() => g.startPuzzle(g.puzzleData!)} className="mt-4 flex items-center justify-center gap-2 mx-auto text-slate-400 hover:text-white focus-visible:text-white font-black italic uppercase text-sm transition-colors outline-none"><RotateCcw size={16} /> {t('puzzle.retry')}</button>
+            )}
+            {g.gameState === 'GAME_OVER' && g.online && (
+              <button onClick={g.leaveOnline} className="mt-4 flex items-center justify-center gap-2 mx-auto text-slate-400 hover:text-white focus-visible:text-white font-black italic uppercase text-sm transition-colors outline-none"><LogOut size={16} /> {t('battle.leaveRoom')}</button>
+            )}
+            {g.gameState === 'GAME_OVER' && g.seriesLog.length > 0 && (
+              <button onClick={() => g.setGameState('REPLAY')} className="mt-4 flex items-center justify-center gap-2 mx-auto text-slate-400 hover:text-white focus-visible:text-white font-black italic uppercase text-sm transition-colors outline-none"><Film size={16} /> {t('battle.watchReplay')}</button>
+            )}
+            {lastRoundLog && (
+              <>
+                <button onClick={() => setAnalysisOpenFor(analysisOpenFor === g.seriesLog.length ? null : g.seriesLog.length)} aria-expanded={analysisOpenFor === g.seriesLog.length} className="mt-4 flex items-center justify-center gap-2 mx-auto text-slate-400 hover:text-white focus-visible:text-white font-black italic uppercase text-sm transition-colors outline-none"><SearchCheck size={16} /> {t('analysis.title')}</button>
+                {analysisOpenFor === g.seriesLog.length && <RoundAnalysis log={lastRoundLog} players={analyzedPlayers} />}
+              </>
+            )}
           </div>
         </div>
       )}
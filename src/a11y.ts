@@ -0,0 +1,33 @@
+// --- Accessibility ---
+// 画面では数字・色・アイコンで見せている情報を、スクリーンリーダー向けの文章にする
+import type { BoardShape, BoardTile, Card, PlayerType } from './types';
+import { cellName } from './history';
+import { CLASSIC_BOARD } from './constants';
+import { EN, type MessageKey, type Translator } from './i18n';
+
+export const playerName = (owner: PlayerType, vsCpu = false, tr: Translator = EN): string =>
+  tr.t(owner === 'P1' ? 'common.player1' : vsCpu ? 'common.cpu' : 'common.player2');
+
+const statText = (value: number) => (value === 10 ? 'A' : String(value));
+
+/** 例: "Player 1 Bite Bug, level 1: top 6, left 1 (-1), right 1, bottom 3, Fire" */
+export function describeCard(card: Card, tr: Translator = EN, ownerName?: string): string {
+  const stats = card.modifiedStats || card.stats;
+  // 属性タイルで変化した値は元の値との差を添える
+  const sides = stats.map((v, i) => {
+    const diff = v - card.stats[i];
+    return tr.t('a11y.stat', { side: tr.t(`a11y.side.${i}` as MessageKey), value: `${statText(v)}${diff ? ` (${diff > 0 ? '+' : ''}${diff})` : ''}` });
+  });
+  const attr = card.attr ? `, ${tr.elementName(card.attr)}` : '';
+  const text = tr.t('a11y.card', { card: tr.cardName(card), level: card.level, stats: sides.join(', ') }) + attr;
+  return ownerName ? `${ownerName} ${text}` : text;
+}
+
+/** 例: "center, Fire tile, empty" / "top-left, Player 2 Bite Bug, ..." */
+export function describeTile(tile: BoardTile, idx: number, vsCpu = false, tr: Translator = EN, shape: BoardShape = CLASSIC_BOARD): string {
+  if (tile.blocked) return `${cellName(idx, shape, tr)}, ${tr.t('a11y.blocked')}`;
+  const element = tile.element ? `, ${tr.t('a11y.tile', { element: tr.elementName(tile.element) })}`
+    : tile.effect ? `, ${tr.t(`tileEffect.${tile.effect}`)}` : '';
+  const content = tile.card ? describeCard(tile.card, tr, tile.card.owner ? playerName(tile.card.owner, vsCpu, tr) : undefined) : tr.t('a11y.empty');
+  return `${cellName(idx, shape, tr)}${element}, ${content}`;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { searchBestMove } from './ai';
+import { applyMove, createBoard, getLegalMoves, type GameState } from './engine';
+import { CARD_DATA, DEFAULT_SETTINGS } from './constants';
+import { createRng } from './rng';
+
+// 2 手目 (空き 8 マス) の局面。EXPERT なら終局まで読む
+function openingState(seed: string): GameState {
+  const rng = createRng(seed);
+  const deck = rng.shuffle(CARD_DATA).slice(0, 10);
+  const settings = { ...DEFAULT_SETTINGS, elementalEnabled: true, sameEnabled: true, plusEnabled: true };
+  const state: GameState = {
+    board: createBoard(rng, true),
+    hands: { P1: deck.slice(0, 5).map(c => ({ ...c, owner: 'P1' as const })), P2: deck.slice(5).map(c => ({ ...c, owner: 'P2' as const })) },
+    turn: 'P1',
+    rules: settings,
+  };
+  return applyMove(state, getLegalMoves(state)[0]).state;
+}
+
+describe('searchBestMove', () => {
+  it('returns the same move for the same position when the node budget runs out', () => {
+    const state = openingState('budget');
+    const config = { depth: 3, exactFrom: 8, maxNodes: 2000 };
+    const first = searchBestMove(state, config);
+    for (let i = 0; i < 3; i++) expect(searchBestMove(state, config)).toEqual(first);
+  });
+
+  it('returns a legal move even if the budget is exhausted before the first depth completes', () => {
+    const state = openingState('tiny');
+    const move = searchBestMove(state, { depth: 3, maxNodes: 1 });
+    expect(getLegalMoves(state)).toContainEqual(move);
+  });
+});
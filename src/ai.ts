@@ -0,0 +1,281 @@
+// --- CPU AI Logic ---
+// LOW: ランダム / MID: 1 手読みの評価関数 / HIGH: 深さ制限付き αβ 探索
+// EXPERT: 置換表付きの αβ 探索。空きマスが 8 以下になってから終局まで読む (上限の局面数までに読み切れなければ途中の深さの結果を使う)
+import type { BoardTile, Card, GameSettings, PlayerType } from './types';
+import { applyMove, calculateStats, elementalOf, getLegalMoves, getNeighbors, getScores, isBoardFull, opponentOf, shapeOf, tileModifier, type GameState, type Move } from './engine';
+import { CARD_DATA } from './constants';
+import { createRng, type Rng } from './rng';
+import { findPersonality } from './personalities';
+import type { MoveRecord, RoundLog } from './history';
+
+type Difficulty = GameSettings['cpuDifficulty'];
+
+export interface SearchConfig {
+  depth: number; // 読む手数 (プライ)
+  exactFrom?: number; // 空きマスがこの数以下なら depth まで読んだ後、終局まで完全読みする
+  maxNodes: number; // 読む局面数の上限。超えた場合は完了済みの最深の結果を使う (時間ではなく局面数なので、同じ局面・シードなら端末によらず同じ手になる)
+}
+
+const SEARCH_CONFIG: Partial<Record<Difficulty, SearchConfig>> = {
+  HIGH: { depth: 3, maxNodes: 150000 },
+  // 初手 (空き 9 マス) の完全読みは数十秒かかるため、2 手目以降に限る。
+  // 広い盤面では空き 8 マスからでも読み切れないことがあり、そのときは上限までに終えた深さの手を使う (difficultyInfo.EXPERT の説明と合わせる)
+  EXPERT: { depth: 3, exactFrom: 8, maxNodes: 1000000 },
+};
+
+// Reverse ルールでは小さい値ほど強い
+const strengthOf = (value: number, settings: GameSettings) => (settings.reverseEnabled ? 11 - value : value);
+
+/** 1 手の評価。重みは CPU のパーソナリティ (settings.cpuPersonality) のもの。乱数 (noise) は呼び出し側で足す */
+export const evaluateMove = (boardIdx: number, card: Card, currentBoard: BoardTile[], owner: PlayerType, settings: GameSettings): number => {
+  const w = findPersonality(settings.cpuPersonality).weights;
+  // ルールエンジンで実際に置いてみて、SAME/PLUS/COMBO を含めた結果を評価する
+  const state: GameState = { board: currentBoard, hands: { P1: [], P2: [], [owner]: [card] }, turn: owner, rules: settings };
+  const { events } = applyMove(state, { boardIdx, handIdx: 0 });
+  const stats = calculateStats(card, currentBoard[boardIdx], elementalOf(settings).magnitude);
+  let score = 0;
+
+  events.forEach(e => {
+    if (e.type === 'RULE_TRIGGERED') score += e.rule === 'SAME' ? w.same : w.plus;
+    if (e.type === 'FLIPPED') score += w.flip + (e.cause === 'COMBO' ? w.combo : 0);
+  });
+  const average = stats.reduce((a, b) => a + b, 0) / 4;
+  score += strengthOf(average, settings) * w.stats;
+  // 角 (隣接マスが 2 つ以下) は取られにくい
+  const neighbors = getNeighbors(boardIdx, shapeOf(settings));
+  if (neighbors.length <= 2) score += w.corner;
+  // 空きマスに向いた弱い辺は次の手で取られやすい
+  neighbors.forEach(n => { if (!currentBoard[n.pos].card) score -= (10 - strengthOf(stats[n.side], settings)) * w.exposure; });
+
+  return score;
+};
+
+export const getBestMove = (state: GameState, settings: GameSettings, rng: Rng = createRng()): Move => {
+  const moves = getLegalMoves(state);
+  if (settings.cpuDifficulty === 'LOW' || moves.length === 0) {
+    return rng.pick(moves);
+  }
+  // パーソナリティの評価 (乱数込み)。HIGH・EXPERT では読みの結果が同じ手の選び方になる
+  const { noise } = findPersonality(settings.cpuPersonality).weights;
+  const hand = state.hands[state.turn];
+  const preference = (m: Move) => evaluateMove(m.boardIdx, hand[m.handIdx], state.board, state.turn, settings) + (noise > 0 ? rng.next() * noise : 0);
+
+  const search = SEARCH_CONFIG[settings.cpuDifficulty];
+  if (search) return searchBestMove(settings.openEnabled ? state : concealOpponentHand(state, rng), search, preference);
+
+  // 同点の手はシャッフルした順に残す (sort は安定)
+  const scored = rng.shuffle(moves).map(m => ({ ...m, score: preference(m) }));
+  scored.sort((a, b) => b.score - a.score);
+  return { boardIdx: scored[0].boardIdx, handIdx: scored[0].handIdx };
+};
+
+// --- Deck Choice ---
+// CPU は難易度に応じた数のデッキを作り、パーソナリティの好みと盤面の属性タイルに合うものを使う
+
+const DECK_CANDIDATES: Record<Difficulty, number> = { LOW: 1, MID: 3, HIGH: 6, EXPERT: 10 };
+
+/** 候補のデッキの評価。属性タイルとの相性は、盤面の各タイルに置いたときの補正の合計 */
+export function deckScore(deck: Card[], board: BoardTile[], settings: GameSettings): number {
+  const w = findPersonality(settings.cpuPersonality).deck;
+  const magnitude = elementalOf(settings).magnitude;
+  return deck.reduce((sum, card) => {
+    const sides = card.stats.map(s => strengthOf(s, settings));
+    const affinity = board.reduce((a, tile) => a + tileModifier(card, tile, magnitude), 0) * (settings.reverseEnabled ? -1 : 1);
+    return sum + w.strength * (sides.reduce((a, b) => a + b, 0) / 4) + w.peak * Math.max(...sides) + w.weakest * Math.min(...sides) + w.elements * affinity;
+  }, 0);
+}
+
+/** generate で作った候補から最も評価の高いデッキを選ぶ。LOW は最初の 1 つをそのまま使う */
+export function chooseCpuDeck(generate: () => Card[], board: BoardTile[], settings: GameSettings): Card[] {
+  const candidates = Array.from({ length: DECK_CANDIDATES[settings.cpuDifficulty] }, generate);
+  const scored = candidates.map(deck => ({ deck, score: deckScore(deck, board, settings) }));
+  return scored.reduce((best, c) => (c.score > best.score ? c : best)).deck;
+}
+
+// --- Search ---
+
+// Open ルールなしでは相手の手札は見えないので、まだ見えていないカードから仮定して読む
+function concealOpponentHand(state: GameState, rng: Rng): GameState {
+  const opponent = opponentOf(state.turn);
+  const seen = new Set([...state.hands[state.turn], ...state.board.flatMap(t => t.card ? [t.card] : [])].map(c => c.id));
+  const pool = rng.shuffle(CARD_DATA.filter(c => !seen.has(c.id)));
+  // 枚数の少ないカードセットでは見えていないカードが手札より少ないことがある。足りなければ使い回し、1 枚もなければ本当の手札で読む
+  if (pool.length === 0) return state;
+  const guessed = state.hands[opponent].map((_, i) => ({ ...pool[i % pool.length], owner: opponent }));
+  return { ...state, hands: { ...state.hands, [opponent]: guessed } };
+}
+
+interface TTEntry {
+  depth: number;
+  value: number;
+  bound: 'EXACT' | 'LOWER' | 'UPPER';
+}
+
+class SearchBudgetExceeded extends Error {}
+
+/** 手番側から見た得点差 (手札 + 盤面の所有枚数) */
+const scoreFor = (state: GameState, player: PlayerType): number => {
+  const [s1, s2] = getScores(state.board, state.hands);
+  return player === 'P1' ? s1 - s2 : s2 - s1;
+};
+
+// 盤面は同じラウンド内なら属性タイルが固定なので、カードと所有者・手札・手番だけで局面を特定できる
+const stateKey = (state: GameState): string => {
+  let key = state.turn;
+  state.board.forEach(t => { key += t.card ? `${t.card.id}${t.card.owner === 'P1' ? 'a' : 'b'}` : '.'; });
+  const handKey = (hand: Card[]) => hand.map(c => c.id).sort((a, b) => a - b).join(',');
+  return `${key}|${handKey(state.hands.P1)}|${handKey(state.hands.P2)}`;
+};
+
+const expand = (state: GameState) => getLegalMoves(state)
+  .map(move => {
+    const next = applyMove(state, move).state;
+    return { move, next, order: -scoreFor(next, next.turn) };
+  })
+  .sort((a, b) => b.order - a.order);
+
+// 置換表と局面数の上限を共有する探索器。ルートの手を何度読んでも同じ表を使い回せる
+function createSearcher(config: SearchConfig) {
+  const table = new Map<string, TTEntry>();
+  let nodes = 0;
+
+  const negamax = (node: GameState, depth: number, alpha: number, beta: number): number => {
+    if (++nodes > config.maxNodes) throw new SearchBudgetExceeded();
+    if (depth === 0 || isBoardFull(node.board)) return scoreFor(node, node.turn);
+
+    const key = stateKey(node);
+    const entry = table.get(key);
+    if (entry && entry.depth >= depth) {
+      if (entry.bound === 'EXACT') return entry.value;
+      if (entry.bound === 'LOWER') alpha = Math.max(alpha, entry.value);
+      else beta = Math.min(beta, entry.value);
+      if (alpha >= beta) return entry.value;
+    }
+
+    const alphaOrig = alpha;
+    let best = -Infinity;
+    for (const { next } of expand(node)) {
+      best = Math.max(best, -negamax(next, depth - 1, -beta, -alpha));
+      alpha = Math.max(alpha, best);
+      if (alpha >= beta) break;
+    }
+    if (best === -Infinity) return scoreFor(node, node.turn);
+
+    const bound = best <= alphaOrig ? 'UPPER' : best >= beta ? 'LOWER' : 'EXACT';
+    table.set(key, { depth, value: best, bound });
+    return best;
+  };
+  return negamax;
+}
+
+// 反復深化で読む深さ
+// 完全読みは途中の深さを挟むより一気に読む方が速いので、浅い探索の直後に終局まで読む
+function searchDepths(state: GameState, config: SearchConfig): number[] {
+  const remaining = state.board.filter(t => !t.card && !t.blocked).length;
+  const depths = Array.from({ length: Math.min(config.depth, remaining) }, (_, i) => i + 1);
+  if (config.exactFrom !== undefined && remaining <= config.exactFrom && remaining > config.depth) depths.push(remaining);
+  return depths;
+}
+
+/** preference を渡すと、読みの結果が同じ手のうち preference の高い手を選ぶ */
+export function searchBestMove(state: GameState, config: SearchConfig, preference?: (move: Move) => number): Move {
+  const negamax = createSearcher(config);
+  const root = expand(state);
+  // 同じ値なら先に読んだ手が残るので、好みの順に並べておく
+  if (preference) {
+    const order = new Map(root.map(r => [r, preference(r.move)]));
+    root.sort((a, b) => order.get(b)! - order.get(a)!);
+  }
+
+  // 上限に達したら直前の深さで確定した手を返す
+  let bestMove = root[0].move;
+  for (const depth of searchDepths(state, config)) {
+    try {
+      let alpha = -Infinity;
+      let candidate = root[0].move;
+      for (const { move, next } of root) {
+        const value = -negamax(next, depth - 1, -Infinity, -alpha);
+        if (value > alpha) { alpha = value; candidate = move; }
+      }
+      bestMove = candidate;
+    } catch (e) {
+      if (e instanceof SearchBudgetExceeded) break;
+      throw e;
+    }
+  }
+  return bestMove;
+}
+
+export interface ScoredMove {
+  move: Move;
+  value: number; // 手番側から見た得点差。1 枚の差で 2 変わる
+}
+
+/** searchBestMove と違い、ルートの手をすべて窓を狭めずに読んで正確な評価値を返す */
+export function scoreMoves(state: GameState, config: SearchConfig, moves: Move[] = getLegalMoves(state)): ScoredMove[] {
+  const negamax = createSearcher(config);
+  const root = moves.map(move => ({ move, next: applyMove(state, move).state }));
+
+  // 深さ 1 (置いた直後の得点差) は探索なしで求まる
+  let scored = root.map(({ move, next }) => ({ move, value: -scoreFor(next, next.turn) }));
+  for (const depth of searchDepths(state, config).slice(1)) {
+    try {
+      scored = root.map(({ move, next }) => ({ move, value: -negamax(next, depth - 1, -Infinity, Infinity) }));
+    } catch (e) {
+      if (e instanceof SearchBudgetExceeded) break;
+      throw e;
+    }
+  }
+  return scored;
+}
+
+// --- Analysis ---
+// ヒントと対局後の検討。CPU と同じルールエンジンと探索で評価する
+
+const HINT_SEARCH: SearchConfig = { depth: 2, maxNodes: 30000 };
+const ANALYSIS_SEARCH: SearchConfig = { depth: 3, exactFrom: 6, maxNodes: 150000 };
+
+export interface MoveHint {
+  boardIdx: number;
+  flips: number; // 置いた直後にめくれる枚数 (SAME/PLUS/COMBO・属性の補正込み)
+  best: boolean;
+}
+
+/** 選んだ手札を各空きマスに置いたときの結果。最善手は相手の応手まで読んで決める */
+export function getMoveHints(state: GameState, handIdx: number, settings: GameSettings, rng: Rng = createRng()): MoveHint[] {
+  const moves = getLegalMoves(state).filter(m => m.handIdx === handIdx);
+  if (moves.length === 0) return [];
+  // CPU と同じく、Open ルールなしでは相手の手札を見ずに読む
+  const scored = scoreMoves(settings.openEnabled ? state : concealOpponentHand(state, rng), HINT_SEARCH, moves);
+  const hints = scored.map(({ move, value }) => ({
+    boardIdx: move.boardIdx,
+    flips: applyMove(state, move).events.filter(e => e.type === 'FLIPPED').length,
+    value,
+  }));
+  const best = hints.reduce((a, b) => (b.value > a.value || (b.value === a.value && b.flips > a.flips) ? b : a));
+  return hints.map(({ boardIdx, flips }) => ({ boardIdx, flips, best: boardIdx === best.boardIdx }));
+}
+
+export interface MoveAnalysis {
+  step: number; // ラウンド内の手数 (0 始まり)
+  played: MoveRecord;
+  best: Move & { cardId: number };
+  lost: number; // 最善手と比べて失った枚数
+}
+
+/** 終わったラウンドの players の手のうち、より良い手があったものを挙げる。両者の手札が分かっている前提で読む */
+export function analyzeRound(log: RoundLog, players: PlayerType[], config: SearchConfig = ANALYSIS_SEARCH): MoveAnalysis[] {
+  const mistakes: MoveAnalysis[] = [];
+  let state = log.initial;
+  log.moves.forEach((played, step) => {
+    if (players.includes(played.owner)) {
+      const scored = scoreMoves(state, config);
+      const best = scored.reduce((a, b) => (b.value > a.value ? b : a));
+      const actual = scored.find(s => s.move.boardIdx === played.boardIdx && s.move.handIdx === played.handIdx);
+      const lost = actual ? (best.value - actual.value) / 2 : 0;
+      if (lost > 0) mistakes.push({ step, played, best: { ...best.move, cardId: state.hands[state.turn][best.move.handIdx].id }, lost });
+    }
+    state = applyMove(state, played).state;
+  });
+  return mistakes;
+}
@@ -0,0 +1,58 @@
+// --- CPU Search Worker ---
+// HIGH/EXPERT の探索・ヒント・ラウンド後の検討は時間がかかるので、盤面アニメーションや操作を止めないよう別スレッドで実行する
+import { analyzeRound, getBestMove, getMoveHints, type MoveAnalysis, type MoveHint } from './ai';
+import type { GameState, Move } from './engine';
+import type { RoundLog } from './history';
+import type { GameSettings, PlayerType } from './types';
+import { createRng } from './rng';
+import { activateCardSet } from './cardSets';
+
+export interface CpuRequest {
+  kind: 'cpu';
+  id: number;
+  state: GameState;
+  settings: GameSettings;
+  seed: string; // 同点の手の選び方・伏せ札の推測に使う
+}
+
+export interface AnalysisRequest {
+  kind: 'analysis';
+  id: number;
+  log: RoundLog;
+  players: PlayerType[];
+}
+
+export interface HintRequest {
+  kind: 'hint';
+  id: number;
+  state: GameState;
+  handIdx: number;
+  settings: GameSettings;
+  seed: string; // 伏せ札の推測に使う
+}
+
+export type WorkerRequest = CpuRequest | AnalysisRequest | HintRequest;
+
+export type WorkerResponse =
+  | { id: number; move: Move }
+  | { id: number; analysis: MoveAnalysis[] }
+  | { id: number; hints: MoveHint[] }
+  | { id: number; error: string }; // 計算中の例外。呼び出し側の Promise を reject する
+
+// Worker は別のモジュールとして読み込まれるので、伏せ札の推測に使うカードセットもここで選び直す
+const ready = activateCardSet();
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  ready.then(() => {
+    const response: WorkerResponse = request.kind === 'analysis'
+      ? { id: request.id, analysis: analyzeRound(request.log, request.players) }
+      : request.kind === 'hint'
+        ? { id: request.id, hints: getMoveHints(request.state, request.handIdx, request.settings, createRng(request.seed)) }
+        : { id: request.id, move: getBestMove(request.state, request.settings, createRng(request.seed)) };
+    self.postMessage(response);
+  }).catch((err: unknown) => {
+    const response: WorkerResponse = { id: request.id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(response);
+  });
+};
@@ -0,0 +1,91 @@
+// --- CPU Worker Client ---
+import { analyzeRound, getBestMove, getMoveHints, type MoveAnalysis, type MoveHint } from './ai';
+import type { WorkerRequest, WorkerResponse } from './ai.worker';
+import type { GameState, Move } from './engine';
+import type { RoundLog } from './history';
+import type { GameSettings, PlayerType } from './types';
+import { createRng } from './rng';
+
+// 検討やヒントの計算中でも CPU の手番を待たせないよう、用途ごとに Worker を分ける
+const workers: Partial<Record<WorkerRequest['kind'], Worker>> = {};
+// 読み込みやメッセージの受け渡しに失敗した Worker。以後はメインスレッドで計算する
+const failed = new Set<WorkerRequest['kind']>();
+let nextId = 0;
+
+interface PendingRequest {
+  kind: WorkerRequest['kind'];
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  fallback: () => WorkerResponse; // Worker が使えなくなったときにメインスレッドで計算する
+}
+
+const pending = new Map<number, PendingRequest>();
+
+// Worker が落ちたら待っている要求をメインスレッドで計算し直し、その用途の Worker は使わなくする
+function abandonWorker(kind: WorkerRequest['kind']) {
+  workers[kind]?.terminate();
+  delete workers[kind];
+  failed.add(kind);
+  pending.forEach((request, id) => {
+    if (request.kind !== kind) return;
+    pending.delete(id);
+    try {
+      request.resolve(request.fallback());
+    } catch (e) {
+      request.reject(e instanceof Error ? e : new Error(String(e)));
+    }
+  });
+}
+
+function getWorker(kind: WorkerRequest['kind']): Worker | null {
+  if (typeof Worker === 'undefined' || failed.has(kind)) return null;
+  if (!workers[kind]) {
+    const worker = new Worker(new URL('./ai.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const request = pending.get(e.data.id);
+      pending.delete(e.data.id);
+      if ('error' in e.data) request?.reject(new Error(e.data.error));
+      else request?.resolve(e.data);
+    };
+    worker.onerror = () => abandonWorker(kind);
+    worker.onmessageerror = () => abandonWorker(kind);
+    workers[kind] = worker;
+  }
+  return workers[kind]!;
+}
+
+function post(w: Worker, request: WorkerRequest, fallback: () => WorkerResponse): Promise<WorkerResponse> {
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { kind: request.kind, resolve, reject, fallback });
+    w.postMessage(request);
+  });
+}
+
+/** CPU の手を Worker で計算する。Worker が使えない環境や Worker が落ちたときはメインスレッドで計算する。 */
+export function requestCpuMove(state: GameState, settings: GameSettings, seed: string): Promise<Move> {
+  const w = getWorker('cpu');
+  if (!w) return Promise.resolve(getBestMove(state, settings, createRng(seed)));
+  const id = ++nextId;
+  return post(w, { kind: 'cpu', id, state, settings, seed }, () => ({ id, move: getBestMove(state, settings, createRng(seed)) }))
+    .then(r => (r as Extract<WorkerResponse, { move: Move }>).move)
+    // 探索が例外で止まっても手番を進められるよう、ランダムな手 (LOW) で指す
+    .catch(() => getBestMove(state, { ...settings, cpuDifficulty: 'LOW' }, createRng(seed)));
+}
+
+/** 終わったラウンドの検討を Worker で行う。検討中の例外では reject する */
+export function requestAnalysis(log: RoundLog, players: PlayerType[]): Promise<MoveAnalysis[]> {
+  const w = getWorker('analysis');
+  if (!w) return Promise.resolve(analyzeRound(log, players));
+  const id = ++nextId;
+  return post(w, { kind: 'analysis', id, log, players }, () => ({ id, analysis: analyzeRound(log, players) }))
+    .then(r => (r as Extract<WorkerResponse, { analysis: MoveAnalysis[] }>).analysis);
+}
+
+/** 選んだ手札のヒントを Worker で計算する */
+export function requestMoveHints(state: GameState, handIdx: number, settings: GameSettings, seed: string): Promise<MoveHint[]> {
+  const w = getWorker('hint');
+  if (!w) return Promise.resolve(getMoveHints(state, handIdx, settings, createRng(seed)));
+  const id = ++nextId;
+  return post(w, { kind: 'hint', id, state, handIdx, settings, seed }, () => ({ id, hints: getMoveHints(state, handIdx, settings, createRng(seed)) }))
+    .then(r => (r as Extract<WorkerResponse, { hints: MoveHint[] }>).hints);
+}
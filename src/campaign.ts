@@ -0,0 +1,87 @@
+// --- Campaign ---
+// 名前付きの CPU を順に倒していく一人用モード。相手は data/campaign.json に定義し、コードを変えずに追加できる
+import type { Card, GameSettings, RuleToggleKey } from './types';
+import type { LocalizedText } from './i18n';
+import { BEST_OF_THREE, CARD_DATA, CLASSIC_BOARD, CLASSIC_ELEMENTAL, withRules } from './constants';
+import { DECK_SIZE, EMPTY_FILTER, filterCards, generateDeck, type CardFilter } from './decks';
+import type { Rng } from './rng';
+import { DEFAULT_PERSONALITY } from './personalities';
+import CAMPAIGN_DATA from './data/campaign.json';
+
+// 固定デッキ (cards) か、カードの絞り込み条件を満たすカードから毎ラウンド引くテーマデッキ
+export type CampaignDeck = { cards: number[] } | Partial<Omit<CardFilter, 'name'>>;
+
+export interface CampaignOpponent {
+  id: string;
+  name: LocalizedText;
+  intro: LocalizedText;
+  difficulty: GameSettings['cpuDifficulty'];
+  personality?: string; // data/personalities.json の ID。省略すると balanced
+  rules: Partial<Record<RuleToggleKey, boolean>>; // 書かれていないルールは無効
+  deck: CampaignDeck;
+  reward?: number[]; // 初めて倒したときにコレクションへ加わるカード ID
+}
+
+export interface CampaignProgress {
+  version: 1;
+  cleared: string[]; // 倒した相手の ID
+}
+
+/** 進行中のキャンペーン戦。終わったら previousSettings に戻す */
+export interface CampaignRun {
+  opponentId: string;
+  previousSettings: GameSettings;
+}
+
+export const CAMPAIGN_OPPONENTS = CAMPAIGN_DATA as CampaignOpponent[];
+
+const STORAGE_KEY = 'triple-triad-campaign';
+
+export const findOpponent = (id: string): CampaignOpponent | null => CAMPAIGN_OPPONENTS.find(o => o.id === id) ?? null;
+
+// 順番に挑む。1 人目と、直前の相手を倒した相手だけ選べる
+export const isUnlocked = (progress: CampaignProgress, index: number): boolean =>
+  index === 0 || progress.cleared.includes(CAMPAIGN_OPPONENTS[index - 1]?.id);
+
+/** 相手のルールと強さ。デッキ制限とコレクションモードはプレイヤーの設定のまま。相手は 5 枚のデッキで 3 本勝負を前提にしているので、盤面・属性タイル・シリーズは標準に揃える */
+export function campaignSettings(opponent: CampaignOpponent, base: GameSettings): GameSettings {
+  return { ...withRules(base, opponent.rules), cpuDifficulty: opponent.difficulty, cpuPersonality: opponent.personality ?? DEFAULT_PERSONALITY, pvpMode: false, tradeRule: 'NONE', boardShape: CLASSIC_BOARD, elementalConfig: CLASSIC_ELEMENTAL, seriesFormat: BEST_OF_THREE };
+}
+
+export const fixedDeckCards = (deck: CampaignDeck): Card[] | null => ('cards' in deck && deck.cards
+  ? deck.cards.map(id => CARD_DATA.find(c => c.id === id)).filter((c): c is Card => !!c)
+  : null);
+
+export function campaignDeck(opponent: CampaignOpponent, rng: Rng, excludeIds?: Set<number>): Card[] {
+  const fixed = fixedDeckCards(opponent.deck);
+  if (fixed) return fixed.map(c => ({ ...c }));
+  const themed = filterCards(CARD_DATA, { ...EMPTY_FILTER, ...opponent.deck });
+  // 条件に合うカードが 5 枚に満たない定義は全カードから引く
+  return generateDeck(rng, excludeIds, themed.length >= DECK_SIZE ? themed : CARD_DATA);
+}
+
+export const recordClear = (progress: CampaignProgress, opponentId: string): CampaignProgress =>
+  progress.cleared.includes(opponentId) ? progress : { ...progress, cleared: [...progress.cleared, opponentId] };
+
+// --- Storage ---
+
+export function loadCampaign(): CampaignProgress {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as CampaignProgress;
+      if (parsed.version === 1 && Array.isArray(parsed.cleared)) return parsed;
+    }
+  } catch {
+    // 壊れたデータは最初から
+  }
+  return { version: 1, cleared: [] };
+}
+
+export function saveCampaign(progress: CampaignProgress) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // 保存できなくても今のセッションでは進められる
+  }
+}
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BUILT_IN_CARDS } from './constants';
+import { MIN_SET_SIZE, readCardSetFiles, validateCardSet, type CardSetSource } from './cardSets';
+import { EN } from './i18n';
+
+// --- ZIP Fixtures ---
+
+interface ZipFile {
+  name: string;
+  data: string | Uint8Array;
+}
+
+/** 無圧縮 (method 0) の ZIP を組み立てる。CRC は読み込み側で見ないので 0 のまま */
+function storedZip(files: ZipFile[]): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, directorySize, true);
+  ev.setUint32(16, offset, true);
+
+  const zip = new Uint8Array(offset + directorySize + end.length);
+  let at = 0;
+  [...locals, ...centrals, end].forEach(part => { zip.set(part, at); at += part.length; });
+  return zip.buffer;
+}
+
+const card = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id, name: `Card ${id}`, level: 1, stats: [1, 2, 3, 4], attr: null, img: BUILT_IN_CARDS[0].img, ...overrides,
+});
+const cardList = (count: number) => Array.from({ length: count }, (_, i) => card(i + 1));
+const PIXEL = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+// Node には FileReader が無いので、data URL を作るところだけ置き換える
+class DataUrlReader {
+  result: string | null = null;
+  error: Error | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  readAsDataURL(blob: Blob) {
+    blob.arrayBuffer().then(buffer => {
+      this.result = `data:${blob.type};base64,${Buffer.from(buffer).toString('base64')}`;
+      this.onload?.();
+    });
+  }
+}
+
+beforeEach(() => { vi.stubGlobal('FileReader', DataUrlReader); });
+afterEach(() => { vi.unstubAllGlobals(); });
+
+// --- File Import ---
+
+describe('readCardSetFiles', () => {
+  it('reads the JSON and images out of a stored ZIP', () => {
+    const zip = storedZip([
+      { name: 'bugs/', data: '' },
+      { name: 'bugs/cards.json', data: JSON.stringify({ name: 'Bugs', cards: [card(1, { img: 'images/bite-bug.png' })] }) },
+      { name: 'bugs/images/Bite-Bug.png', data: PIXEL },
+      { name: '__MACOSX/bugs/._cards.json', data: 'not json' },
+    ]);
+    return readCardSetFiles([new File([zip], 'set.zip')]).then(source => {
+      expect(source.fileError).toBeUndefined();
+      expect(source.name).toBe('Bugs');
+      expect(source.entries).toHaveLength(1);
+      // 画像はファイル名 (小文字) で引ける
+      expect(Object.keys(source.images)).toEqual(['bite-bug.png']);
+      expect(source.images['bite-bug.png']).toBe(`data:image/png;base64,${Buffer.from(PIXEL).toString('base64')}`);
+      const { issues } = validateCardSet(source);
+      expect(issues).toEqual([]);
+    });
+  });
+
+  it('reads a JSON file picked on its own and names the set after it', () => {
+    const json = new File([JSON.stringify(cardList(3))], 'my-cards.json');
+    return readCardSetFiles([json]).then(source => {
+      expect(source.fileError).toBeUndefined();
+      expect(source.name).toBe('my-cards');
+      expect(source.entries).toHaveLength(3);
+    });
+  });
+
+  it('reports a ZIP without a JSON file', () => {
+    const zip = storedZip([{ name: 'cards.png', data: PIXEL }]);
+    return readCardSetFiles([new File([zip], 'set.zip')]).then(source => {
+      expect(source.fileError).toBe('noJson');
+    });
+  });
+
+  it('reports JSON that cannot be parsed', () => {
+    return Promise.all([
+      readCardSetFiles([new File(['{"cards": ['], 'cards.json')]),
+      readCardSetFiles([new File([storedZip([{ name: 'cards.json', data: '[{' }])], 'set.zip')]),
+    ]).then(sources => {
+      expect(sources.map(s => s.fileError)).toEqual(['badJson', 'badJson']);
+    });
+  });
+
+  it('reports a broken ZIP as badZip and an unreadable JSON file as badJson', () => {
+    const truncated = storedZip([{ name: 'cards.json', data: JSON.stringify(cardList(3)) }]).slice(0, 40);
+    // 読めない画像で失敗させる (ZIP は使っていない)
+    vi.stubGlobal('FileReader', class extends DataUrlReader {
+      readAsDataURL() { this.error = new Error('unreadable'); Promise.resolve().then(() => this.onerror?.()); }
+    });
+    return Promise.all([
+      readCardSetFiles([new File([truncated], 'set.zip')]),
+      readCardSetFiles([new File([JSON.stringify(cardList(3))], 'cards.json'), new File([PIXEL], 'a.png')]),
+    ]).then(([zip, json]) => {
+      expect(zip.fileError).toBe('badZip');
+      expect(json.fileError).toBe('badJson');
+      expect(validateCardSet(zip).errors).toEqual([EN.t('cardSetError.badZip')]);
+    });
+  });
+});
+
+// --- Validation ---
+
+describe('validateCardSet', () => {
+  const source = (entries: unknown[], images: Record<string, string> = {}): CardSetSource => ({ name: 'test', entries, images });
+  const issuesOf = (entry: unknown) => validateCardSet(source([entry, ...cardList(MIN_SET_SIZE).map(c => ({ ...c, id: c.id + 100 }))])).issues;
+
+  it('accepts a full set of valid cards', () => {
+    const result = validateCardSet(source(cardList(MIN_SET_SIZE)));
+    expect(result).toEqual({ cards: expect.any(Array), issues: [], errors: [] });
+    expect(result.cards.map(c => c.id)).toEqual(cardList(MIN_SET_SIZE).map(c => c.id));
+  });
+
+  it.each([
+    ['zero', 0], ['negative', -3], ['fractional', 1.5], ['string', '7'],
+  ])('rejects a %s id', (_, id) => {
+    expect(issuesOf(card(1, { id }))[0].errors).toEqual([EN.t('cardError.id')]);
+  });
+
+  it.each([0, 11, 2.5])('rejects level %s', level => {
+    expect(issuesOf(card(1, { level }))[0].errors).toEqual([EN.t('cardError.level')]);
+  });
+
+  it.each([
+    ['a value below the minimum', [0, 2, 3, 4]],
+    ['a value above the maximum', [1, 2, 3, 11]],
+    ['three values', [1, 2, 3]],
+    ['a non-integer', [1, 2, 3, 4.5]],
+  ])('rejects stats with %s', (_, stats) => {
+    expect(issuesOf(card(1, { stats }))[0].errors).toEqual([EN.t('cardError.stats', { min: 1, max: 10 })]);
+  });
+
+  it('accepts the stat bounds themselves', () => {
+    expect(issuesOf(card(1, { stats: [1, 10, 1, 10], level: 10 }))).toEqual([]);
+  });
+
+  it('keeps the first card with an id and rejects the duplicates', () => {
+    const result = validateCardSet(source([...cardList(MIN_SET_SIZE), card(3, { name: 'Copy' })]));
+    expect(result.cards).toHaveLength(MIN_SET_SIZE);
+    expect(result.issues).toEqual([{ index: MIN_SET_SIZE, label: `#${MIN_SET_SIZE + 1} Copy`, errors: [EN.t('cardError.duplicateId', { id: 3 })] }]);
+  });
+
+  it('resolves images from the imported files, URLs and built-in paths', () => {
+    const images = { 'bug.png': 'data:image/png;base64,AA==' };
+    const result = validateCardSet(source([
+      card(1, { img: 'images/Bug.png' }), card(2, { img: 'https://example.com/a.png' }), card(3, { img: BUILT_IN_CARDS[1].img }), card(4, { img: undefined }),
+      ...cardList(MIN_SET_SIZE).map(c => ({ ...c, id: c.id + 100 })),
+    ], images));
+    expect(result.issues).toEqual([]);
+    expect(result.cards.slice(0, 3).map(c => c.img)).toEqual([images['bug.png'], 'https://example.com/a.png', BUILT_IN_CARDS[1].img]);
+  });
+
+  it('rejects images that were not imported', () => {
+    expect(issuesOf(card(1, { img: 'missing.png' }))[0].errors).toEqual([EN.t('cardError.imageMissing', { img: 'missing.png' })]);
+  });
+
+  it('needs enough valid cards for both players', () => {
+    const entries = [...cardList(MIN_SET_SIZE - 1), card(MIN_SET_SIZE, { level: 0 })];
+    expect(validateCardSet(source(entries)).errors).toEqual([EN.t('cardSetError.tooFew', { min: MIN_SET_SIZE, count: MIN_SET_SIZE - 1 })]);
+  });
+});
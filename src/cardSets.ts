@@ -0,0 +1,245 @@
+// --- Custom Card Sets ---
+// 利用者が用意したカードのデータベース (JSON と画像)。IndexedDB に保存し、選んだセットを起動時に CARD_DATA と差し替える
+import type { Card } from './types';
+import { BOARD_LAYOUTS, BUILT_IN_CARDS, ELEMENTS, setCardData } from './constants';
+import { handSize } from './engine';
+import { EN, type Translator } from './i18n';
+
+export interface CardSet {
+  id: string;
+  name: string;
+  cards: Card[];
+  importedAt: number;
+}
+
+export type CardSetFileError = 'noJson' | 'badJson' | 'badZip';
+
+/** 読み込んだファイルの中身 (検証前)。images はファイル名 (小文字) -> data URL */
+export interface CardSetSource {
+  name: string;
+  entries: unknown[] | null;
+  images: Record<string, string>;
+  fileError?: CardSetFileError;
+}
+
+export interface CardIssue {
+  index: number;
+  label: string; // 例: "#3 Bite Bug"
+  errors: string[];
+}
+
+export interface CardSetValidation {
+  cards: Card[];
+  issues: CardIssue[]; // カードごとの問題
+  errors: string[]; // セット全体の問題
+}
+
+// 一番大きな盤面でも両者が重複なしで手札を組める枚数
+export const MIN_SET_SIZE = 2 * Math.max(...BOARD_LAYOUTS.map(l => handSize(l.shape)));
+export const STAT_MIN = 1;
+export const STAT_MAX = 10;
+
+const DB_NAME = 'triple-triad';
+const SET_STORE = 'cardSets';
+const META_STORE = 'meta';
+const ACTIVE_KEY = 'activeCardSet';
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', webp: 'image/webp', svg: 'image/svg+xml',
+};
+
+/** 起動時に選ばれていたカスタムセット。同梱のカードで遊んでいるときは null */
+export let ACTIVE_CARD_SET: CardSet | null = null;
+
+export const isCustomCardSet = () => ACTIVE_CARD_SET !== null;
+
+export const createCardSetId = () => `set-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1).toLowerCase();
+const extension = (path: string) => path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// --- Validation ---
+
+// 画像の指定: data URL と http(s) はそのまま、ファイル名は一緒に読み込んだ画像、同梱の画像のパスはそのまま使える
+function resolveImage(img: string, images: Record<string, string>): string | null {
+  if (!img || img.startsWith('data:') || img.startsWith('http')) return img;
+  if (images[baseName(img)]) return images[baseName(img)];
+  return BUILT_IN_CARDS.some(c => c.img === img) ? img : null;
+}
+
+/** カードの形式 (4 辺 1-10・レベル・既知の属性・重複しない ID) を検証する。問題のあるカードは cards に含めない */
+export function validateCardSet(source: CardSetSource, tr: Translator = EN): CardSetValidation {
+  const { t } = tr;
+  if (source.fileError) return { cards: [], issues: [], errors: [t(`cardSetError.${source.fileError}`)] };
+  if (!source.entries) return { cards: [], issues: [], errors: [t('cardSetError.notList')] };
+
+  const cards: Card[] = [];
+  const issues: CardIssue[] = [];
+  const seen = new Set<number>();
+  source.entries.forEach((entry, index) => {
+    const raw = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const errors: string[] = [];
+    if (!entry || typeof entry !== 'object') errors.push(t('cardError.notObject'));
+    else {
+      if (!isInteger(raw.id, 1, Number.MAX_SAFE_INTEGER)) errors.push(t('cardError.id'));
+      else if (seen.has(raw.id)) errors.push(t('cardError.duplicateId', { id: raw.id }));
+      if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push(t('cardError.name'));
+      if (!isInteger(raw.level, 1, 10)) errors.push(t('cardError.level'));
+      if (!Array.isArray(raw.stats) || raw.stats.length !== 4 || !raw.stats.every(v => isInteger(v, STAT_MIN, STAT_MAX))) {
+        errors.push(t('cardError.stats', { min: STAT_MIN, max: STAT_MAX }));
+      }
+      if (raw.attr != null && !ELEMENTS.includes(raw.attr as string)) errors.push(t('cardError.attr', { attr: String(raw.attr), allowed: ELEMENTS.join(', ') }));
+      if (raw.img != null && typeof raw.img !== 'string') errors.push(t('cardError.img'));
+      else if (resolveImage((raw.img as string | undefined) ?? '', source.images) === null) errors.push(t('cardError.imageMissing', { img: String(raw.img) }));
+    }
+    if (isInteger(raw.id, 1, Number.MAX_SAFE_INTEGER)) seen.add(raw.id);
+
+    if (errors.length > 0) {
+      const name = typeof raw.name === 'string' && raw.name.trim() ? ` ${raw.name.trim()}` : '';
+      issues.push({ index, label: `#${index + 1}${name}`, errors });
+      return;
+    }
+    cards.push({
+      id: raw.id as number, level: raw.level as number, name: (raw.name as string).trim(), stats: raw.stats as number[],
+      attr: (raw.attr as string | null | undefined) ?? null, img: resolveImage((raw.img as string | undefined) ?? '', source.images)!,
+    });
+  });
+
+  const errors: string[] = [];
+  // 不正なカードは使えないので、数えるのは読み込めたカードだけ
+  if (cards.length < MIN_SET_SIZE) errors.push(t('cardSetError.tooFew', { min: MIN_SET_SIZE, count: cards.length }));
+  return { cards, issues, errors };
+}
+
+// --- File Import ---
+
+const readDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+interface ZipEntry {
+  name: string;
+  read: () => Promise<Blob>;
+}
+
+// ZIP の中央ディレクトリだけを読む最小限の展開 (無圧縮と deflate のみ)
+function readZip(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('End of central directory not found');
+
+  const entries: ZipEntry[] = [];
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Broken central directory');
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+
+    const start = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+    const data = bytes.subarray(start, start + size);
+    entries.push({
+      name,
+      read: () => (method === 0 ? Promise.resolve(new Blob([data]))
+        : method === 8 ? new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob()
+        : Promise.reject(new Error(`Unsupported compression method ${method}`))),
+    });
+  }
+  return entries;
+}
+
+// JSON はカードの配列か { name, cards } のどちらか
+function parseCardJson(text: string): Pick<CardSetSource, 'entries' | 'fileError'> & { name?: string } {
+  try {
+    const parsed = JSON.parse(text) as unknown;
+    if (Array.isArray(parsed)) return { entries: parsed };
+    const set = parsed as { name?: unknown; cards?: unknown };
+    return { entries: Array.isArray(set?.cards) ? set.cards : null, name: typeof set?.name === 'string' ? set.name : undefined };
+  } catch {
+    return { entries: null, fileError: 'badJson' };
+  }
+}
+
+/** JSON 1 つと画像、または JSON と画像をまとめた ZIP を読む。読めなかった理由は fileError に入れて検証で表示する */
+export function readCardSetFiles(files: File[]): Promise<CardSetSource> {
+  const zip = files.find(f => extension(f.name) === 'zip');
+  const fallbackName = (zip ?? files.find(f => extension(f.name) === 'json'))?.name.replace(/\.\w+$/, '') ?? '';
+
+  const collected: Promise<{ name: string; blob: Blob }[]> = zip
+    ? zip.arrayBuffer().then(readZip).then(entries => Promise.all(entries.map(e => e.read().then(blob => ({ name: e.name, blob })))))
+    : Promise.resolve(files.map(f => ({ name: f.name, blob: f as Blob })));
+
+  return collected.then(list => {
+    const json = list.find(f => extension(f.name) === 'json');
+    if (!json) return { name: fallbackName, entries: null, images: {}, fileError: 'noJson' as const };
+    const images = list.filter(f => IMAGE_TYPES[extension(f.name)]);
+    return Promise.all([
+      json.blob.text(),
+      ...images.map(f => readDataUrl(new Blob([f.blob], { type: IMAGE_TYPES[extension(f.name)] }))),
+    ]).then(([text, ...urls]) => {
+      const { name, ...parsed } = parseCardJson(text);
+      return { name: name ?? fallbackName, images: Object.fromEntries(images.map((f, i) => [baseName(f.name), urls[i]])), ...parsed };
+    });
+  }).catch(() => ({ name: fallbackName, entries: null, images: {}, fileError: zip ? 'badZip' as const : 'badJson' as const }));
+}
+
+// --- Storage ---
+// 画像を data URL で持つと localStorage の容量を超えるので IndexedDB に置く。選択中のセットも Worker から読めるよう同じ DB に持つ
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SET_STORE, { keyPath: 'id' });
+      request.result.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function run<T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  }).finally(() => db.close()));
+}
+
+export function loadCardSets(): Promise<CardSet[]> {
+  return run<CardSet[]>(SET_STORE, 'readonly', s => s.getAll())
+    .then(sets => sets.sort((a, b) => a.importedAt - b.importedAt))
+    .catch(() => []); // IndexedDB が使えない環境では同梱のカードだけ
+}
+
+export const saveCardSet = (set: CardSet): Promise<void> => run(SET_STORE, 'readwrite', s => s.put(set));
+
+export const deleteCardSet = (id: string): Promise<void> => run(SET_STORE, 'readwrite', s => s.delete(id));
+
+/** 遊ぶカードセットを選ぶ (null で同梱のカード)。反映は次の起動から */
+export const selectCardSet = (id: string | null): Promise<void> => run(META_STORE, 'readwrite', s => s.put(id, ACTIVE_KEY));
+
+/** 選ばれているカスタムセットを CARD_DATA に反映する。失敗したら同梱のカードのまま */
+export function activateCardSet(): Promise<CardSet | null> {
+  return run<string | null | undefined>(META_STORE, 'readonly', s => s.get(ACTIVE_KEY))
+    .then(id => (id ? run<CardSet | undefined>(SET_STORE, 'readonly', s => s.get(id)) : undefined))
+    .then(set => {
+      if (!set || set.cards.length < MIN_SET_SIZE) return null;
+      ACTIVE_CARD_SET = set;
+      setCardData(set.cards);
+      return set;
+    })
+    .catch(() => null);
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { BoardTile, Card, PlayerType, TradeRule } from './types';
+import { applyTransfers, ownedCards, tradeTransfers, type CardTransfer, type CollectionStore } from './collection';
+import { CARD_DATA } from './constants';
+import { DECK_SIZE } from './decks';
+
+// レベル 1〜5 のカードを 1 枚ずつ。CPU はレベルの高いカードから奪う
+const byLevel = (offset: number): Card[] => [1, 2, 3, 4, 5].map(level => CARD_DATA.filter(c => c.level === level)[offset]);
+const decks: Record<PlayerType, Card[]> = {
+  P1: byLevel(0).map(c => ({ ...c, owner: 'P1' })),
+  P2: byLevel(1).map(c => ({ ...c, owner: 'P2' })),
+};
+const ids = (owner: PlayerType) => decks[owner].map(c => c.id);
+
+// 最終ラウンドの盤面: P1 のカード 2 枚が P2 に、P2 のカード 1 枚が P1 に取られたまま
+const board: BoardTile[] = [
+  ...decks.P1.slice(0, 2).map(c => ({ ...c, owner: 'P2' as const })),
+  ...decks.P1.slice(2).map(c => ({ ...c, owner: 'P1' as const })),
+  { ...decks.P2[4], owner: 'P1' as const },
+].map(card => ({ card, element: null }));
+
+const moved = (transfers: CardTransfer[]) => transfers.map(t => `${t.from}>${t.to}:${t.cardId}`);
+const take = (from: 'P1' | 'CPU', to: 'P1' | 'CPU', cardIds: number[]) => cardIds.map(id => `${from}>${to}:${id}`);
+
+describe('tradeTransfers', () => {
+  const trade = (rule: TradeRule, winner: PlayerType | 'DRAW', finalScores: number[], picked: number[] = []) =>
+    moved(tradeTransfers(rule, winner, decks, board, finalScores, picked));
+
+  it('moves nothing under NONE', () => {
+    expect(trade('NONE', 'P1', [6, 4])).toEqual([]);
+    expect(trade('NONE', 'P2', [4, 6])).toEqual([]);
+  });
+
+  it('ONE: the player takes the card they picked, the CPU takes the highest level', () => {
+    expect(trade('ONE', 'P1', [6, 4], [ids('P2')[2]])).toEqual(take('CPU', 'P1', [ids('P2')[2]]));
+    expect(trade('ONE', 'P2', [4, 6])).toEqual(take('P1', 'CPU', [ids('P1')[4]]));
+    expect(trade('ONE', 'DRAW', [5, 5])).toEqual([]);
+  });
+
+  it('DIFF: as many cards as the score difference, at least one', () => {
+    expect(trade('DIFF', 'P1', [8, 2], ids('P2').slice(0, 3))).toEqual(take('CPU', 'P1', ids('P2').slice(0, 3)));
+    expect(trade('DIFF', 'P2', [3, 7])).toEqual(take('P1', 'CPU', [ids('P1')[4], ids('P1')[3], ids('P1')[2], ids('P1')[1]]));
+    expect(trade('DIFF', 'P2', [5, 5])).toEqual(take('P1', 'CPU', [ids('P1')[4]]));
+    expect(trade('DIFF', 'P2', [1, 9])).toHaveLength(DECK_SIZE);
+    expect(trade('DIFF', 'DRAW', [5, 5])).toEqual([]);
+  });
+
+  it('ALL: the winner takes the whole losing deck', () => {
+    expect(trade('ALL', 'P1', [6, 4])).toEqual(take('CPU', 'P1', ids('P2')));
+    expect([...trade('ALL', 'P2', [4, 6])].sort()).toEqual(take('P1', 'CPU', ids('P1')).sort());
+    expect(trade('ALL', 'DRAW', [5, 5])).toEqual([]);
+  });
+
+  it('DIRECT: cards captured on the final board change hands whoever wins', () => {
+    const expected = [...take('P1', 'CPU', ids('P1').slice(0, 2)), ...take('CPU', 'P1', [ids('P2')[4]])];
+    expect(trade('DIRECT', 'P1', [6, 4])).toEqual(expected);
+    expect(trade('DIRECT', 'P2', [4, 6])).toEqual(expected);
+    expect(trade('DIRECT', 'DRAW', [5, 5])).toEqual(expected);
+  });
+});
+
+describe('applyTransfers', () => {
+  const collection = (cards: Card[], copies = 1) => Object.fromEntries(cards.map(c => [c.id, copies]));
+  const store = (): CollectionStore => ({ version: 1, P1: collection(decks.P1), CPU: collection([...decks.P2, ...byLevel(2)]) });
+
+  it('moves one copy per transfer and removes cards that run out', () => {
+    const twice = { ...store(), P1: collection(decks.P1, 2) };
+    const next = applyTransfers(twice, tradeTransfers('ONE', 'P2', decks, board, [4, 6]));
+    expect(next.P1[ids('P1')[4]]).toBe(1);
+    expect(next.CPU[ids('P1')[4]]).toBe(1);
+
+    const won = applyTransfers(store(), tradeTransfers('ONE', 'P1', decks, board, [6, 4], [ids('P2')[0]]));
+    expect(won.CPU[ids('P2')[0]]).toBeUndefined();
+    expect(won.P1[ids('P2')[0]]).toBe(1);
+  });
+
+  it('ignores transfers of cards the sender no longer owns', () => {
+    const next = applyTransfers(store(), [{ from: 'P1', to: 'CPU', cardId: ids('P2')[0] }]);
+    expect(next.CPU[ids('P2')[0]]).toBe(1);
+    expect(next.P1[ids('P2')[0]]).toBeUndefined();
+  });
+
+  it('does not change the store it was given', () => {
+    const before = store();
+    const copy = JSON.parse(JSON.stringify(before));
+    applyTransfers(before, tradeTransfers('ALL', 'P2', decks, board, [0, 10]));
+    expect(before).toEqual(copy);
+  });
+
+  it('tops a losing collection back up to a playable deck with level 1 cards', () => {
+    const next = applyTransfers(store(), tradeTransfers('ALL', 'P2', decks, board, [0, 10]));
+    const owned = ownedCards(next.P1);
+    expect(owned).toHaveLength(DECK_SIZE);
+    expect(owned.every(c => c.level === 1)).toBe(true);
+    // 補充は CPU に渡ったカードを取り戻さない
+    expect(ids('P1').every(id => next.CPU[id] === 1)).toBe(true);
+  });
+
+  it('leaves collections that can still build a deck as they are', () => {
+    const next = applyTransfers(store(), tradeTransfers('ONE', 'P1', decks, board, [6, 4], [ids('P2')[0]]));
+    expect(ownedCards(next.CPU)).toHaveLength(2 * DECK_SIZE - 1);
+    expect(ownedCards(next.P1)).toHaveLength(DECK_SIZE + 1);
+  });
+});
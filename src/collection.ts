@@ -0,0 +1,137 @@
+// --- Card Collection & Trade Rules ---
+// コレクションモードでは P1 と CPU がそれぞれ所持カードを持ち、シリーズの勝者が敗者からカードを奪う
+import type { BoardTile, Card, PlayerType, TradeRule } from './types';
+import { CARD_DATA } from './constants';
+import { opponentOf } from './engine';
+import { DECK_SIZE } from './decks';
+import { createRng } from './rng';
+
+export type CollectionOwner = 'P1' | 'CPU';
+export type CardCollection = Record<number, number>; // カード ID -> 所持枚数
+
+export interface CollectionStore {
+  version: 1;
+  P1: CardCollection;
+  CPU: CardCollection;
+}
+
+export interface CardTransfer {
+  from: CollectionOwner;
+  to: CollectionOwner;
+  cardId: number;
+}
+
+const STORAGE_KEY = 'triple-triad-collection';
+const STARTER_SIZE = 10;
+
+// P1 は低レベルのカードから、CPU は少し強めのカードから始める
+const STARTER_LEVELS: Record<CollectionOwner, number> = { P1: 3, CPU: 5 };
+
+export const toCollectionOwner = (player: PlayerType): CollectionOwner => (player === 'P1' ? 'P1' : 'CPU');
+
+// --- Collection Helpers ---
+
+export function createStarterCollection(owner: CollectionOwner): CardCollection {
+  const pool = createRng().shuffle(CARD_DATA.filter(c => c.level <= STARTER_LEVELS[owner]));
+  return Object.fromEntries(pool.slice(0, STARTER_SIZE).map(c => [c.id, 1]));
+}
+
+export function ownedCards(collection: CardCollection): Card[] {
+  return CARD_DATA.filter(c => (collection[c.id] || 0) > 0);
+}
+
+export const countCards = (collection: CardCollection): number => Object.values(collection).reduce((a, b) => a + b, 0);
+
+// デッキを組めなくならないよう、5 種類を下回ったらレベル 1 のカードで補充する
+function ensurePlayable(collection: CardCollection): CardCollection {
+  const next = { ...collection };
+  const refill = createRng().shuffle(CARD_DATA.filter(c => c.level === 1 && !next[c.id]));
+  while (ownedCards(next).length < DECK_SIZE && refill.length > 0) next[refill.shift()!.id] = 1;
+  return next;
+}
+
+export function applyTransfers(store: CollectionStore, transfers: CardTransfer[]): CollectionStore {
+  const next: CollectionStore = { ...store, P1: { ...store.P1 }, CPU: { ...store.CPU } };
+  transfers.forEach(({ from, to, cardId }) => {
+    if (!next[from][cardId]) return;
+    next[from][cardId] -= 1;
+    if (next[from][cardId] === 0) delete next[from][cardId];
+    next[to][cardId] = (next[to][cardId] || 0) + 1;
+  });
+  return { ...next, P1: ensurePlayable(next.P1), CPU: ensurePlayable(next.CPU) };
+}
+
+/** キャンペーンの報酬などで P1 にカードを加える */
+export function awardCards(store: CollectionStore, cardIds: number[]): CollectionStore {
+  const P1 = { ...store.P1 };
+  cardIds.forEach(id => { P1[id] = (P1[id] || 0) + 1; });
+  return { ...store, P1 };
+}
+
+// --- Storage ---
+
+export function loadCollections(): CollectionStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as CollectionStore;
+      if (parsed.version === 1 && parsed.P1 && parsed.CPU) return parsed;
+    }
+  } catch {
+    // 壊れたデータは初期コレクションで置き換える
+  }
+  return { version: 1, P1: createStarterCollection('P1'), CPU: createStarterCollection('CPU') };
+}
+
+export function saveCollections(store: CollectionStore) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // プライベートモードなどで保存できない場合はメモリ上だけで続ける
+  }
+}
+
+// --- Trade Rules ---
+
+/** 勝者が敗者のデッキから選んで奪える枚数。DIRECT は盤面の結果で決まるので 0 */
+export function tradeCount(rule: TradeRule, finalScores: number[]): number {
+  switch (rule) {
+    case 'ONE': return 1;
+    case 'DIFF': return Math.max(1, Math.abs(finalScores[0] - finalScores[1]));
+    case 'ALL': return DECK_SIZE;
+    default: return 0;
+  }
+}
+
+/** CPU が勝った場合はレベルの高いカードから奪う */
+export function pickCpuTrade(loserDeck: Card[], count: number): Card[] {
+  return [...loserDeck].sort((a, b) => b.level - a.level).slice(0, count);
+}
+
+/** DIRECT: 最終ラウンドの盤面で相手に取られたままのカードがそのまま移る */
+export function directTransfers(board: BoardTile[], decks: Record<PlayerType, Card[]>): CardTransfer[] {
+  const originalOwner = (id: number): PlayerType | null =>
+    decks.P1.some(c => c.id === id) ? 'P1' : decks.P2.some(c => c.id === id) ? 'P2' : null;
+  return board.flatMap(t => {
+    const original = t.card ? originalOwner(t.card.id) : null;
+    if (!t.card?.owner || !original || original === t.card.owner) return [];
+    return [{ from: toCollectionOwner(original), to: toCollectionOwner(t.card.owner), cardId: t.card.id }];
+  });
+}
+
+/** ONE・DIFF で P1 が勝ったときは、P1 が相手のデッキから奪うカードを選ぶ */
+export const playerChoosesTrade = (rule: TradeRule, winner: PlayerType | 'DRAW'): boolean =>
+  winner === 'P1' && (rule === 'ONE' || rule === 'DIFF');
+
+/** シリーズの結果で移るカード。picked は playerChoosesTrade のときに P1 が選んだカード ID。引き分けでは DIRECT 以外は何も移らない */
+export function tradeTransfers(rule: TradeRule, winner: PlayerType | 'DRAW', decks: Record<PlayerType, Card[]>, board: BoardTile[], finalScores: number[], picked: number[] = []): CardTransfer[] {
+  if (rule === 'NONE') return [];
+  if (rule === 'DIRECT') return directTransfers(board, decks);
+  if (winner === 'DRAW') return [];
+  const loserDeck = decks[opponentOf(winner)];
+  const count = Math.min(tradeCount(rule, finalScores), loserDeck.length);
+  const taken = playerChoosesTrade(rule, winner) ? loserDeck.filter(c => picked.includes(c.id))
+    : winner === 'P2' ? pickCpuTrade(loserDeck, count)
+    : loserDeck.slice(0, count);
+  return taken.map(c => ({ from: toCollectionOwner(opponentOf(winner)), to: toCollectionOwner(winner), cardId: c.id }));
+}
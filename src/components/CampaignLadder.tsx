@@ -0,0 +1,83 @@
+import React from 'react';
+import { CheckCircle2, ChevronLeft, Gift, Lock, Swords } from 'lucide-react';
+import type { Card, RuleToggleKey } from '../types';
+import { CARD_DATA, ELEMENT_ICONS } from '../constants';
+import { CAMPAIGN_OPPONENTS, fixedDeckCards, isUnlocked, type CampaignDeck, type CampaignOpponent, type CampaignProgress } from '../campaign';
+import CardComponent from './CardComponent';
+import { useI18n } from './I18nProvider';
+
+const DIFFICULTY_CLASSES = { LOW: 'text-emerald-400', MID: 'text-blue-400', HIGH: 'text-red-400', EXPERT: 'text-purple-400' } as const;
+
+// テーマデッキの条件を短く表示する (例: "💀 Lv.3-7")
+const deckTheme = (deck: CampaignDeck): string => {
+  if ('cards' in deck) return '';
+  const parts = [(deck.attrs ?? []).map(a => (a ? ELEMENT_ICONS[a] : '—')).join('')];
+  if (deck.levels?.length) parts.push(`Lv.${Math.min(...deck.levels)}-${Math.max(...deck.levels)}`);
+  if (deck.minTotal != null) parts.push(`Σ≥${deck.minTotal}`);
+  if (deck.maxTotal != null) parts.push(`Σ≤${deck.maxTotal}`);
+  return parts.filter(Boolean).join(' ');
+};
+
+const CampaignLadder: React.FC<{ progress: CampaignProgress; onStart: (opponent: CampaignOpponent) => void; onBack: () => void }> = ({ progress, onStart, onBack }) => {
+  const tr = useI18n();
+  const { t } = tr;
+  const cleared = CAMPAIGN_OPPONENTS.filter(o => progress.cleared.includes(o.id)).length;
+
+  return (
+    <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col p-2 lg:p-6 font-sans overflow-hidden safe-area">
+      <header className="flex justify-between items-center mb-2 lg:mb-4 border-b border-slate-900 pb-2 lg:pb-4 shrink-0">
+        <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white font-black uppercase text-xs"><ChevronLeft size={16} /> {t('common.title')}</button>
+        <h1 className="text-lg lg:text-3xl font-black italic uppercase tracking-tighter">{t('campaign.title')} <span className="text-blue-500">{t('campaign.titleAccent')}</span></h1>
+        <div className="text-[10px] font-black uppercase text-slate-500">{t('campaign.progress', { cleared, total: CAMPAIGN_OPPONENTS.length })}</div>
+      </header>
+
+      <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3 lg:gap-4 content-start pb-6">
+        {CAMPAIGN_OPPONENTS.map((opponent, i) => {
+          const unlocked = isUnlocked(progress, i);
+          const done = progress.cleared.includes(opponent.id);
+          const rules = (Object.keys(opponent.rules) as RuleToggleKey[]).filter(key => opponent.rules[key]);
+          const reward = (opponent.reward ?? []).map(id => CARD_DATA.find(c => c.id === id)).filter((c): c is Card => !!c);
+          return (
+            <div key={opponent.id} className={`flex flex-col gap-3 p-4 rounded-2xl border-2 ${done ? 'border-emerald-700/60 bg-emerald-950/20' : unlocked ? 'border-slate-700 bg-slate-900/60' : 'border-slate-900 bg-slate-900/20 opacity-50'}`}>
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <div className="text-[10px] font-black uppercase text-slate-500">
+                    {String(i + 1).padStart(2, '0')} · <span className={DIFFICULTY_CLASSES[opponent.difficulty]}>{t(`difficulty.${opponent.difficulty}`)}</span>
+                  </div>
+                  <div className="font-black italic uppercase text-lg leading-tight truncate">{unlocked ? tr.localized(opponent.name) : '???'}</div>
+                </div>
+                {done ? <CheckCircle2 size={20} className="text-emerald-400 shrink-0" aria-label={t('campaign.cleared')} /> : !unlocked && <Lock size={18} className="text-slate-600 shrink-0" aria-label={t('campaign.locked')} />}
+              </div>
+              {unlocked && (
+                <>
+                  <p className="text-xs font-bold text-slate-400">{tr.localized(opponent.intro)}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {rules.length === 0 && <span className="px-2 py-0.5 rounded-full border border-slate-700 text-[9px] font-black uppercase text-slate-500">{t('campaign.noRules')}</span>}
+                    {rules.map(key => <span key={key} className="px-2 py-0.5 rounded-full border border-slate-700 text-[9px] font-black uppercase text-slate-300">{t(`rule.${key}`)}</span>)}
+                  </div>
+                  <div className="text-[10px] font-black uppercase text-slate-500">
+                    {fixedDeckCards(opponent.deck) ? t('campaign.fixedDeck') : `${t('campaign.themedDeck')} · ${deckTheme(opponent.deck)}`}
+                  </div>
+                  {reward.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Gift size={14} className={done ? 'text-slate-600' : 'text-amber-400'} />
+                      <span className="text-[10px] font-black uppercase text-slate-500">{t('campaign.reward')}</span>
+                      <div className={`flex gap-1 ${done ? 'opacity-40' : ''}`}>
+                        {reward.map(card => <div key={card.id} className="w-10"><CardComponent card={card} small isMobile={false} /></div>)}
+                      </div>
+                    </div>
+                  )}
+                  <button onClick={() => onStart(opponent)} className="mt-auto w-full py-3 rounded-xl bg-white text-slate-950 font-black italic uppercase flex items-center justify-center gap-2 hover:bg-slate-100 transition-all active:scale-95 outline-none focus-visible:ring-4 focus-visible:ring-cyan-300">
+                    <Swords size={16} /> {t('campaign.challenge')}
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignLadder;
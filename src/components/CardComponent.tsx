@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Card, PlayerType } from '../types';
+import { describeCard } from '../a11y';
+import { useI18n } from './I18nProvider';
+
+export function resolveImgPath(path: string) {
+  if (!path) return "";
+  if (path.startsWith('http') || path.startsWith('data:')) return path;
+  const baseUrl = import.meta.env.BASE_URL.replace(/\/$/, '');
+  const cleanPath = path.replace(/^\.?\//, '');
+  return `${baseUrl}/${cleanPath}`;
+}
+
+// 色だけに頼らず持ち主を見分けられるよう、枠に P1 はドット・P2 は斜線の模様を重ね、記号も添える
+const OWNER_PATTERNS: Record<PlayerType, { background: string; mark: string }> = {
+  P1: { background: 'radial-gradient(rgba(255,255,255,0.6) 1px, transparent 1.5px) 0 0 / 5px 5px', mark: '●' },
+  P2: { background: 'repeating-linear-gradient(45deg, rgba(255,255,255,0.55) 0 2px, transparent 2px 6px)', mark: '▲' },
+};
+
+// 枠の部分だけに模様を出すマスク
+const FRAME_MASK: React.CSSProperties = {
+  padding: 4,
+  WebkitMask: 'linear-gradient(#000 0 0) content-box, linear-gradient(#000 0 0)',
+  WebkitMaskComposite: 'xor',
+  maskComposite: 'exclude',
+};
+
+// label: 読み上げ用の名前 (省略時はカードの内容から作る) / flipDuration: 持ち主が変わったときに裏返る時間 (ms)。0 なら即座に変わる
+const CardComponent: React.FC<{ card: Card | null; isSelected?: boolean; isHovered?: boolean; onClick?: () => void; small?: boolean; side?: 'left' | 'right'; isMobile?: boolean; faceDown?: boolean; label?: string; flipDuration?: number }> = ({ card, isSelected, isHovered, onClick, small, side = 'left', isMobile = false, faceDown = false, label, flipDuration = 500 }) => {
+  const tr = useI18n();
+  const [isFlipping, setIsFlipping] = useState(false);
+  const [displayOwner, setDisplayOwner] = useState(card?.owner);
+  const prevOwnerRef = useRef(card?.owner);
+  const prevCardIdRef = useRef<number | null>(card?.id || null);
+
+  useEffect(() => {
+    if (!card) return;
+    if (card.id !== prevCardIdRef.current) {
+      setDisplayOwner(card.owner);
+      setIsFlipping(false);
+      prevOwnerRef.current = card.owner;
+      prevCardIdRef.current = card.id;
+      return;
+    }
+    if (card.owner !== prevOwnerRef.current) {
+      if (prevOwnerRef.current && flipDuration > 0) {
+        setIsFlipping(true);
+        const t1 = setTimeout(() => setDisplayOwner(card.owner), flipDuration / 2);
+        const t2 = setTimeout(() => setIsFlipping(false), flipDuration);
+        prevOwnerRef.current = card.owner;
+        return () => { clearTimeout(t1); clearTimeout(t2); };
+      } else {
+        setDisplayOwner(card.owner);
+      }
+      prevOwnerRef.current = card.owner;
+    }
+  }, [card?.owner, card?.id]);
+
+  if (!card) return (
+    <div aria-hidden="true" className="w-full aspect-[3/4] bg-slate-800/20 rounded-xl border-2 border-dashed border-slate-700/50 flex items-center justify-center opacity-30">
+      <div className="w-8 h-8 rounded-full border-4 border-slate-700/10" />
+    </div>
+  );
+  
+  // Open ルールなしの相手の手札は裏面だけを表示
+  if (faceDown) return (
+    <div role="img" aria-label={tr.t('a11y.faceDown')} className={`w-full aspect-[3/4] rounded-xl bg-slate-800 border-4 border-slate-600 flex items-center justify-center shadow-inner ${small ? 'scale-90' : ''}`}>
+      <div className="w-10 h-10 rounded-full border-4 border-slate-700 flex items-center justify-center font-black text-slate-600 italic text-lg">TT</div>
+    </div>
+  );
+
+  const stats = card.modifiedStats || card.stats;
+  const displayStat = (val: number) => val === 10 ? 'A' : val;
+  const getStatColor = (idx: number) => {
+    if (!card.modifiedStats) return 'text-white';
+    if (card.modifiedStats[idx] > card.stats[idx]) return 'text-cyan-300';
+    if (card.modifiedStats[idx] < card.stats[idx]) return 'text-red-400';
+    return 'text-white';
+  };
+
+  const getAttrStyle = (attr: string) => {
+    switch (attr) {
+      case 'fire': return { bg: 'bg-orange-600', icon: '🔥', border: 'border-orange-400' };
+      case 'ice': return { bg: 'bg-cyan-500', icon: '❄️', border: 'border-cyan-300' };
+      case 'thunder': return { bg: 'bg-yellow-500', icon: '⚡', border: 'border-yellow-300' };
+      case 'earth': return { bg: 'bg-amber-800', icon: '🌍', border: 'border-amber-600' };
+      case 'wind': return { bg: 'bg-emerald-500', icon: '🌪️', border: 'border-emerald-300' };
+      case 'water': return { bg: 'bg-blue-500', icon: '💧', border: 'border-blue-300' };
+      case 'poison': return { bg: 'bg-purple-600', icon: '💀', border: 'border-purple-400' };
+      case 'holy': return { bg: 'bg-yellow-100', icon: '✨', border: 'border-yellow-400', text: 'text-slate-900' };
+      default: return { bg: 'bg-slate-500', icon: '', border: 'border-slate-400' };
+    }
+  };
+
+  const ownerClass = displayOwner === 'P1' 
+    ? 'from-blue-600 to-blue-900 border-blue-400 border-4 shadow-[0_0_20px_rgba(96,165,250,0.5)]' 
+    : displayOwner === 'P2' 
+      ? 'from-red-600 to-red-900 border-red-400 border-4 shadow-[0_0_20px_rgba(248,113,113,0.5)]' 
+      : 'from-slate-700 to-slate-900 border-slate-500 border-2';
+
+  let translateClass = '';
+  if (onClick) {
+    if (isSelected) {
+      translateClass = isMobile ? '-translate-y-[60%] scale-105' : (side === 'left' ? '-translate-x-[60%] scale-95' : 'translate-x-[60%] scale-95');
+    } else if (isHovered) {
+      translateClass = isMobile ? '-translate-y-[20%] scale-105' : (side === 'left' ? 'hover:-translate-x-[40%] scale-110' : 'hover:translate-x-[40%] scale-110');
+    }
+  }
+
+  const transformOrigin = side === 'left' ? 'origin-right' : 'origin-left';
+
+  return (
+    <div 
+      role="img"
+      aria-label={label ?? describeCard(card, tr)}
+      onClick={(e) => { if (onClick) { e.stopPropagation(); onClick(); } }} 
+      className={`relative w-full aspect-[3/4] transition-all duration-300 perspective-1000 ${transformOrigin} ${onClick ? 'cursor-pointer' : ''} ${isSelected ? 'z-40 ring-4 ring-yellow-400 rounded-xl shadow-[0_0_30px_rgba(250,204,21,0.4)]' : 'z-10 hover:z-50'} ${translateClass} ${small ? 'scale-90' : ''}`}
+    >
+      <div className={`relative w-full h-full transition-transform transform-style-3d ${isFlipping ? 'rotate-y-180' : ''}`} style={{ transitionDuration: `${flipDuration}ms` }}>
+        <div className={`absolute inset-0 w-full h-full rounded-xl bg-gradient-to-br ${ownerClass} overflow-hidden shadow-lg backface-hidden`}>
+          <div className="absolute inset-0 bg-slate-900">
+             {card.img && <img src={resolveImgPath(card.img)} alt="" className="w-full h-full object-cover opacity-80 pointer-events-none" />}
+             <div className="absolute inset-0 bg-black/10" />
+          </div>
+
+          <div className="absolute top-1 left-1 w-12 h-14 bg-black/60 backdrop-blur-md rounded-lg border border-white/20 z-20 flex flex-col items-center justify-center shadow-xl scale-[0.7] sm:scale-100 origin-top-left">
+            <div className="relative w-full h-full flex flex-col items-center justify-center font-black italic text-white drop-shadow-[0_2px_4px_rgba(0,0,0,1)]">
+              <div className={`text-base leading-none mb-0.5 ${getStatColor(0)}`}>{displayStat(stats[0])}</div>
+              <div className="flex w-full justify-between px-1.5 -my-0.5">
+                 <span className={`text-base leading-none ${getStatColor(1)}`}>{displayStat(stats[1])}</span>
+                 <span className={`text-base leading-none ${getStatColor(2)}`}>{displayStat(stats[2])}</span>
+              </div>
+              <div className={`text-base leading-none mt-0.5 ${getStatColor(3)}`}>{displayStat(stats[3])}</div>
+            </div>
+          </div>
+
+          {(displayOwner === 'P1' || displayOwner === 'P2') && (
+            <>
+              <div aria-hidden="true" className="absolute inset-0 rounded-lg pointer-events-none z-10" style={{ ...FRAME_MASK, background: OWNER_PATTERNS[displayOwner].background }} />
+              <div aria-hidden="true" className="absolute bottom-1 left-1.5 z-20 text-[8px] sm:text-[10px] leading-none text-white drop-shadow-[0_1px_2px_rgba(0,0,0,1)]">{OWNER_PATTERNS[displayOwner].mark}</div>
+            </>
+          )}
+
+          {card.attr && (
+            <div className={`absolute top-1.5 right-1.5 w-7 h-7 ${getAttrStyle(card.attr).bg} ${getAttrStyle(card.attr).border} border-2 rounded-lg flex items-center justify-center shadow-lg z-20 scale-75 sm:scale-100`}>
+              <span className={`text-[12px] drop-shadow-sm ${getAttrStyle(card.attr).text || ''}`}>{getAttrStyle(card.attr).icon}</span>
+            </div>
+          )}
+
+          <div className="absolute bottom-0 w-full bg-gradient-to-t from-black/95 via-black/40 to-transparent pt-6 pb-2 px-2 z-10">
+            <div className="text-[10px] sm:text-[13px] font-black text-white uppercase tracking-normal text-center truncate drop-shadow-lg">{tr.cardName(card)}</div>
+          </div>
+        </div>
+        <div 
+          className="absolute inset-0 w-full h-full rounded-xl bg-slate-800 border-4 border-slate-600 flex items-center justify-center shadow-inner"
+          style={{ transform: 'rotateY(180deg)', backfaceVisibility: 'hidden' }}
+        >
+           <div className="w-10 h-10 rounded-full border-4 border-slate-700 flex items-center justify-center font-black text-slate-600 italic text-lg">TT</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CardComponent;
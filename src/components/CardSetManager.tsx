@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, ChevronLeft, Database, FileUp, Trash2 } from 'lucide-react';
+import { BUILT_IN_CARDS } from '../constants';
+import {
+  ACTIVE_CARD_SET, MIN_SET_SIZE, createCardSetId, deleteCardSet, loadCardSets, readCardSetFiles, saveCardSet, selectCardSet, validateCardSet,
+  type CardSet, type CardSetSource
+} from '../cardSets';
+import CardComponent from './CardComponent';
+import { useI18n } from './I18nProvider';
+
+const PREVIEW_SIZE = 5;
+
+const CardSetManager: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const tr = useI18n();
+  const { t } = tr;
+  const [sets, setSets] = useState<CardSet[]>([]);
+  const [source, setSource] = useState<CardSetSource | null>(null);
+  const [name, setName] = useState('');
+  const [reading, setReading] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [selectFailed, setSelectFailed] = useState(false);
+
+  const refresh = () => loadCardSets().then(setSets);
+  useEffect(() => { refresh(); }, []);
+
+  // 検証は表示中の言語でやり直せるよう、読み込んだ中身から毎回求める
+  const validation = useMemo(() => source && validateCardSet(source, tr), [source, tr]);
+  const canSave = !!validation && validation.errors.length === 0 && validation.issues.length === 0 && validation.cards.length >= MIN_SET_SIZE;
+  const activeId = ACTIVE_CARD_SET?.id ?? null;
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setReading(true);
+    setSaveFailed(false);
+    readCardSetFiles(Array.from(files)).then(read => {
+      setSource(read);
+      setName(read.name);
+      setReading(false);
+    });
+  };
+
+  const handleSave = () => {
+    if (!validation || !canSave) return;
+    saveCardSet({ id: createCardSetId(), name: name.trim() || t('cardSets.title'), cards: validation.cards, importedAt: Date.now() })
+      .then(() => { setSource(null); refresh(); })
+      .catch(() => setSaveFailed(true));
+  };
+
+  // カードを参照するモジュールは起動時の CARD_DATA を前提にしているので、切り替えたら読み込み直す
+  const handleSelect = (id: string | null) => {
+    if (id === activeId) return;
+    setSelectFailed(false);
+    selectCardSet(id)
+      .then(() => window.location.reload())
+      .catch(() => setSelectFailed(true));
+  };
+
+  const handleDelete = (id: string) => deleteCardSet(id).then(refresh);
+
+  const rows = [{ id: null, name: t('cardSets.builtIn'), count: BUILT_IN_CARDS.length }, ...sets.map(s => ({ id: s.id, name: s.name, count: s.cards.length }))];
+
+  return (
+    <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col p-2 lg:p-6 font-sans overflow-hidden safe-area">
+      <header className="flex justify-between items-center mb-2 lg:mb-4 border-b border-slate-900 pb-2 lg:pb-4 shrink-0">
+        <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white font-black uppercase text-xs"><ChevronLeft size={16} /> {t('common.title')}</button>
+        <h1 className="text-lg lg:text-3xl font-black italic uppercase tracking-tighter">{t('cardSets.title')} <span className="text-blue-500">{t('cardSets.titleAccent')}</span></h1>
+        <div className="w-16" />
+      </header>
+
+      <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-1 lg:grid-cols-2 gap-4 lg:gap-6 content-start pb-6">
+        {/* Sets */}
+        <section className="flex flex-col gap-3">
+          <p className="text-xs font-bold text-slate-400">{t('cardSets.note')}</p>
+          {selectFailed && <div className="flex items-center gap-2 text-xs font-bold text-red-400"><AlertTriangle size={14} /> {t('cardSets.selectFailed')}</div>}
+          {rows.map(row => (
+            <div key={row.id ?? 'built-in'} className={`flex items-center gap-3 p-4 rounded-2xl border-2 ${row.id === activeId ? 'border-blue-500 bg-blue-950/30' : 'border-slate-800 bg-slate-900/60'}`}>
+              <Database size={18} className={row.id === activeId ? 'text-blue-400' : 'text-slate-500'} />
+              <div className="min-w-0 flex-1">
+                <div className="font-black italic uppercase truncate">{row.name}</div>
+                <div className="text-[10px] font-black uppercase text-slate-500">{t('cardSets.cardCount', { count: row.count })}</div>
+              </div>
+              {row.id === activeId ? (
+                <span className="flex items-center gap-1 text-[10px] font-black uppercase text-blue-400"><CheckCircle2 size={14} /> {t('cardSets.active')}</span>
+              ) : (
+                <>
+                  <button onClick={() => handleSelect(row.id)} className="px-4 py-2 rounded-xl bg-white text-slate-950 text-xs font-black italic uppercase hover:bg-slate-100 transition-all active:scale-95">{t('cardSets.use')}</button>
+                  {row.id && (
+                    <button onClick={() => handleDelete(row.id!)} aria-label={t('cardSets.delete')} className="p-2 rounded-xl text-slate-500 hover:text-red-400 transition-colors"><Trash2 size={16} /></button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </section>
+
+        {/* Import */}
+        <section className="flex flex-col gap-3 p-4 rounded-2xl border-2 border-slate-800 bg-slate-900/40">
+          <h3 className="text-slate-500 font-bold uppercase text-xs flex items-center gap-2"><FileUp size={14} /> {t('cardSets.import')}</h3>
+          <p className="text-xs font-bold text-slate-400">{t('cardSets.importHint')}</p>
+          <label className="self-start px-4 py-2 rounded-xl border-2 border-slate-700 text-xs font-black uppercase cursor-pointer hover:border-blue-500 transition-colors">
+            {reading ? t('cardSets.reading') : t('cardSets.choose')}
+            <input type="file" multiple accept=".json,.zip,image/*" className="sr-only" disabled={reading} onChange={e => { handleFiles(e.target.files); e.target.value = ''; }} />
+          </label>
+
+          {validation && (
+            <>
+              <input value={name} onChange={e => setName(e.target.value)} placeholder={t('cardSets.name')} aria-label={t('cardSets.name')} className="bg-slate-900 border-2 border-slate-800 focus:border-blue-500 rounded-xl px-3 py-2 text-sm font-bold outline-none" />
+              <div className="flex gap-4 text-[10px] font-black uppercase">
+                <span className="text-emerald-400">{t('cardSets.valid', { count: validation.cards.length })}</span>
+                {validation.issues.length > 0 && <span className="text-red-400">{t('cardSets.invalid', { count: validation.issues.length })}</span>}
+              </div>
+              {validation.errors.map(error => (
+                <div key={error} className="flex items-center gap-2 text-xs font-bold text-red-400"><AlertTriangle size={14} className="shrink-0" /> {error}</div>
+              ))}
+              {validation.issues.length > 0 && (
+                <ul className="max-h-64 overflow-y-auto flex flex-col gap-2 pr-1">
+                  {validation.issues.map(issue => (
+                    <li key={issue.index} className="p-2 rounded-lg bg-red-950/30 border border-red-900/50">
+                      <div className="text-[10px] font-black uppercase text-red-300 truncate">{issue.label}</div>
+                      {issue.errors.map(error => <div key={error} className="text-[11px] font-bold text-slate-300">{error}</div>)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {validation.cards.length > 0 && (
+                <div className="flex gap-2">
+                  {validation.cards.slice(0, PREVIEW_SIZE).map(card => <div key={card.id} className="w-14 sm:w-16"><CardComponent card={card} small isMobile={false} /></div>)}
+                </div>
+              )}
+              {saveFailed && <div className="flex items-center gap-2 text-xs font-bold text-red-400"><AlertTriangle size={14} /> {t('cardSets.saveFailed')}</div>}
+              <div className="flex gap-2">
+                <button onClick={handleSave} disabled={!canSave} className="flex-1 py-3 rounded-xl bg-white text-slate-950 font-black italic uppercase hover:bg-slate-100 transition-all active:scale-95 disabled:opacity-30">{t('cardSets.save')}</button>
+                <button onClick={() => setSource(null)} className="px-4 py-3 rounded-xl border-2 border-slate-700 text-xs font-black uppercase text-slate-400 hover:text-white">{t('cardSets.cancel')}</button>
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default CardSetManager;
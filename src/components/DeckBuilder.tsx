@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, Save, Trash2, AlertTriangle, Search } from 'lucide-react';
+import type { Card, DeckConstraints } from '../types';
+import { ELEMENTS, ELEMENT_ICONS } from '../constants';
+import {
+  DECK_SIZE, EMPTY_FILTER, HIGH_LEVEL, createDeckId, filterCards, resolveDeck, statTotal, validateDeck,
+  type CardFilter, type SavedDeck
+} from '../decks';
+import CardComponent from './CardComponent';
+import { useI18n } from './I18nProvider';
+
+const HIGH_LEVEL_LIMITS: (number | null)[] = [null, 1, 2, 3];
+const LEVEL_CAPS: (number | null)[] = [null, 20, 25, 30, 35, 40];
+
+const cycle = <T,>(values: T[], current: T): T => values[(values.indexOf(current) + 1) % values.length];
+
+const DeckBuilder: React.FC<{
+  pool: Card[];
+  constraints: DeckConstraints;
+  onConstraintsChange: (constraints: DeckConstraints) => void;
+  decks: SavedDeck[];
+  onDecksChange: (decks: SavedDeck[]) => void;
+  onBack: () => void;
+}> = ({ pool, constraints, onConstraintsChange, decks, onDecksChange, onBack }) => {
+  const tr = useI18n();
+  const { t } = tr;
+  const [filter, setFilter] = useState<CardFilter>(EMPTY_FILTER);
+  const [cardIds, setCardIds] = useState<number[]>([]);
+  const [name, setName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const visible = useMemo(() => filterCards(pool, filter, tr), [pool, filter, tr]);
+  const deckCards = cardIds.map(id => pool.find(c => c.id === id)).filter((c): c is Card => !!c);
+  const errors = validateDeck(deckCards, constraints, { tr });
+
+  const toggleIn = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+  const addCard = (id: number) => setCardIds(prev => prev.includes(id) || prev.length >= DECK_SIZE ? prev : [...prev, id]);
+  const removeCard = (id: number) => setCardIds(prev => prev.filter(c => c !== id));
+  const parseTotal = (value: string) => value === '' ? null : Math.max(0, Number(value));
+
+  const loadDeck = (deck: SavedDeck) => {
+    setEditingId(deck.id);
+    setName(deck.name);
+    setCardIds(resolveDeck(deck).map(c => c.id));
+  };
+
+  const resetDeck = () => {
+    setEditingId(null);
+    setName('');
+    setCardIds([]);
+  };
+
+  // 制限違反のデッキも保存はできる (対戦時の DECK_SELECT で選べなくなる)
+  const saveDeck = () => {
+    const deck: SavedDeck = { id: editingId || createDeckId(), name: name.trim(), cardIds };
+    onDecksChange(editingId ? decks.map(d => d.id === editingId ? deck : d) : [...decks, deck]);
+    setEditingId(deck.id);
+  };
+
+  const deleteDeck = (id: string) => {
+    onDecksChange(decks.filter(d => d.id !== id));
+    if (editingId === id) resetDeck();
+  };
+
+  return (
+    <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col p-2 lg:p-6 font-sans overflow-hidden safe-area">
+      <header className="flex justify-between items-center mb-2 lg:mb-4 border-b border-slate-900 pb-2 lg:pb-4 shrink-0">
+        <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white font-black uppercase text-xs"><ChevronLeft size={16} /> {t('common.title')}</button>
+        <h1 className="text-lg lg:text-3xl font-black italic uppercase tracking-tighter">{t('deckBuilder.title')} <span className="text-blue-500">{t('deckBuilder.titleAccent')}</span></h1>
+        <div className="text-[10px] font-black uppercase text-slate-500">{t('deckBuilder.count', { visible: visible.length, total: pool.length })}</div>
+      </header>
+
+      <div className="flex-1 min-h-0 flex flex-col lg:flex-row gap-4">
+        {/* Card Browser */}
+        <section className="flex-1 min-h-0 flex flex-col gap-3">
+          <div className="flex flex-wrap gap-2 items-center shrink-0">
+            <div className="flex items-center gap-2 bg-slate-900 border-2 border-slate-800 rounded-xl px-3 py-1.5">
+              <Search size={14} className="text-slate-500" />
+              <input value={filter.name} onChange={e => setFilter({ ...filter, name: e.target.value })} placeholder={t('deckBuilder.name')} className="bg-transparent outline-none text-xs font-bold w-28" />
+            </div>
+            <div className="flex items-center gap-1 text-[10px] font-black uppercase text-slate-500">
+              {t('deckBuilder.total')}
+              <input type="number" value={filter.minTotal ?? ''} onChange={e => setFilter({ ...filter, minTotal: parseTotal(e.target.value) })} placeholder={t('deckBuilder.min')} className="w-12 bg-slate-900 border-2 border-slate-800 rounded-lg px-1 py-1 text-white" />
+              -
+              <input type="number" value={filter.maxTotal ?? ''} onChange={e => setFilter({ ...filter, maxTotal: parseTotal(e.target.value) })} placeholder={t('deckBuilder.max')} className="w-12 bg-slate-900 border-2 border-slate-800 rounded-lg px-1 py-1 text-white" />
+            </div>
+            <button onClick={() => setFilter(EMPTY_FILTER)} className="text-[10px] font-black uppercase text-slate-500 hover:text-white">{t('deckBuilder.clear')}</button>
+          </div>
+          <div className="flex flex-wrap gap-1 shrink-0">
+            {Array.from({ length: 10 }, (_, i) => i + 1).map(lv => (
+              <button key={lv} onClick={() => setFilter({ ...filter, levels: toggleIn(filter.levels, lv) })} className={`w-8 h-7 rounded-lg border-2 text-[10px] font-black ${filter.levels.includes(lv) ? 'bg-blue-600 border-blue-400' : 'bg-slate-900 border-slate-800 text-slate-500'}`}>{lv}</button>
+            ))}
+            <span className="w-2" />
+            {[...ELEMENTS, null].map(attr => (
+              <button key={attr ?? 'none'} title={attr ? tr.elementName(attr) : t('common.none')} onClick={() => setFilter({ ...filter, attrs: toggleIn(filter.attrs, attr) })} className={`h-7 px-2 rounded-lg border-2 text-[10px] font-black ${filter.attrs.includes(attr) ? 'bg-emerald-600 border-emerald-400' : 'bg-slate-900 border-slate-800 text-slate-500'}`}>{attr ? ELEMENT_ICONS[attr] : t('common.none')}</button>
+            ))}
+          </div>
+          <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-4 sm:grid-cols-6 xl:grid-cols-8 gap-2 content-start pb-4">
+            {visible.map(card => (
+              <div key={card.id} className={`flex flex-col transition-opacity ${cardIds.includes(card.id) ? 'opacity-30' : ''}`}>
+                <CardComponent card={card} small isMobile={false} onClick={() => addCard(card.id)} />
+                <div className="flex justify-between text-[8px] sm:text-[10px] font-bold text-slate-500 font-mono px-1">
+                  <span className={card.level >= HIGH_LEVEL ? 'text-amber-400' : ''}>Lv.{card.level}</span>
+                  <span>Σ{statTotal(card)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Deck Editor */}
+        <aside className="lg:w-96 shrink-0 flex flex-col gap-3 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => onConstraintsChange({ ...constraints, maxHighLevel: cycle(HIGH_LEVEL_LIMITS, constraints.maxHighLevel) })} className="p-3 rounded-xl border-2 bg-slate-900 border-slate-800 text-left">
+              <div className="text-[9px] font-black uppercase text-slate-500">{t('deckBuilder.highLimit', { level: HIGH_LEVEL })}</div>
+              <div className="font-black italic uppercase">{constraints.maxHighLevel ?? t('common.any')}</div>
+            </button>
+            <button onClick={() => onConstraintsChange({ ...constraints, totalLevelCap: cycle(LEVEL_CAPS, constraints.totalLevelCap) })} className="p-3 rounded-xl border-2 bg-slate-900 border-slate-800 text-left">
+              <div className="text-[9px] font-black uppercase text-slate-500">{t('deckBuilder.levelCap')}</div>
+              <div className="font-black italic uppercase">{constraints.totalLevelCap ?? t('common.any')}</div>
+            </button>
+          </div>
+
+          <div className="grid grid-cols-5 gap-1.5">
+            {Array.from({ length: DECK_SIZE }, (_, i) => deckCards[i] ?? null).map((card, i) => (
+              <div key={card ? card.id : `empty-${i}`}>
+                <CardComponent card={card ? { ...card, owner: 'P1' } : null} small isMobile={false} onClick={card ? () => removeCard(card.id) : undefined} />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input value={name} onChange={e => setName(e.target.value)} placeholder={t('deckBuilder.deckName')} className="flex-1 bg-slate-900 border-2 border-slate-800 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:border-blue-500" />
+            <button onClick={saveDeck} disabled={!name.trim() || cardIds.length !== DECK_SIZE} className="px-4 rounded-xl bg-white text-slate-950 font-black uppercase text-xs flex items-center gap-1 disabled:opacity-30"><Save size={14} /> {t('deckBuilder.save')}</button>
+            <button onClick={resetDeck} className="px-3 rounded-xl border-2 border-slate-800 text-slate-400 font-black uppercase text-xs">{t('deckBuilder.new')}</button>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="space-y-1 bg-red-950/40 border-2 border-red-900/60 rounded-xl p-3">
+              {errors.map(err => <li key={err} className="flex items-center gap-2 text-[10px] font-bold text-red-300"><AlertTriangle size={12} className="shrink-0" /> {err}</li>)}
+            </ul>
+          )}
+
+          <div className="space-y-2">
+            <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2">{t('deckBuilder.saved')}</h3>
+            {decks.length === 0 && <div className="text-[10px] font-bold uppercase text-slate-600">{t('deckBuilder.noSaved')}</div>}
+            {decks.map(deck => {
+              const deckErrors = validateDeck(resolveDeck(deck), constraints, { pool, tr });
+              return (
+                <div key={deck.id} className={`flex items-center gap-2 p-2 rounded-xl border-2 ${editingId === deck.id ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800 bg-slate-900/50'}`}>
+                  <button onClick={() => loadDeck(deck)} className="flex-1 text-left">
+                    <div className="font-black italic uppercase text-sm truncate">{deck.name}</div>
+                    <div className={`text-[9px] font-bold uppercase ${deckErrors.length ? 'text-red-400' : 'text-slate-500'}`}>{deckErrors.length ? deckErrors[0] : resolveDeck(deck).map(c => `Lv${c.level}`).join(' / ')}</div>
+                  </button>
+                  <button onClick={() => deleteDeck(deck.id)} className="p-2 text-slate-600 hover:text-red-400"><Trash2 size={14} /></button>
+                </div>
+              );
+            })}
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default DeckBuilder;
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { ElementalConfig } from '../types';
+import { ELEMENTS, ELEMENT_ICONS, ELEMENT_LAYOUTS } from '../constants';
+import { useI18n } from './I18nProvider';
+
+const COUNTS: (number | null)[] = [null, 1, 2, 3, 4, 5, 6];
+const MAGNITUDES = [1, 2];
+const SPECIAL_TILES = [0, 1, 2];
+const MAX_WEIGHT = 3;
+
+const next = <T,>(items: T[], current: T): T => items[(items.indexOf(current) + 1) % items.length];
+
+// Elemental ルールの詳細設定。ボタンを押すたびに次の値へ切り替える
+const ElementalSettings: React.FC<{ config: ElementalConfig; onChange: (config: ElementalConfig) => void }> = ({ config, onChange }) => {
+  const { t, elementName } = useI18n();
+  const set = (patch: Partial<ElementalConfig>) => onChange({ ...config, ...patch });
+  const scatter = config.layout === 'SCATTER';
+
+  const options = [
+    { label: t('elemental.layout'), value: t(`elementLayout.${config.layout}`), onClick: () => set({ layout: next(ELEMENT_LAYOUTS, config.layout) }) },
+    { label: t('elemental.count'), value: config.count === null ? t('elemental.countRandom') : config.count, onClick: () => set({ count: next(COUNTS, config.count) }), disabled: !scatter },
+    { label: t('elemental.power'), value: `±${config.magnitude}`, onClick: () => set({ magnitude: next(MAGNITUDES, config.magnitude) }) },
+    { label: t('elemental.boost'), value: config.boostTiles, onClick: () => set({ boostTiles: next(SPECIAL_TILES, config.boostTiles) }) },
+    { label: t('elemental.locked'), value: config.lockedTiles, onClick: () => set({ lockedTiles: next(SPECIAL_TILES, config.lockedTiles) }) },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 p-3 rounded-xl border-2 border-emerald-900/60 bg-emerald-950/10">
+      <div className="grid grid-cols-5 gap-2">
+        {options.map(({ label, value, onClick, disabled }) => (
+          <button key={label} onClick={onClick} disabled={disabled} className="flex flex-col items-center p-1.5 rounded-lg border border-slate-800 bg-slate-900 hover:border-emerald-500 transition-all disabled:opacity-30">
+            <span className="text-[8px] sm:text-[9px] font-black uppercase text-slate-500 whitespace-nowrap">{label}</span>
+            <span className="text-[10px] sm:text-xs font-black uppercase text-emerald-300 whitespace-nowrap">{value}</span>
+          </button>
+        ))}
+      </div>
+      {/* 属性ごとの出やすさ (0〜3)。0 の属性は出ない */}
+      <div className="flex items-center gap-1" role="group" aria-label={t('elemental.weights')}>
+        <span className="text-[8px] sm:text-[9px] font-black uppercase text-slate-500 mr-1 whitespace-nowrap">{t('elemental.weights')}</span>
+        {ELEMENTS.map(element => {
+          const weight = config.weights[element] ?? 1;
+          return (
+            <button
+              key={element}
+              onClick={() => set({ weights: { ...config.weights, [element]: (weight + 1) % (MAX_WEIGHT + 1) } })}
+              aria-label={`${elementName(element)} ${weight}`}
+              className={`flex-1 flex flex-col items-center rounded-md border border-slate-800 bg-slate-900 py-0.5 transition-all ${weight === 0 ? 'opacity-30' : ''}`}
+            >
+              <span className="text-xs">{ELEMENT_ICONS[element]}</span>
+              <span className="text-[8px] font-black text-slate-400">×{weight}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ElementalSettings;
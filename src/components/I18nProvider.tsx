@@ -0,0 +1,25 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { EN, createTranslator, loadLocale, saveLocale, type Locale, type Translator } from '../i18n';
+
+interface I18nValue extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nValue>({ ...EN, setLocale: () => {} });
+
+// 言語はプレイヤーごとの表示設定なので、対戦の設定 (GameSettings) とは別に持つ
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => ({ ...createTranslator(locale), setLocale }), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
+
+export default I18nProvider;
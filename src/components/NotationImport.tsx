@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileInput } from 'lucide-react';
+import type { RoundLog } from '../history';
+import { parseNotation } from '../notation';
+import type { MessageKey } from '../i18n';
+import { useI18n } from './I18nProvider';
+
+// 貼り付けた棋譜 (または共有リンク) を読み込んでリプレイで開く
+const NotationImport: React.FC<{ onLoad: (log: RoundLog) => void }> = ({ onLoad }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () => {
+    const parsed = parseNotation(text);
+    if ('error' in parsed) setError(t(`notation.error.${parsed.error}` as MessageKey, { detail: parsed.detail ?? '' }));
+    else onLoad(parsed.log);
+  };
+
+  return (
+    <div className="flex flex-col gap-1 w-full max-w-md">
+      <div className="flex items-center gap-2 bg-slate-900 border-2 border-slate-800 rounded-xl px-3 py-2 focus-within:border-blue-500">
+        <FileInput size={14} className="text-slate-500 shrink-0" />
+        <input
+          value={text}
+          onChange={e => { setText(e.target.value); setError(null); }}
+          onKeyDown={e => { if (e.key === 'Enter') load(); }}
+          placeholder={t('notation.placeholder')}
+          aria-label={t('notation.import')}
+          className="min-w-0 flex-1 bg-transparent outline-none text-xs font-bold font-mono"
+        />
+        <button onClick={load} disabled={!text.trim()} className="px-3 py-1 rounded-lg bg-white text-slate-950 text-[10px] font-black uppercase disabled:opacity-30">{t('notation.load')}</button>
+      </div>
+      {error && <div className="flex items-center gap-2 text-[10px] font-bold text-red-400"><AlertTriangle size={12} className="shrink-0" /> {error}</div>}
+    </div>
+  );
+};
+
+export default NotationImport;
@@ -0,0 +1,42 @@
+import React, { useRef, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import type { RoundLog } from '../history';
+import { canWriteNotation, notationUrl, writeNotation } from '../notation';
+import { useI18n } from './I18nProvider';
+
+// リプレイ中のラウンドを棋譜とリンクで書き出す。クリップボードが使えない環境では欄を選択して手でコピーしてもらう
+const NotationShare: React.FC<{ log: RoundLog }> = ({ log }) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState<string | null>(null);
+  const inputs = useRef<Record<string, HTMLInputElement | null>>({});
+
+  if (!canWriteNotation(log)) {
+    return <p className="text-[10px] font-bold uppercase text-slate-500 text-center">{t('notation.unavailable')}</p>;
+  }
+
+  const fields = [
+    { key: 'text', label: t('notation.text'), value: writeNotation(log) },
+    { key: 'link', label: t('notation.link'), value: notationUrl(log) },
+  ];
+
+  const copy = (key: string, value: string) => {
+    inputs.current[key]?.select();
+    navigator.clipboard.writeText(value).then(() => setCopied(key)).catch(() => setCopied(null));
+  };
+
+  return (
+    <div className="flex flex-col gap-2 w-full max-w-xl p-3 rounded-xl border-2 border-slate-800 bg-slate-900/60">
+      {fields.map(({ key, label, value }) => (
+        <div key={key} className="flex items-center gap-2">
+          <span className="w-12 shrink-0 text-[9px] font-black uppercase text-slate-500">{label}</span>
+          <input ref={el => { inputs.current[key] = el; }} readOnly value={value} onFocus={e => e.target.select()} aria-label={label} className="min-w-0 flex-1 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-300 outline-none focus:border-blue-500" />
+          <button onClick={() => copy(key, value)} className="flex items-center gap-1 px-2 py-1 rounded-lg border border-slate-700 text-[9px] font-black uppercase text-slate-300 hover:text-white hover:border-blue-500 transition-colors">
+            {copied === key ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />} {copied === key ? t('notation.copied') : t('notation.copy')}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NotationShare;
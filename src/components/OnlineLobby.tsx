@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { ChevronLeft, Globe, Loader2, LogOut, Play, Wifi, WifiOff } from 'lucide-react';
+import { defaultRelayUrl, type OnlineSession, type RelayStatus } from '../online';
+import { useI18n } from './I18nProvider';
+
+const OnlineLobby: React.FC<{
+  session: OnlineSession | null;
+  status: RelayStatus;
+  peerConnected: boolean;
+  error: string | null;
+  onCreate: (url: string) => void;
+  onJoin: (url: string, room: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+}> = ({ session, status, peerConnected, error, onCreate, onJoin, onStart, onLeave }) => {
+  const { t } = useI18n();
+  const [url, setUrl] = useState(defaultRelayUrl);
+  const [code, setCode] = useState('');
+  const busy = status === 'connecting' || status === 'reconnecting';
+
+  return (
+    <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col items-center justify-center p-6 font-sans overflow-hidden safe-area">
+      <div className="w-full max-w-md space-y-6">
+        <button onClick={onLeave} className="flex items-center gap-1 text-slate-400 hover:text-white font-black uppercase text-xs"><ChevronLeft size={16} /> {t('common.title')}</button>
+        <h2 className="text-4xl sm:text-5xl font-black italic uppercase tracking-tighter flex items-center gap-3"><Globe className="text-emerald-400" size={36} /> {t('online.title')} <span className="text-emerald-400">{t('online.titleAccent')}</span></h2>
+
+        <div className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-500">
+          {busy ? <Loader2 size={14} className="animate-spin" /> : status === 'open' ? <Wifi size={14} className="text-emerald-400" /> : <WifiOff size={14} />}
+          {t(`online.status.${status}`)}
+        </div>
+
+        {!session ? (
+          <div className="space-y-3">
+            <input value={url} onChange={e => setUrl(e.target.value)} placeholder={t('online.relayUrl')} className="w-full bg-slate-900 border-2 border-slate-800 rounded-xl px-3 py-2 text-xs font-bold font-mono outline-none focus:border-emerald-500" />
+            <button onClick={() => onCreate(url)} disabled={busy} className="w-full py-4 rounded-2xl bg-emerald-600 border-2 border-emerald-400 font-black italic uppercase disabled:opacity-30">{t('online.create')}</button>
+            <div className="flex gap-2">
+              <input value={code} onChange={e => setCode(e.target.value.toUpperCase())} placeholder={t('online.roomCode')} maxLength={5} className="flex-1 bg-slate-900 border-2 border-slate-800 rounded-xl px-3 py-2 text-lg font-black font-mono tracking-[0.3em] outline-none focus:border-emerald-500" />
+              <button onClick={() => onJoin(url, code)} disabled={busy || code.length !== 5} className="px-6 rounded-xl bg-white text-slate-950 font-black uppercase text-sm disabled:opacity-30">{t('online.join')}</button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="p-6 rounded-2xl border-2 border-slate-800 bg-slate-900/50 text-center">
+              <div className="text-[10px] font-black uppercase text-slate-500">{t('online.roomCodeLabel')}</div>
+              <div className="text-5xl font-black font-mono tracking-[0.3em] select-all">{session.room}</div>
+              <div className={`mt-2 text-[10px] font-black uppercase ${session.seat === 'P1' ? 'text-blue-400' : 'text-red-400'}`}>{t('online.youAre', { player: t(session.seat === 'P1' ? 'common.player1' : 'common.player2') })}</div>
+            </div>
+            <div className={`flex items-center gap-2 text-xs font-black uppercase ${peerConnected ? 'text-emerald-400' : 'text-slate-500'}`}>
+              <span className={`w-2 h-2 rounded-full ${peerConnected ? 'bg-emerald-400' : 'bg-slate-600 animate-pulse'}`} />
+              {peerConnected ? t('online.peerConnected') : t('online.waiting')}
+            </div>
+            <p className="text-[10px] font-bold uppercase text-slate-500">{t('online.hint')}</p>
+            <button onClick={onStart} disabled={!peerConnected || status !== 'open'} className="w-full py-4 rounded-2xl bg-white text-slate-950 font-black italic uppercase text-xl flex items-center justify-center gap-2 disabled:opacity-30"><Play size={20} /> {t('online.start')}</button>
+            <button onClick={onLeave} className="w-full flex items-center justify-center gap-2 text-slate-500 hover:text-white font-black uppercase text-xs"><LogOut size={14} /> {t('online.leave')}</button>
+          </div>
+        )}
+
+        {error && <div className="p-3 rounded-xl border-2 border-red-900/60 bg-red-950/40 text-[10px] font-bold uppercase text-red-300">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default OnlineLobby;
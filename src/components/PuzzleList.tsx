@@ -0,0 +1,66 @@
+import React from 'react';
+import { CheckCircle2, ChevronLeft, Puzzle as PuzzleIcon, Target } from 'lucide-react';
+import type { RuleToggleKey } from '../types';
+import { ELEMENT_ICONS } from '../constants';
+import { PUZZLES, describeGoal, type Puzzle, type PuzzleProgress } from '../puzzle';
+import { useI18n } from './I18nProvider';
+
+const OWNER_CLASSES = { P1: 'bg-blue-600', P2: 'bg-red-600' } as const;
+
+// 開始局面の縮図: 色が持ち主、空きマスには属性のアイコンを出す
+const BoardPreview: React.FC<{ puzzle: Puzzle }> = ({ puzzle }) => (
+  <div className="grid grid-cols-3 gap-0.5 w-14 shrink-0" aria-hidden="true">
+    {puzzle.board.map((tile, i) => (
+      <div key={i} className={`aspect-square rounded-sm flex items-center justify-center text-[8px] ${tile.card !== undefined ? OWNER_CLASSES[tile.owner ?? 'P2'] : 'bg-slate-800'}`}>
+        {tile.card === undefined && tile.element ? ELEMENT_ICONS[tile.element] : ''}
+      </div>
+    ))}
+  </div>
+);
+
+const PuzzleList: React.FC<{ progress: PuzzleProgress; onStart: (puzzle: Puzzle) => void; onBack: () => void }> = ({ progress, onStart, onBack }) => {
+  const tr = useI18n();
+  const { t } = tr;
+  const solved = PUZZLES.filter(p => progress.solved.includes(p.id)).length;
+
+  return (
+    <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col p-2 lg:p-6 font-sans overflow-hidden safe-area">
+      <header className="flex justify-between items-center mb-2 lg:mb-4 border-b border-slate-900 pb-2 lg:pb-4 shrink-0">
+        <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white font-black uppercase text-xs"><ChevronLeft size={16} /> {t('common.title')}</button>
+        <h1 className="text-lg lg:text-3xl font-black italic uppercase tracking-tighter">{t('puzzle.title')} <span className="text-blue-500">{t('puzzle.titleAccent')}</span></h1>
+        <div className="text-[10px] font-black uppercase text-slate-500">{t('puzzle.progress', { solved, total: PUZZLES.length })}</div>
+      </header>
+
+      <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-3 lg:gap-4 content-start pb-6">
+        {PUZZLES.map((puzzle, i) => {
+          const done = progress.solved.includes(puzzle.id);
+          const rules = (Object.keys(puzzle.rules) as RuleToggleKey[]).filter(key => puzzle.rules[key]);
+          const empty = puzzle.board.filter(tile => tile.card === undefined).length;
+          return (
+            <div key={puzzle.id} className={`flex flex-col gap-3 p-4 rounded-2xl border-2 ${done ? 'border-emerald-700/60 bg-emerald-950/20' : 'border-slate-700 bg-slate-900/60'}`}>
+              <div className="flex justify-between items-start gap-3">
+                <BoardPreview puzzle={puzzle} />
+                <div className="min-w-0 flex-1">
+                  <div className="text-[10px] font-black uppercase text-slate-500">{String(i + 1).padStart(2, '0')} · {t('puzzle.emptyTiles', { count: empty })}</div>
+                  <div className="font-black italic uppercase text-lg leading-tight truncate">{tr.localized(puzzle.name)}</div>
+                </div>
+                {done && <CheckCircle2 size={20} className="text-emerald-400 shrink-0" aria-label={t('puzzle.solved')} />}
+              </div>
+              <div className="flex items-center gap-2 text-xs font-black uppercase text-amber-300"><Target size={14} /> {describeGoal(puzzle.goal, tr)}</div>
+              {puzzle.description && <p className="text-xs font-bold text-slate-400">{tr.localized(puzzle.description)}</p>}
+              <div className="flex flex-wrap gap-1">
+                {rules.length === 0 && <span className="px-2 py-0.5 rounded-full border border-slate-700 text-[9px] font-black uppercase text-slate-500">{t('campaign.noRules')}</span>}
+                {rules.map(key => <span key={key} className="px-2 py-0.5 rounded-full border border-slate-700 text-[9px] font-black uppercase text-slate-300">{t(`rule.${key}`)}</span>)}
+              </div>
+              <button onClick={() => onStart(puzzle)} className="mt-auto w-full py-3 rounded-xl bg-white text-slate-950 font-black italic uppercase flex items-center justify-center gap-2 hover:bg-slate-100 transition-all active:scale-95 outline-none focus-visible:ring-4 focus-visible:ring-cyan-300">
+                <PuzzleIcon size={16} /> {t('puzzle.play')}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleList;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import type { SeriesFormat } from '../types';
+import { SERIES_LENGTHS, SERIES_TYPES, withSeriesType } from '../series';
+import { useI18n } from './I18nProvider';
+
+// シリーズの形式・長さ・引き分けの扱い。ボタンを押すたびに次の値へ切り替える
+const SeriesSettings: React.FC<{ format: SeriesFormat; onChange: (format: SeriesFormat) => void }> = ({ format, onChange }) => {
+  const { t } = useI18n();
+  const lengths = SERIES_LENGTHS[format.type];
+
+  const options = [
+    { label: t('series.format'), value: t(`seriesType.${format.type}`), onClick: () => onChange(withSeriesType(format, SERIES_TYPES[(SERIES_TYPES.indexOf(format.type) + 1) % SERIES_TYPES.length])) },
+    { label: t(format.type === 'FIRST_TO' ? 'series.wins' : 'series.rounds'), value: format.type === 'SINGLE' ? '—' : format.length, onClick: () => onChange({ ...format, length: lengths[(lengths.indexOf(format.length) + 1) % lengths.length] }), disabled: lengths.length < 2 },
+    { label: t('series.draws'), value: t(format.countDraws ? 'series.drawsCount' : 'series.drawsReplay'), onClick: () => onChange({ ...format, countDraws: !format.countDraws }) },
+  ];
+
+  return (
+    <div className="flex items-center gap-2">
+      <Trophy size={18} className="text-yellow-500 shrink-0" />
+      <div className="flex-1 grid grid-cols-3 gap-2">
+        {options.map(({ label, value, onClick, disabled }) => (
+          <button key={label} onClick={onClick} disabled={disabled} className="flex flex-col items-center p-1.5 rounded-lg border border-slate-800 bg-slate-900 hover:border-yellow-500 transition-all disabled:opacity-30">
+            <span className="text-[8px] sm:text-[9px] font-black uppercase text-slate-500 whitespace-nowrap">{label}</span>
+            <span className="text-[10px] sm:text-xs font-black uppercase text-yellow-300 whitespace-nowrap">{value}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesSettings;
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, Flame, Trash2, Trophy } from 'lucide-react';
+import { CARD_DATA } from '../constants';
+import {
+  ruleSetLabel, seriesOutcome, summarizeStats, winPercent,
+  type CardStat, type SeriesRecord, type WinRate
+} from '../stats';
+import CardComponent from './CardComponent';
+import { useI18n } from './I18nProvider';
+
+const DIFFICULTIES = ['LOW', 'MID', 'HIGH', 'EXPERT'] as const;
+const OUTCOME_CLASSES = { WIN: 'text-blue-400', LOSS: 'text-red-400', DRAW: 'text-slate-400' } as const;
+
+const cardById = (id: number) => CARD_DATA.find(c => c.id === id);
+
+const RateBar: React.FC<{ label: string; rate: WinRate }> = ({ label, rate }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-[10px] font-black uppercase">
+      <span className="truncate">{label}</span>
+      <span className="text-slate-500 tabular-nums">{rate.played ? `${winPercent(rate)}% · ${rate.wins}-${rate.losses}` : '—'}</span>
+    </div>
+    <div className="h-2 rounded-full bg-slate-800 overflow-hidden">
+      <div className="h-full bg-blue-500" style={{ width: `${winPercent(rate)}%` }} />
+    </div>
+  </div>
+);
+
+const CardRanking: React.FC<{ title: string; cards: CardStat[] }> = ({ title, cards }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-2">
+      <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2">{title}</h3>
+      {cards.length === 0 && <div className="text-[10px] font-bold uppercase text-slate-600">{t('stats.notEnough')}</div>}
+      <div className="grid grid-cols-5 gap-2">
+        {cards.map(stat => (
+          <div key={stat.cardId} className="flex flex-col gap-1">
+            <CardComponent card={cardById(stat.cardId) ?? null} small isMobile={false} />
+            <div className="text-[9px] font-bold text-slate-500 font-mono text-center">{stat.rounds}R · {Math.round((stat.wins / stat.rounds) * 100)}%</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SeriesDetail: React.FC<{ record: SeriesRecord }> = ({ record }) => {
+  const tr = useI18n();
+  const { t } = tr;
+  return (
+    <div className="space-y-3">
+      <div className="text-[10px] font-bold uppercase text-slate-500">
+        {t(`stats.mode.${record.mode}`)} · {record.mode === 'CPU' ? `${t(`difficulty.${record.settings.cpuDifficulty}`)} · ` : ''}{ruleSetLabel(record.settings)} · {t('stats.seed')} <span className="font-mono select-all">{record.seed}</span>
+      </div>
+      {record.rounds.map((r, i) => (
+        <div key={i} className="p-3 rounded-xl border-2 border-slate-800 bg-slate-900/50 space-y-2">
+          <div className="flex justify-between items-center text-xs font-black uppercase">
+            <span>{t('common.round', { round: r.round })}{r.suddenDeath ? ` · ${t('stats.suddenDeath')}` : ''}</span>
+            <span className={r.winner === 'DRAW' ? 'text-slate-400' : r.winner === record.seat ? 'text-blue-400' : 'text-red-400'}>{r.winner} · {r.scores[0]}-{r.scores[1]}</span>
+          </div>
+          <div className="text-[9px] font-bold uppercase text-slate-500">{t('stats.triggers', { same: r.triggers.SAME, plus: r.triggers.PLUS, combo: r.triggers.COMBO })}</div>
+          {(['P1', 'P2'] as const).map(seat => (
+            <div key={seat} className={`text-[10px] font-bold truncate ${seat === 'P1' ? 'text-blue-300' : 'text-red-300'}`}>
+              {seat}: {r.decks[seat].map(id => { const card = cardById(id); return card ? tr.cardName(card) : '?'; }).join(', ')}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StatsDashboard: React.FC<{ series: SeriesRecord[]; onClear: () => void; onBack: () => void }> = ({ series, onClear, onBack }) => {
+  const { t } = useI18n();
+  const summary = useMemo(() => summarizeStats(series), [series]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const opened = series.find(s => s.id === openId);
+
+  return (
+    <div className="w-full h-[100dvh] bg-slate-950 text-white flex flex-col p-2 lg:p-6 font-sans overflow-hidden safe-area">
+      <header className="flex justify-between items-center mb-2 lg:mb-4 border-b border-slate-900 pb-2 lg:pb-4 shrink-0">
+        <button onClick={onBack} className="flex items-center gap-1 text-slate-400 hover:text-white font-black uppercase text-xs"><ChevronLeft size={16} /> {t('common.title')}</button>
+        <h1 className="text-lg lg:text-3xl font-black italic uppercase tracking-tighter">{t('stats.title')} <span className="text-blue-500">{t('stats.titleAccent')}</span></h1>
+        <button onClick={() => window.confirm(t('stats.confirmReset')) && onClear()} className="flex items-center gap-1 text-slate-600 hover:text-red-400 font-black uppercase text-[10px]"><Trash2 size={14} /> {t('stats.reset')}</button>
+      </header>
+
+      <div className="flex-1 min-h-0 overflow-y-auto grid grid-cols-1 lg:grid-cols-3 gap-4 lg:gap-8 content-start pb-6">
+        <section className="space-y-6">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="p-3 rounded-xl border-2 border-slate-800 bg-slate-900/50 text-center">
+              <Trophy size={16} className="mx-auto text-yellow-500" />
+              <div className="text-2xl font-black italic">{winPercent(summary.overall)}%</div>
+              <div className="text-[9px] font-black uppercase text-slate-500">{t('stats.series', { count: summary.overall.played })}</div>
+            </div>
+            <div className="p-3 rounded-xl border-2 border-slate-800 bg-slate-900/50 text-center">
+              <Flame size={16} className={`mx-auto ${summary.currentStreak >= 0 ? 'text-orange-400' : 'text-slate-500'}`} />
+              <div className="text-2xl font-black italic">{summary.currentStreak > 0 ? `+${summary.currentStreak}` : summary.currentStreak}</div>
+              <div className="text-[9px] font-black uppercase text-slate-500">{t('stats.streak')}</div>
+            </div>
+            <div className="p-3 rounded-xl border-2 border-slate-800 bg-slate-900/50 text-center">
+              <Flame size={16} className="mx-auto text-amber-300" />
+              <div className="text-2xl font-black italic">{summary.bestStreak}</div>
+              <div className="text-[9px] font-black uppercase text-slate-500">{t('stats.best')}</div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2">{t('stats.vsCpu')}</h3>
+            {DIFFICULTIES.map(d => (
+              <RateBar key={d} label={t(`difficulty.${d}`)} rate={summary.byDifficulty[d]} />
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2">{t('stats.byRules')}</h3>
+            {summary.byRuleSet.length === 0 && <div className="text-[10px] font-bold uppercase text-slate-600">{t('stats.noFinished')}</div>}
+            {summary.byRuleSet.map(({ label, rate }) => <RateBar key={label} label={label} rate={rate} />)}
+          </div>
+        </section>
+
+        <section className="space-y-6">
+          <CardRanking title={t('stats.mostUsed')} cards={summary.mostUsed} />
+          <CardRanking title={t('stats.bestCards')} cards={summary.bestCards} />
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-slate-500 font-bold uppercase text-xs border-b border-slate-900 pb-2">{t('stats.recent')}</h3>
+          {series.length === 0 && <div className="text-[10px] font-bold uppercase text-slate-600">{t('stats.noMatches')}</div>}
+          {series.slice(0, 30).map(record => {
+            const outcome = seriesOutcome(record);
+            return (
+              <div key={record.id} className={`rounded-xl border-2 ${openId === record.id ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800 bg-slate-900/50'}`}>
+                <button onClick={() => setOpenId(openId === record.id ? null : record.id)} className="w-full flex items-center justify-between p-3 text-left">
+                  <div>
+                    <div className={`font-black italic uppercase text-sm ${outcome ? OUTCOME_CLASSES[outcome] : 'text-slate-500'}`}>{outcome ? t(`stats.outcome.${outcome}`) : t('stats.unfinished')}</div>
+                    <div className="text-[9px] font-bold uppercase text-slate-500">{new Date(record.playedAt).toLocaleString()} · {record.mode === 'CPU' ? t(`difficulty.${record.settings.cpuDifficulty}`) : t(`stats.mode.${record.mode}`)}</div>
+                  </div>
+                  <div className="text-lg font-black italic tabular-nums">
+                    {record.rounds.filter(r => r.winner === record.seat).length}-{record.rounds.filter(r => r.winner !== record.seat && r.winner !== 'DRAW').length}
+                  </div>
+                </button>
+                {opened?.id === record.id && <div className="px-3 pb-3"><SeriesDetail record={record} /></div>}
+              </div>
+            );
+          })}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,24 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { applyUpdate, isUpdateWaiting, onUpdateAvailable } from '../pwa';
+import { useI18n } from './I18nProvider';
+
+// 新しい版が届いたら画面の下に出す。閉じても次に開いたときに切り替わる
+const UpdatePrompt: React.FC = () => {
+  const { t } = useI18n();
+  const [available, setAvailable] = useState(isUpdateWaiting);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => onUpdateAvailable(() => setAvailable(true)), []);
+
+  if (!available || dismissed) return null;
+  return (
+    <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[200] flex items-center gap-3 px-4 py-3 rounded-2xl border-2 border-blue-500 bg-slate-900/95 text-white shadow-2xl safe-area">
+      <span className="text-xs font-black uppercase">{t('pwa.updateAvailable')}</span>
+      <button onClick={applyUpdate} className="flex items-center gap-1 px-3 py-1.5 rounded-xl bg-white text-slate-950 text-[10px] font-black uppercase hover:bg-slate-100 transition-all active:scale-95"><RefreshCw size={12} /> {t('pwa.reload')}</button>
+      <button onClick={() => setDismissed(true)} aria-label={t('pwa.dismiss')} className="p-1 text-slate-500 hover:text-white transition-colors"><X size={14} /></button>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
@@ -0,0 +1,55 @@
+import type { BoardShape, Card, ElementalConfig, ElementLayout, GameSettings, RuleToggleKey, SeriesFormat } from './types';
+import { DEFAULT_PERSONALITY } from './personalities';
+// カードデータを外部ファイルからインポート
+import CARD_DATA_RAW from './data/cards.json';
+
+// 属性は言語に依存しない ID で持つ。表示名は i18n のバンドル (element.*) にある
+export const ELEMENTS = ['fire', 'ice', 'thunder', 'earth', 'wind', 'water', 'poison', 'holy'];
+export const ELEMENT_ICONS: Record<string, string> = {
+  fire: '🔥', ice: '❄️', thunder: '⚡', earth: '🌍', wind: '🌪️', water: '💧', poison: '💀', holy: '✨'
+};
+// 以前は漢字 1 文字を ID にしていた。古いセーブの読み込みで使う
+export const LEGACY_ELEMENT_IDS: Record<string, string> = {
+  '火': 'fire', '冷': 'ice', '雷': 'thunder', '地': 'earth', '風': 'wind', '水': 'water', '毒': 'poison', '聖': 'holy'
+};
+
+export const BUILT_IN_CARDS = CARD_DATA_RAW as Card[];
+// 遊ぶカードのデータベース。カスタムカードセット (cardSets.ts) を選んでいれば起動時に差し替わる
+export let CARD_DATA: Card[] = BUILT_IN_CARDS;
+/** 画面を描く前 (起動時) に一度だけ呼ぶ。途中で変えると保存済みのデッキや進行中のシリーズと食い違う */
+export const setCardData = (cards: Card[]) => { CARD_DATA = cards; };
+
+export const CLASSIC_BOARD: BoardShape = { cols: 3, rows: 3, blocked: [] };
+
+// タイトルで選べる盤面 (表示名は i18n の boardLayout.*)。3x3 以外は上級者向けの変則ルール
+export const BOARD_LAYOUTS: { id: string; shape: BoardShape }[] = [
+  { id: 'classic', shape: CLASSIC_BOARD },
+  { id: 'grand', shape: { cols: 4, rows: 4, blocked: [] } },
+  { id: 'wide', shape: { cols: 5, rows: 3, blocked: [] } },
+  { id: 'pillars', shape: { cols: 4, rows: 4, blocked: [5, 10] } },
+  { id: 'ring', shape: { cols: 3, rows: 3, blocked: [4] } },
+];
+
+// 表示名は i18n のバンドル (elementLayout.*) にある
+export const ELEMENT_LAYOUTS: ElementLayout[] = ['SCATTER', 'CORNERS', 'CENTER', 'CROSS', 'EDGES'];
+
+export const CLASSIC_ELEMENTAL: ElementalConfig = { layout: 'SCATTER', count: null, weights: {}, magnitude: 1, boostTiles: 0, lockedTiles: 0 };
+
+export const BEST_OF_THREE: SeriesFormat = { type: 'BEST_OF', length: 3, countDraws: true };
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  elementalEnabled: true, sameEnabled: true, plusEnabled: true,
+  openEnabled: true, randomEnabled: false, suddenDeathEnabled: false,
+  sameWallEnabled: false, plusWallEnabled: false, reverseEnabled: false, fallenAceEnabled: false,
+  cpuDifficulty: 'MID', cpuPersonality: DEFAULT_PERSONALITY, pvpMode: false, collectionMode: false, tradeRule: 'NONE',
+  deckConstraints: { maxHighLevel: null, totalLevelCap: null },
+  boardShape: CLASSIC_BOARD,
+  elementalConfig: CLASSIC_ELEMENTAL,
+  seriesFormat: BEST_OF_THREE,
+};
+
+export const RULE_KEYS = (Object.keys(DEFAULT_SETTINGS) as (keyof GameSettings)[]).filter((k): k is RuleToggleKey => k.endsWith('Enabled'));
+
+/** データファイルで指定したルールだけを有効にする (書かれていないルールは無効) */
+export const withRules = (base: GameSettings, rules: Partial<Record<RuleToggleKey, boolean>>): GameSettings =>
+  ({ ...base, ...Object.fromEntries(RULE_KEYS.map(key => [key, !!rules[key]])) });
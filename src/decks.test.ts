@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Card } from './types';
+import { BOARD_LAYOUTS, BUILT_IN_CARDS, CARD_DATA, DEFAULT_SETTINGS, setCardData } from './constants';
+import { MIN_SET_SIZE, validateCardSet } from './cardSets';
+import { handSize } from './engine';
+import { EN } from './i18n';
+import { generateDeck, generateValidDeck } from './decks';
+import { createRng } from './rng';
+
+const GRAND = BOARD_LAYOUTS.find(l => l.id === 'grand')!.shape;
+const NO_CONSTRAINTS = DEFAULT_SETTINGS.deckConstraints;
+
+// 同梱のカードと ID が重ならないカスタムセット
+const customSet = (count: number): Card[] => BUILT_IN_CARDS.slice(0, count).map((c, i) => ({ ...c, id: 1000 + i }));
+
+/** App と同じく P1 の手札を配ってから、その ID を除いて P2 の手札を配る */
+function dealHands(seed: string, size: number) {
+  const rng = createRng(seed);
+  const P1 = generateValidDeck(NO_CONSTRAINTS, rng, undefined, CARD_DATA, size);
+  const P2 = generateValidDeck(NO_CONSTRAINTS, rng, new Set(P1.map(c => c.id)), CARD_DATA, size);
+  return { P1, P2 };
+}
+
+const sharedIds = (a: Card[], b: Card[]) => a.filter(c => b.some(d => d.id === c.id));
+
+afterEach(() => { setCardData(BUILT_IN_CARDS); });
+
+describe('card sets on larger boards', () => {
+  it('requires enough cards for two hands on the largest board', () => {
+    expect(MIN_SET_SIZE).toBe(2 * handSize(GRAND));
+    const { errors } = validateCardSet({ name: 'small', entries: customSet(10), images: {} });
+    expect(errors).toEqual([EN.t('cardSetError.tooFew', { min: MIN_SET_SIZE, count: 10 })]);
+  });
+
+  it('never deals the same card to both hands, even from a 10-card set on grand', () => {
+    setCardData(customSet(10));
+    for (let i = 0; i < 20; i++) {
+      const { P1, P2 } = dealHands(`small:${i}`, handSize(GRAND));
+      expect(P1).toHaveLength(handSize(GRAND));
+      expect(sharedIds(P1, P2)).toEqual([]);
+    }
+  });
+
+  it('deals two full hands on every board from the smallest allowed set', () => {
+    setCardData(customSet(MIN_SET_SIZE));
+    BOARD_LAYOUTS.forEach(({ shape }) => {
+      const { P1, P2 } = dealHands('minimum', handSize(shape));
+      expect(P1).toHaveLength(handSize(shape));
+      expect(P2).toHaveLength(handSize(shape));
+      expect(sharedIds(P1, P2)).toEqual([]);
+    });
+  });
+});
+
+describe('generateDeck', () => {
+  it('fills a short pool from the other cards without using the excluded ones', () => {
+    const themed = CARD_DATA.slice(0, 6);
+    const excludeIds = new Set(themed.slice(0, 3).map(c => c.id));
+    for (let i = 0; i < 20; i++) {
+      const deck = generateDeck(createRng(`short:${i}`), excludeIds, themed);
+      expect(deck).toHaveLength(5);
+      expect(deck.filter(c => excludeIds.has(c.id))).toEqual([]);
+      expect(new Set(deck.map(c => c.id)).size).toBe(5);
+      // 条件に合う残りのカードは必ず使う
+      themed.slice(3).forEach(c => expect(deck.map(d => d.id)).toContain(c.id));
+    }
+  });
+});
@@ -0,0 +1,119 @@
+// --- Saved Decks & Deck Constraints ---
+// デッキビルダーで組んだデッキの保存と、デッキ制限 (高レベルカードの枚数・レベル合計) の検証
+import type { Card, DeckConstraints } from './types';
+import { CARD_DATA } from './constants';
+import type { Rng } from './rng';
+import { EN, type Translator } from './i18n';
+
+export interface SavedDeck {
+  id: string;
+  name: string;
+  cardIds: number[];
+}
+
+export interface CardFilter {
+  name: string;
+  levels: number[]; // 空なら全レベル
+  attrs: (string | null)[]; // 空なら全属性。null は無属性
+  minTotal: number | null;
+  maxTotal: number | null;
+}
+
+export const DECK_SIZE = 5;
+export const HIGH_LEVEL = 8;
+
+const STORAGE_KEY = 'triple-triad-decks';
+
+export const EMPTY_FILTER: CardFilter = { name: '', levels: [], attrs: [], minTotal: null, maxTotal: null };
+
+export const statTotal = (card: Card): number => card.stats.reduce((a, b) => a + b, 0);
+
+// 名前は表示中の言語と元の名前 (cards.json) のどちらでも検索できる
+export function filterCards(cards: Card[], filter: CardFilter, tr: Translator = EN): Card[] {
+  const name = filter.name.trim().toLowerCase();
+  return cards.filter(c =>
+    (!name || c.name.toLowerCase().includes(name) || tr.cardName(c).toLowerCase().includes(name)) &&
+    (filter.levels.length === 0 || filter.levels.includes(c.level)) &&
+    (filter.attrs.length === 0 || filter.attrs.includes(c.attr)) &&
+    (filter.minTotal === null || statTotal(c) >= filter.minTotal) &&
+    (filter.maxTotal === null || statTotal(c) <= filter.maxTotal)
+  );
+}
+
+/** デッキが制限に違反している理由の一覧。空なら使用可能。size は盤面に合わせた手札の枚数 */
+export function validateDeck(cards: Card[], constraints: DeckConstraints, options: { pool?: Card[]; excludeIds?: Set<number>; tr?: Translator; size?: number } = {}): string[] {
+  const { t, cardName } = options.tr ?? EN;
+  const size = options.size ?? DECK_SIZE;
+  const errors: string[] = [];
+  if (cards.length !== size) errors.push(t('deckError.size', { size, count: cards.length }));
+
+  const seen = new Set<number>();
+  cards.forEach(c => {
+    if (seen.has(c.id)) errors.push(t('deckError.duplicate', { card: cardName(c) }));
+    seen.add(c.id);
+  });
+
+  const highLevel = cards.filter(c => c.level >= HIGH_LEVEL).length;
+  if (constraints.maxHighLevel !== null && highLevel > constraints.maxHighLevel) {
+    errors.push(t('deckError.highLevel', { max: constraints.maxHighLevel, level: HIGH_LEVEL, count: highLevel }));
+  }
+  const totalLevel = cards.reduce((a, c) => a + c.level, 0);
+  if (constraints.totalLevelCap !== null && totalLevel > constraints.totalLevelCap) {
+    errors.push(t('deckError.levelCap', { total: totalLevel, cap: constraints.totalLevelCap }));
+  }
+
+  if (options.pool) {
+    const owned = new Set(options.pool.map(c => c.id));
+    cards.filter(c => !owned.has(c.id)).forEach(c => errors.push(t('deckError.notOwned', { card: cardName(c) })));
+  }
+  if (options.excludeIds) {
+    cards.filter(c => options.excludeIds!.has(c.id)).forEach(c => errors.push(t('deckError.usedByP1', { card: cardName(c) })));
+  }
+  return errors;
+}
+
+export const resolveDeck = (deck: SavedDeck): Card[] =>
+  deck.cardIds.map(id => CARD_DATA.find(c => c.id === id)).filter((c): c is Card => !!c);
+
+// cards が足りないときは CARD_DATA の残りで補う。excludeIds (相手の手札) とは重ねない
+export function generateDeck(rng: Rng, excludeIds?: Set<number>, cards: Card[] = CARD_DATA, size = DECK_SIZE): Card[] {
+  const pool = excludeIds 
+    ? cards.filter(c => !excludeIds.has(c.id)) 
+    : [...cards];
+  
+  const poolIds = new Set(pool.map(c => c.id));
+  const extra = pool.length >= size ? [] : rng.shuffle(CARD_DATA.filter(c => !poolIds.has(c.id) && !excludeIds?.has(c.id)));
+  return [...rng.shuffle(pool), ...extra].slice(0, size).map(c => ({ ...c }));
+}
+
+// デッキ制限を満たすまで引き直す (満たせない場合は最後の候補を返す)
+export function generateValidDeck(constraints: DeckConstraints, rng: Rng, excludeIds?: Set<number>, cards: Card[] = CARD_DATA, size = DECK_SIZE): Card[] {
+  let deck = generateDeck(rng, excludeIds, cards, size);
+  for (let i = 0; i < 50 && validateDeck(deck, constraints, { size }).length > 0; i++) deck = generateDeck(rng, excludeIds, cards, size);
+  return deck;
+}
+
+export const createDeckId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// --- Storage ---
+
+export function loadDecks(): SavedDeck[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as { version: number; decks: SavedDeck[] };
+      if (parsed.version === 1 && Array.isArray(parsed.decks)) return parsed.decks;
+    }
+  } catch {
+    // 壊れたデータは無視して空から始める
+  }
+  return [];
+}
+
+export function saveDecks(decks: SavedDeck[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, decks }));
+  } catch {
+    // 保存できない環境ではメモリ上だけで続ける
+  }
+}
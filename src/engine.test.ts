@@ -0,0 +1,375 @@
+import { describe, expect, it } from 'vitest';
+import type { BoardShape, BoardTile, Card, ElementalConfig, GameSettings, PlayerType } from './types';
+import { applyMove, calculateStats, cellCount, createBoard, getLegalMoves, getNeighbors, getScores, handSize, isLegalMove, type GameState, type MoveEvent } from './engine';
+import { BOARD_LAYOUTS, CARD_DATA, CLASSIC_BOARD, CLASSIC_ELEMENTAL, DEFAULT_SETTINGS, ELEMENTS } from './constants';
+import { createRng } from './rng';
+
+// 辺の並びは Card.stats と同じ [上, 左, 右, 下]
+const card = (id: number, stats: number[], owner: PlayerType, attr: string | null = null): Card =>
+  ({ id, level: 1, name: `#${id}`, stats, attr, img: '', owner });
+
+const rules = (overrides: Partial<GameSettings> = {}): GameSettings => ({
+  ...DEFAULT_SETTINGS,
+  elementalEnabled: false, sameEnabled: false, plusEnabled: false, sameWallEnabled: false, plusWallEnabled: false,
+  reverseEnabled: false, fallenAceEnabled: false,
+  ...overrides,
+});
+
+/** settings の盤面 (既定は 3x3) に cards (マスの番号 -> カード) を並べ、P1 が hand を持って手番の局面 */
+function position(cards: Record<number, Card>, hand: Card[], settings: GameSettings, tiles: Partial<BoardTile>[] = []): GameState {
+  const { boardShape } = settings;
+  const board: BoardTile[] = Array.from({ length: cellCount(boardShape) }, (_, i) =>
+    ({ card: cards[i] ?? null, element: null, ...(boardShape.blocked.includes(i) ? { blocked: true } : {}), ...tiles[i] }));
+  return { board, hands: { P1: hand, P2: [] }, turn: 'P1', rules: settings };
+}
+
+const layout = (id: string): BoardShape => BOARD_LAYOUTS.find(l => l.id === id)!.shape;
+
+const flips = (events: MoveEvent[]) => events.flatMap(e => (e.type === 'FLIPPED' ? [{ boardIdx: e.boardIdx, cause: e.cause, depth: e.depth }] : []));
+const triggered = (events: MoveEvent[]) => events.flatMap(e => (e.type === 'RULE_TRIGGERED' ? [e.rule] : []));
+
+describe('applyMove', () => {
+  it('places the card, passes the turn and leaves the input state untouched', () => {
+    const state = position({}, [card(1, [5, 5, 5, 5], 'P1')], rules());
+    const { state: next, events } = applyMove(state, { boardIdx: 4, handIdx: 0 });
+    expect(next.board[4].card?.owner).toBe('P1');
+    expect(next.hands.P1).toHaveLength(0);
+    expect(next.turn).toBe('P2');
+    expect(state.board[4].card).toBeNull();
+    expect(events[0]).toMatchObject({ type: 'PLACED', boardIdx: 4, owner: 'P1' });
+  });
+
+  it('rejects moves onto occupied cells', () => {
+    const state = position({ 4: card(2, [1, 1, 1, 1], 'P2') }, [card(1, [5, 5, 5, 5], 'P1')], rules());
+    expect(() => applyMove(state, { boardIdx: 4, handIdx: 0 })).toThrow();
+  });
+
+  describe('basic capture', () => {
+    it('flips an adjacent card whose facing side is lower', () => {
+      // 中央に置いたカードの上辺 (6) が上のマスのカードの下辺 (5) に勝つ
+      const state = position({ 1: card(2, [1, 1, 1, 5], 'P2') }, [card(1, [6, 1, 1, 1], 'P1')], rules());
+      const { state: next, events } = applyMove(state, { boardIdx: 4, handIdx: 0 });
+      expect(flips(events)).toEqual([{ boardIdx: 1, cause: 'BASIC', depth: 0 }]);
+      expect(next.board[1].card?.owner).toBe('P1');
+    });
+
+    it('does not flip on equal or lower values, or own cards', () => {
+      const state = position(
+        { 1: card(2, [1, 1, 1, 6], 'P2'), 3: card(3, [1, 1, 9, 1], 'P2'), 5: card(4, [1, 1, 1, 1], 'P1') },
+        [card(1, [6, 5, 9, 1], 'P1')], rules(),
+      );
+      const { events } = applyMove(state, { boardIdx: 4, handIdx: 0 });
+      expect(flips(events)).toEqual([]);
+    });
+  });
+
+  describe('Same', () => {
+    // 上と左の 2 枚で値が一致する。どちらも通常の比較では取れない
+    const cards = { 1: card(2, [1, 1, 1, 4], 'P2'), 3: card(3, [1, 1, 7, 1], 'P2') };
+    const placed = card(1, [4, 7, 1, 1], 'P1');
+
+    it('flips every matching card when two or more sides match', () => {
+      const { state: next, events } = applyMove(position(cards, [placed], rules({ sameEnabled: true })), { boardIdx: 4, handIdx: 0 });
+      expect(triggered(events)).toEqual(['SAME']);
+      expect(flips(events)).toEqual([{ boardIdx: 1, cause: 'SAME', depth: 0 }, { boardIdx: 3, cause: 'SAME', depth: 0 }]);
+      expect(getScores(next.board, next.hands)).toEqual([3, 0]);
+    });
+
+    it('needs at least two matches', () => {
+      const { events } = applyMove(position({ 1: cards[1] }, [placed], rules({ sameEnabled: true })), { boardIdx: 4, handIdx: 0 });
+      expect(triggered(events)).toEqual([]);
+    });
+
+    it('does nothing when the rule is off', () => {
+      const { events } = applyMove(position(cards, [placed], rules()), { boardIdx: 4, handIdx: 0 });
+      expect(flips(events)).toEqual([]);
+    });
+  });
+
+  describe('Plus', () => {
+    // 上: 3 + 5 = 8、左: 6 + 2 = 8
+    const cards = { 1: card(2, [1, 1, 1, 5], 'P2'), 3: card(3, [1, 1, 2, 1], 'P2') };
+    const placed = card(1, [3, 6, 1, 1], 'P1');
+
+    it('flips cards whose sums with the placed card are equal', () => {
+      const { events } = applyMove(position(cards, [placed], rules({ plusEnabled: true })), { boardIdx: 4, handIdx: 0 });
+      expect(triggered(events)).toEqual(['PLUS']);
+      expect(flips(events)).toEqual([{ boardIdx: 1, cause: 'PLUS', depth: 0 }, { boardIdx: 3, cause: 'PLUS', depth: 0 }]);
+    });
+
+    it('counts an own card toward the match without flipping it', () => {
+      const own = { ...cards, 3: card(3, [1, 1, 2, 1], 'P1') };
+      const { events } = applyMove(position(own, [placed], rules({ plusEnabled: true })), { boardIdx: 4, handIdx: 0 });
+      expect(triggered(events)).toEqual(['PLUS']);
+      expect(flips(events)).toEqual([{ boardIdx: 1, cause: 'PLUS', depth: 0 }]);
+    });
+  });
+
+  describe('Combo', () => {
+    it('chains basic captures from cards flipped by Same, wave by wave', () => {
+      // 上段中央に置くと左右の 0 と 2 が Same で取られ、0 の下辺 (9) が 3 を、さらに 3 の下辺 (9) が 6 を取る
+      const cards = {
+        0: card(3, [1, 1, 5, 9], 'P2'),
+        2: card(4, [1, 5, 1, 1], 'P2'),
+        3: card(5, [2, 1, 1, 9], 'P2'),
+        6: card(6, [2, 1, 1, 1], 'P2'),
+      };
+      const state = position(cards, [card(1, [1, 5, 5, 1], 'P1')], rules({ sameEnabled: true }));
+      const { events } = applyMove(state, { boardIdx: 1, handIdx: 0 });
+      expect(flips(events)).toEqual([
+        { boardIdx: 0, cause: 'SAME', depth: 0 },
+        { boardIdx: 2, cause: 'SAME', depth: 0 },
+        { boardIdx: 3, cause: 'COMBO', depth: 1 },
+        { boardIdx: 6, cause: 'COMBO', depth: 2 },
+      ]);
+    });
+
+    it('does not chain from basic captures', () => {
+      const cards = { 1: card(2, [1, 1, 1, 1], 'P2'), 0: card(3, [1, 1, 1, 1], 'P2') };
+      const { events } = applyMove(position(cards, [card(1, [9, 1, 1, 1], 'P1')], rules({ sameEnabled: true })), { boardIdx: 4, handIdx: 0 });
+      expect(flips(events)).toEqual([{ boardIdx: 1, cause: 'BASIC', depth: 0 }]);
+    });
+  });
+
+  describe('Elemental', () => {
+    it('raises every side on a matching tile and lowers it on a different element, within 1..10', () => {
+      expect(calculateStats(card(1, [10, 5, 1, 3], 'P1', 'fire'), { element: 'fire' })).toEqual([10, 6, 2, 4]);
+      expect(calculateStats(card(1, [10, 5, 1, 3], 'P1', 'ice'), { element: 'fire' })).toEqual([9, 4, 1, 2]);
+      expect(calculateStats(card(1, [10, 5, 1, 3], 'P1'), { element: null })).toEqual([10, 5, 1, 3]);
+    });
+
+    it('uses the modified values for captures', () => {
+      // 素の値は 5 対 5 で取れないが、火のマスで 6 になって勝つ
+      const cards = { 1: card(2, [1, 1, 1, 5], 'P2') };
+      const state = position(cards, [card(1, [5, 1, 1, 1], 'P1', 'fire')], rules({ elementalEnabled: true }), [{}, {}, {}, {}, { element: 'fire' }]);
+      const { state: next, events } = applyMove(state, { boardIdx: 4, handIdx: 0 });
+      expect(next.board[4].card?.modifiedStats).toEqual([6, 2, 2, 2]);
+      expect(flips(events)).toEqual([{ boardIdx: 1, cause: 'BASIC', depth: 0 }]);
+    });
+
+    it('places element tiles only when the rule is on', () => {
+      expect(createBoard(createRng('e'), false).every(t => t.element === null)).toBe(true);
+      expect(createBoard(createRng('e'), true).some(t => t.element !== null)).toBe(true);
+    });
+  });
+
+  describe('Same Wall / Plus Wall', () => {
+    // 左上の角に置く。上と左の辺は盤面の端 (A = 10) に面する
+    const neighbor = { 1: card(2, [1, 4, 1, 1], 'P2') };
+
+    it('counts an edge as 10 for Same', () => {
+      const placed = card(1, [10, 1, 4, 1], 'P1');
+      const on = applyMove(position(neighbor, [placed], rules({ sameEnabled: true, sameWallEnabled: true })), { boardIdx: 0, handIdx: 0 });
+      expect(triggered(on.events)).toEqual(['SAME']);
+      expect(flips(on.events)).toEqual([{ boardIdx: 1, cause: 'SAME', depth: 0 }]);
+      const off = applyMove(position(neighbor, [placed], rules({ sameEnabled: true })), { boardIdx: 0, handIdx: 0 });
+      expect(triggered(off.events)).toEqual([]);
+    });
+
+    it('counts an edge as 10 for Plus', () => {
+      // 上: 3 + 10 = 13、右: 9 + 4 = 13
+      const placed = card(1, [3, 1, 9, 1], 'P1');
+      const weak = { 1: card(2, [1, 4, 1, 1], 'P2') };
+      const on = applyMove(position(weak, [placed], rules({ plusEnabled: true, plusWallEnabled: true })), { boardIdx: 0, handIdx: 0 });
+      expect(triggered(on.events)).toEqual(['PLUS']);
+      expect(flips(on.events)).toEqual([{ boardIdx: 1, cause: 'PLUS', depth: 0 }]);
+      const off = applyMove(position(weak, [placed], rules({ plusEnabled: true })), { boardIdx: 0, handIdx: 0 });
+      expect(triggered(off.events)).toEqual([]);
+      expect(flips(off.events)).toEqual([{ boardIdx: 1, cause: 'BASIC', depth: 0 }]);
+    });
+
+    it('needs at least one card among the matches', () => {
+      // 上と左の 2 辺が端と一致するが、隣のカードとは一致しない
+      const placed = card(1, [10, 10, 1, 1], 'P1');
+      const { events } = applyMove(position(neighbor, [placed], rules({ sameEnabled: true, sameWallEnabled: true })), { boardIdx: 0, handIdx: 0 });
+      expect(triggered(events)).toEqual([]);
+    });
+  });
+
+  describe('Reverse / Fallen Ace', () => {
+    const above = (bottom: number) => ({ 1: card(2, [1, 1, 1, bottom], 'P2') });
+    const play = (bottom: number, top: number, overrides: Partial<GameSettings>) =>
+      flips(applyMove(position(above(bottom), [card(1, [top, 1, 1, 1], 'P1')], rules(overrides)), { boardIdx: 4, handIdx: 0 }).events).length;
+
+    it('lets the lower value win under Reverse', () => {
+      expect(play(5, 2, { reverseEnabled: true })).toBe(1);
+      expect(play(2, 5, { reverseEnabled: true })).toBe(0);
+      expect(play(5, 5, { reverseEnabled: true })).toBe(0);
+    });
+
+    it('lets 1 take A under Fallen Ace', () => {
+      expect(play(10, 1, {})).toBe(0);
+      expect(play(10, 1, { fallenAceEnabled: true })).toBe(1);
+      expect(play(9, 1, { fallenAceEnabled: true })).toBe(0);
+    });
+
+    it('lets A take 1 when Fallen Ace and Reverse are combined', () => {
+      expect(play(1, 10, { reverseEnabled: true })).toBe(0);
+      expect(play(1, 10, { reverseEnabled: true, fallenAceEnabled: true })).toBe(1);
+      expect(play(10, 1, { reverseEnabled: true, fallenAceEnabled: true })).toBe(1);
+    });
+
+    it('applies to Combo captures as well', () => {
+      // Same で取った 0 の下辺 (1) が Reverse で 3 の上辺 (4) を取る
+      const cards = { 0: card(3, [1, 1, 5, 1], 'P2'), 2: card(4, [1, 5, 1, 1], 'P2'), 3: card(5, [4, 1, 1, 1], 'P2') };
+      const state = position(cards, [card(1, [1, 5, 5, 1], 'P1')], rules({ sameEnabled: true, reverseEnabled: true }));
+      expect(flips(applyMove(state, { boardIdx: 1, handIdx: 0 }).events)).toContainEqual({ boardIdx: 3, cause: 'COMBO', depth: 1 });
+    });
+  });
+});
+
+// --- Elemental Config / Tile Effects ---
+
+describe('elemental config', () => {
+  const elemental = (config: Partial<ElementalConfig>): ElementalConfig => ({ ...CLASSIC_ELEMENTAL, ...config });
+
+  it('applies the configured magnitude to elements and BOOST tiles', () => {
+    const fire = card(1, [9, 5, 2, 1], 'P1', 'fire');
+    expect(calculateStats(fire, { element: 'fire' }, 2)).toEqual([10, 7, 4, 3]);
+    expect(calculateStats(fire, { element: 'ice' }, 2)).toEqual([7, 3, 1, 1]);
+    expect(calculateStats(fire, { element: null, effect: 'BOOST' }, 2)).toEqual([10, 7, 4, 3]);
+    expect(calculateStats(card(2, [9, 5, 2, 1], 'P1'), { element: null, effect: 'BOOST' })).toEqual([10, 6, 3, 2]);
+    expect(calculateStats(fire, { element: null, effect: 'LOCK' }, 2)).toEqual([9, 5, 2, 1]);
+  });
+
+  it('places exactly the fixed number of elements', () => {
+    for (let i = 0; i < 10; i++) {
+      expect(createBoard(createRng(`count:${i}`), true, CLASSIC_BOARD, elemental({ count: 3 })).filter(t => t.element)).toHaveLength(3);
+    }
+  });
+
+  it('places elements on the cells of a preset layout', () => {
+    const board = createBoard(createRng('corners'), true, layout('grand'), elemental({ layout: 'CORNERS' }));
+    expect(board.flatMap((t, i) => (t.element ? [i] : []))).toEqual([0, 3, 12, 15]);
+  });
+
+  it('only picks elements with a positive weight', () => {
+    const board = createBoard(createRng('weights'), true, CLASSIC_BOARD, elemental({ layout: 'CROSS', weights: Object.fromEntries(ELEMENTS.map(e => [e, e === 'water' ? 1 : 0])) }));
+    expect(board.filter(t => t.element).map(t => t.element)).toEqual(Array(5).fill('water'));
+  });
+
+  it('puts BOOST and LOCK tiles on plain open cells', () => {
+    const shape = layout('pillars');
+    for (let i = 0; i < 10; i++) {
+      const board = createBoard(createRng(`effects:${i}`), true, shape, elemental({ count: 4, boostTiles: 2, lockedTiles: 1 }));
+      expect(board.filter(t => t.effect === 'BOOST')).toHaveLength(2);
+      expect(board.filter(t => t.effect === 'LOCK')).toHaveLength(1);
+      expect(board.every(t => !t.effect || (!t.element && !t.blocked))).toBe(true);
+    }
+  });
+});
+
+describe('LOCK tiles', () => {
+  const lockAt = (idx: number): Partial<BoardTile>[] => Array.from({ length: idx + 1 }, (_, i) => (i === idx ? { effect: 'LOCK' } : {}));
+
+  it('protects the card on them from basic captures', () => {
+    const state = position({ 1: card(2, [1, 1, 1, 1], 'P2') }, [card(1, [9, 1, 1, 1], 'P1')], rules(), lockAt(1));
+    expect(flips(applyMove(state, { boardIdx: 4, handIdx: 0 }).events)).toEqual([]);
+  });
+
+  it('counts the locked card toward Same but only flips the others', () => {
+    const cards = { 1: card(2, [1, 1, 1, 4], 'P2'), 3: card(3, [1, 1, 7, 1], 'P2') };
+    const { events } = applyMove(position(cards, [card(1, [4, 7, 1, 1], 'P1')], rules({ sameEnabled: true }), lockAt(1)), { boardIdx: 4, handIdx: 0 });
+    expect(triggered(events)).toEqual(['SAME']);
+    expect(flips(events)).toEqual([{ boardIdx: 3, cause: 'SAME', depth: 0 }]);
+  });
+
+  it('stops Combo chains', () => {
+    // Combo のテストと同じ並びで、3 が LOCK のマスにあると 3 も 6 も取れない
+    const cards = { 0: card(3, [1, 1, 5, 9], 'P2'), 2: card(4, [1, 5, 1, 1], 'P2'), 3: card(5, [2, 1, 1, 9], 'P2'), 6: card(6, [2, 1, 1, 1], 'P2') };
+    const { events } = applyMove(position(cards, [card(1, [1, 5, 5, 1], 'P1')], rules({ sameEnabled: true }), lockAt(3)), { boardIdx: 1, handIdx: 0 });
+    expect(flips(events).map(f => f.boardIdx)).toEqual([0, 2]);
+  });
+
+  it('does not protect a card placed next to them', () => {
+    // LOCK は置かれたカードだけを守る。LOCK のマスに置いたカードからはふつうに取れる
+    const state = position({ 1: card(2, [1, 1, 1, 1], 'P2') }, [card(1, [9, 1, 1, 1], 'P1')], rules(), lockAt(4));
+    expect(flips(applyMove(state, { boardIdx: 4, handIdx: 0 }).events)).toEqual([{ boardIdx: 1, cause: 'BASIC', depth: 0 }]);
+  });
+});
+
+// --- Board Shapes ---
+
+const neighborCells = (idx: number, shape: BoardShape) => getNeighbors(idx, shape).map(n => n.pos).sort((a, b) => a - b);
+
+describe('board shapes', () => {
+  it('finds neighbors on wider and taller boards without wrapping rows', () => {
+    expect(neighborCells(5, layout('grand'))).toEqual([1, 4, 6, 9]);
+    expect(neighborCells(15, layout('grand'))).toEqual([11, 14]);
+    // 5x3 の 2 行目の左端 (5) と 1 行目の右端 (4) は隣り合わない
+    expect(neighborCells(4, layout('wide'))).toEqual([3, 9]);
+    expect(neighborCells(5, layout('wide'))).toEqual([0, 6, 10]);
+  });
+
+  it('leaves blocked cells out of the neighbors', () => {
+    expect(neighborCells(6, layout('pillars'))).toEqual([2, 7]);
+    expect(neighborCells(1, layout('ring'))).toEqual([0, 2]);
+  });
+
+  it('deals half of the open cells, rounded up', () => {
+    expect(BOARD_LAYOUTS.map(l => [l.id, handSize(l.shape)])).toEqual([['classic', 5], ['grand', 8], ['wide', 8], ['pillars', 7], ['ring', 4]]);
+  });
+
+  it('never allows a card on a blocked cell', () => {
+    const shape = layout('pillars');
+    const board = createBoard(createRng('shape'), true, shape);
+    expect(board.flatMap((t, i) => (t.blocked ? [i] : []))).toEqual([5, 10]);
+    expect(board.filter(t => t.blocked).every(t => !t.element)).toBe(true);
+    const state = position({}, [card(1, [5, 5, 5, 5], 'P1')], rules({ boardShape: shape }));
+    expect(isLegalMove(state, { boardIdx: 5, handIdx: 0 })).toBe(false);
+    expect(getLegalMoves(state).map(m => m.boardIdx)).not.toContain(10);
+  });
+
+  it('captures across the board on non-square shapes', () => {
+    // 5x3 の右下 (14) に置いて、上 (9) と左 (13) を取る
+    const cards = { 9: card(2, [1, 1, 1, 3], 'P2'), 13: card(3, [1, 1, 3, 1], 'P2') };
+    const { events } = applyMove(position(cards, [card(1, [5, 5, 1, 1], 'P1')], rules({ boardShape: layout('wide') })), { boardIdx: 14, handIdx: 0 });
+    expect(flips(events)).toEqual([{ boardIdx: 9, cause: 'BASIC', depth: 0 }, { boardIdx: 13, cause: 'BASIC', depth: 0 }]);
+  });
+
+  it('treats a blocked cell as a wall for Same Wall', () => {
+    // ring の上段中央 (1) の下は置けない中央のマス
+    const settings = rules({ boardShape: layout('ring'), sameEnabled: true, sameWallEnabled: true });
+    const { events } = applyMove(position({ 0: card(2, [1, 1, 3, 1], 'P2') }, [card(1, [1, 3, 1, 10], 'P1')], settings), { boardIdx: 1, handIdx: 0 });
+    expect(triggered(events)).toEqual(['SAME']);
+    expect(flips(events)).toEqual([{ boardIdx: 0, cause: 'SAME', depth: 0 }]);
+  });
+});
+
+// --- Rule Combinations ---
+// どのルールの組み合わせでも、イベントが盤面の変化と一致し、カードの枚数が保たれることを確かめる
+
+const TOGGLES = ['elementalEnabled', 'sameEnabled', 'plusEnabled', 'sameWallEnabled', 'plusWallEnabled', 'reverseEnabled', 'fallenAceEnabled'] as const;
+
+function playRandomGame(settings: GameSettings, seed: string) {
+  const rng = createRng(seed);
+  const size = handSize(settings.boardShape);
+  const deck = rng.shuffle(CARD_DATA).slice(0, size * 2);
+  let state: GameState = {
+    board: createBoard(rng, settings.elementalEnabled, settings.boardShape, settings.elementalConfig),
+    hands: { P1: deck.slice(0, size).map(c => ({ ...c, owner: 'P1' as const })), P2: deck.slice(size).map(c => ({ ...c, owner: 'P2' as const })) },
+    turn: 'P1',
+    rules: settings,
+  };
+  while (getLegalMoves(state).length > 0) {
+    const { state: next, events } = applyMove(state, rng.pick(getLegalMoves(state)));
+    const changed = next.board.flatMap((t, i) => (t.card && state.board[i].card && t.card.owner !== state.board[i].card!.owner ? [i] : []));
+    expect(flips(events).map(f => f.boardIdx).sort()).toEqual(changed.sort());
+    expect(getScores(next.board, next.hands).reduce((a, b) => a + b, 0)).toBe(size * 2);
+    state = next;
+  }
+}
+
+describe('rule combinations', () => {
+  const combos = Array.from({ length: 1 << TOGGLES.length }, (_, mask) =>
+    Object.fromEntries(TOGGLES.map((key, i) => [key, !!(mask & (1 << i))])) as Partial<GameSettings>);
+
+  it.each(combos.map(c => [TOGGLES.filter(k => c[k]).join('+') || 'none', c] as const))('%s', (_, combo) => {
+    for (let i = 0; i < 5; i++) playRandomGame(rules(combo), `combo:${i}`);
+  });
+
+  it.each(BOARD_LAYOUTS.map(l => [l.id, l.shape] as const))('all rules on %s', (_, shape) => {
+    const all = Object.fromEntries(TOGGLES.map(key => [key, true]));
+    for (let i = 0; i < 5; i++) playRandomGame(rules({ ...all, boardShape: shape }), `shape:${i}`);
+  });
+});
@@ -0,0 +1,286 @@
+// --- Rules Engine ---
+// React やタイマーに依存しない純粋なルール処理。UI と CPU の両方がこの実装を使う。
+import type { BoardShape, BoardTile, Card, ElementalConfig, ElementLayout, GameSettings, PlayerType } from './types';
+import type { Rng } from './rng';
+import { CLASSIC_BOARD, CLASSIC_ELEMENTAL, ELEMENTS } from './constants';
+
+export type RuleSet = Pick<GameSettings, 'sameEnabled' | 'plusEnabled' | 'sameWallEnabled' | 'plusWallEnabled' | 'reverseEnabled' | 'fallenAceEnabled' | 'boardShape' | 'elementalConfig'>;
+
+/** 1 ラウンドの盤面状態。applyMove は常に新しい状態を返し、引数は書き換えない。 */
+export interface GameState {
+  readonly board: BoardTile[];
+  readonly hands: Record<PlayerType, Card[]>;
+  readonly turn: PlayerType;
+  readonly rules: RuleSet;
+}
+
+export interface Move {
+  handIdx: number;
+  boardIdx: number;
+}
+
+export type FlipCause = 'BASIC' | 'SAME' | 'PLUS' | 'COMBO';
+
+export type MoveEvent =
+  | { type: 'PLACED'; boardIdx: number; card: Card; owner: PlayerType }
+  | { type: 'RULE_TRIGGERED'; rule: 'SAME' | 'PLUS'; boardIdxs: number[] }
+  // depth: SAME/PLUS/BASIC は 0、COMBO は連鎖の段数 (1 から)
+  | { type: 'FLIPPED'; cause: FlipCause; boardIdx: number; from: PlayerType; to: PlayerType; depth: number };
+
+export interface MoveResult {
+  state: GameState;
+  events: MoveEvent[];
+}
+
+export const WALL_VALUE = 10; // Same Wall / Plus Wall で盤面の端が持つ値 (A)
+
+// side: 0=上, 1=左, 2=右, 3=下 (Card.stats と同じ並び)
+interface Neighbor {
+  pos: number;
+  side: number;
+  oppSide: number;
+}
+
+// --- Helpers ---
+
+export const opponentOf = (player: PlayerType): PlayerType => (player === 'P1' ? 'P2' : 'P1');
+
+/** マスに置いたときに 4 辺に加わる値。属性が一致すれば +、不一致なら -、BOOST のマスはどのカードも + */
+export function tileModifier(card: Card, tile: Pick<BoardTile, 'element' | 'effect'>, magnitude = 1): number {
+  if (tile.element) return card.attr === tile.element ? magnitude : -magnitude;
+  return tile.effect === 'BOOST' ? magnitude : 0;
+}
+
+export function calculateStats(card: Card, tile: Pick<BoardTile, 'element' | 'effect'>, magnitude = 1): number[] {
+  const modifier = tileModifier(card, tile, magnitude);
+  if (modifier === 0) return [...card.stats];
+  return card.stats.map(s => Math.max(1, Math.min(10, s + modifier)));
+}
+
+// 盤面の形を持たない古い記録 (リプレイ・セーブ) は 3x3
+export const shapeOf = (rules: RuleSet): BoardShape => rules.boardShape ?? CLASSIC_BOARD;
+
+export const elementalOf = (rules: RuleSet): ElementalConfig => rules.elementalConfig ?? CLASSIC_ELEMENTAL;
+
+export const cellCount = (shape: BoardShape): number => shape.cols * shape.rows;
+
+/** 置けるマスの数の半分 (切り上げ)。3x3 なら 5 枚 */
+export const handSize = (shape: BoardShape): number => Math.ceil((cellCount(shape) - shape.blocked.length) / 2);
+
+// 隣接マスの表は盤面の形ごとに一度だけ作る
+const neighborTables = new Map<string, Neighbor[][]>();
+
+function buildNeighbors({ cols, rows, blocked }: BoardShape): Neighbor[][] {
+  return Array.from({ length: cols * rows }, (_, idx) => [
+    { pos: idx - cols, side: 0, oppSide: 3, active: idx >= cols },
+    { pos: idx - 1, side: 1, oppSide: 2, active: idx % cols !== 0 },
+    { pos: idx + 1, side: 2, oppSide: 1, active: idx % cols !== cols - 1 },
+    { pos: idx + cols, side: 3, oppSide: 0, active: idx < cols * (rows - 1) },
+  ].filter(n => n.active && !blocked.includes(n.pos)).map(({ pos, side, oppSide }) => ({ pos, side, oppSide })));
+}
+
+export function getNeighbors(idx: number, shape: BoardShape = CLASSIC_BOARD): Neighbor[] {
+  const key = `${shape.cols}x${shape.rows}:${shape.blocked.join(',')}`;
+  if (!neighborTables.has(key)) neighborTables.set(key, buildNeighbors(shape));
+  return neighborTables.get(key)![idx];
+}
+
+export const effectiveStats = (card: Card): number[] => card.modifiedStats || card.stats;
+
+/** 基本ルールで attacker が defender を取れるか (Reverse / Fallen Ace を考慮) */
+export function beats(attacker: number, defender: number, rules: RuleSet): boolean {
+  if (rules.fallenAceEnabled) {
+    // 通常は 1 が A に勝ち、Reverse 中は A が 1 に勝つ
+    const [low, high] = rules.reverseEnabled ? [10, 1] : [1, 10];
+    if (attacker === low && defender === high) return true;
+  }
+  return rules.reverseEnabled ? attacker < defender : attacker > defender;
+}
+
+export function isLegalMove(state: GameState, move: Move): boolean {
+  const tile = state.board[move.boardIdx];
+  return !!tile && !tile.card && !tile.blocked && move.handIdx >= 0 && move.handIdx < state.hands[state.turn].length;
+}
+
+export function getLegalMoves(state: GameState): Move[] {
+  const hand = state.hands[state.turn];
+  return state.board.flatMap((tile, boardIdx) => tile.card || tile.blocked ? [] : hand.map((_, handIdx) => ({ boardIdx, handIdx })));
+}
+
+// 重みがすべて同じなら従来どおり rng.pick を使い、同じシードで同じ盤面になるようにする
+function pickElement(rng: Rng, weights: Record<string, number>): string {
+  const table = ELEMENTS.map(e => Math.max(0, weights[e] ?? 1));
+  const total = table.reduce((a, b) => a + b, 0);
+  if (total === 0 || table.every(w => w === table[0])) return rng.pick(ELEMENTS);
+  let roll = rng.next() * total;
+  return ELEMENTS.find((_, i) => (roll -= table[i]) < 0) ?? ELEMENTS[ELEMENTS.length - 1];
+}
+
+const middle = (n: number): number[] => (n % 2 ? [(n - 1) / 2] : [n / 2 - 1, n / 2]);
+
+/** 配置パターンが属性タイルを置くマス (SCATTER 以外)。置けないマスは除く */
+export function layoutCells(layout: ElementLayout, shape: BoardShape): number[] {
+  const { cols, rows, blocked } = shape;
+  const rowMid = middle(rows), colMid = middle(cols);
+  const matches = (row: number, col: number): boolean => {
+    const rowEdge = row === 0 || row === rows - 1, colEdge = col === 0 || col === cols - 1;
+    switch (layout) {
+      case 'CORNERS': return rowEdge && colEdge;
+      case 'CENTER': return rowMid.includes(row) && colMid.includes(col);
+      case 'CROSS': return rowMid.includes(row) || colMid.includes(col);
+      case 'EDGES': return (rowEdge || colEdge) && !(rowEdge && colEdge);
+      case 'SCATTER': return false;
+    }
+  };
+  return Array.from({ length: cellCount(shape) }, (_, idx) => idx)
+    .filter(idx => !blocked.includes(idx) && matches(Math.floor(idx / cols), idx % cols));
+}
+
+/**
+ * 空の盤面。Elemental ルールでは属性タイルと特殊なマスを置く。
+ * count が null なら 3x3 で 1〜4 マス (広い盤面ではマスの数に比例)、数を決めたときは重ならないマスにちょうどその数だけ置く
+ */
+export function createBoard(rng: Rng, elementalEnabled: boolean, shape: BoardShape = CLASSIC_BOARD, config: ElementalConfig = CLASSIC_ELEMENTAL): BoardTile[] {
+  const board: BoardTile[] = Array.from({ length: cellCount(shape) }, (_, idx) =>
+    shape.blocked.includes(idx) ? { card: null, element: null, blocked: true } : { card: null, element: null });
+  if (!elementalEnabled) return board;
+  const open = board.flatMap((t, idx) => (t.blocked ? [] : [idx]));
+
+  if (config.layout !== 'SCATTER') {
+    layoutCells(config.layout, shape).forEach(idx => { board[idx].element = pickElement(rng, config.weights); });
+  } else if (config.count === null) {
+    const count = rng.int(Math.max(1, Math.round((4 * open.length) / 9))) + 1;
+    for (let i = 0; i < count; i++) {
+      const idx = rng.int(board.length);
+      if (!board[idx].element && !board[idx].blocked) board[idx].element = pickElement(rng, config.weights);
+    }
+  } else {
+    rng.shuffle(open).slice(0, config.count).forEach(idx => { board[idx].element = pickElement(rng, config.weights); });
+  }
+
+  // 特殊なマスは属性のない空きマスから選ぶ (使わない設定では乱数を消費しない)
+  if (config.boostTiles + config.lockedTiles > 0) {
+    const plain = rng.shuffle(open.filter(idx => !board[idx].element));
+    plain.slice(0, config.boostTiles).forEach(idx => { board[idx].effect = 'BOOST'; });
+    plain.slice(config.boostTiles, config.boostTiles + config.lockedTiles).forEach(idx => { board[idx].effect = 'LOCK'; });
+  }
+  return board;
+}
+
+// --- Move Resolution ---
+
+export function applyMove(state: GameState, move: Move): MoveResult {
+  if (!isLegalMove(state, move)) {
+    throw new Error(`Illegal move: card ${move.handIdx} to cell ${move.boardIdx}`);
+  }
+
+  const owner = state.turn;
+  const { rules } = state;
+  const board = state.board.map(tile => ({ ...tile }));
+  const events: MoveEvent[] = [];
+  const card = state.hands[owner][move.handIdx];
+  const stats = calculateStats(card, board[move.boardIdx], elementalOf(rules).magnitude);
+  const placed: Card = { ...card, owner, modifiedStats: stats };
+  board[move.boardIdx].card = placed;
+  events.push({ type: 'PLACED', boardIdx: move.boardIdx, card: placed, owner });
+
+  const flip = (pos: number, cause: FlipCause, depth: number) => {
+    const target = board[pos].card!;
+    events.push({ type: 'FLIPPED', cause, boardIdx: pos, from: target.owner!, to: owner, depth });
+    board[pos].card = { ...target, owner };
+  };
+  // LOCK のマスに置かれた相手のカードは取れない
+  const flippable = (pos: number) => board[pos].card!.owner !== owner && board[pos].effect !== 'LOCK';
+
+  const shape = shapeOf(rules);
+  const neighbors = getNeighbors(move.boardIdx, shape);
+  const sides = neighbors.filter(n => board[n.pos].card).map(n => ({
+    pos: n.pos,
+    myVal: stats[n.side],
+    oppVal: effectiveStats(board[n.pos].card!)[n.oppSide],
+  }));
+  // 盤面の端と置けないマスに面した辺。pos は null で、取られることもコンボの起点になることもない
+  const walls = [0, 1, 2, 3]
+    .filter(side => !neighbors.some(n => n.side === side))
+    .map(side => ({ pos: null, myVal: stats[side], oppVal: WALL_VALUE }));
+
+  // SAME/PLUS で成立したカードは自分のカードも含めてコンボの起点になる
+  const comboQueue: { pos: number; depth: number }[] = [];
+  const resolveSpecial = (rule: 'SAME' | 'PLUS', matches: { pos: number | null }[]) => {
+    const positions = matches.map(m => m.pos).filter((pos): pos is number => pos !== null);
+    // 端だけで成立してもカードがなければ発動しない
+    if (positions.length === 0) return;
+    events.push({ type: 'RULE_TRIGGERED', rule, boardIdxs: positions });
+    positions.forEach(pos => {
+      // 取れない相手のカードも成立には数えるが、コンボの起点にはならない
+      if (board[pos].card!.owner !== owner) {
+        if (!flippable(pos)) return;
+        flip(pos, rule, 0);
+      }
+      comboQueue.push({ pos, depth: 0 });
+    });
+  };
+
+  // Same
+  if (rules.sameEnabled) {
+    const candidates = rules.sameWallEnabled ? [...sides, ...walls] : sides;
+    const sameMatches = candidates.filter(s => s.myVal === s.oppVal);
+    if (sameMatches.length >= 2) resolveSpecial('SAME', sameMatches);
+  }
+
+  // Plus
+  if (rules.plusEnabled) {
+    const candidates = rules.plusWallEnabled ? [...sides, ...walls] : sides;
+    const plusSums: Record<number, { pos: number | null }[]> = {};
+    candidates.forEach(s => { (plusSums[s.myVal + s.oppVal] ||= []).push(s); });
+    const plusMatches = Object.values(plusSums).filter(p => p.length >= 2).flat();
+    if (plusMatches.length > 0) resolveSpecial('PLUS', plusMatches);
+  }
+
+  // Basic Rule
+  sides.forEach(s => {
+    if (flippable(s.pos) && beats(s.myVal, s.oppVal, rules)) flip(s.pos, 'BASIC', 0);
+  });
+
+  // Combo
+  while (comboQueue.length > 0) {
+    const { pos, depth } = comboQueue.shift()!;
+    const cStats = effectiveStats(board[pos].card!);
+    getNeighbors(pos, shape).forEach(n => {
+      const target = board[n.pos].card;
+      if (target && flippable(n.pos) && beats(cStats[n.side], effectiveStats(target)[n.oppSide], rules)) {
+        flip(n.pos, 'COMBO', depth + 1);
+        comboQueue.push({ pos: n.pos, depth: depth + 1 });
+      }
+    });
+  }
+
+  const hands = { ...state.hands, [owner]: state.hands[owner].filter((_, i) => i !== move.handIdx) };
+  return {
+    state: { board, hands, turn: opponentOf(owner), rules },
+    events,
+  };
+}
+
+// --- Scoring ---
+
+/** 手札の残り枚数 + 盤面の所有枚数 = 各プレイヤーの得点 */
+export function getScores(board: BoardTile[], hands: Record<PlayerType, Card[]>): [number, number] {
+  let s1 = hands.P1.length, s2 = hands.P2.length;
+  board.forEach(t => { if (t.card?.owner === 'P1') s1++; if (t.card?.owner === 'P2') s2++; });
+  return [s1, s2];
+}
+
+/** Sudden Death 用: 盤面と手札から各プレイヤーが所有しているカードを集め、次の手札にする */
+export function collectOwnedCards(board: BoardTile[], hands: Record<PlayerType, Card[]>): Record<PlayerType, Card[]> {
+  const owned: Record<PlayerType, Card[]> = { P1: [...hands.P1], P2: [...hands.P2] };
+  board.forEach(t => { if (t.card?.owner) owned[t.card.owner].push(t.card); });
+  const reset = (cards: Card[], owner: PlayerType) => cards.map(({ modifiedStats, ...c }) => ({ ...c, owner }));
+  return { P1: reset(owned.P1, 'P1'), P2: reset(owned.P2, 'P2') };
+}
+
+export const isBoardFull = (board: BoardTile[]): boolean => board.every(t => t.card || t.blocked);
+
+export function getWinner(scores: number[]): PlayerType | 'DRAW' {
+  return scores[0] > scores[1] ? 'P1' : scores[0] < scores[1] ? 'P2' : 'DRAW';
+}
@@ -0,0 +1,71 @@
+// --- Move History ---
+// 1 ラウンドの開始局面と着手の記録。ルールエンジンが純粋なので、記録を再生すれば任意の手数の局面を正確に復元できる
+import type { BoardShape, Card, MatchResult, PlayerType } from './types';
+import { applyMove, type FlipCause, type GameState, type Move, type MoveEvent } from './engine';
+import { CLASSIC_BOARD } from './constants';
+import { EN, type MessageKey, type Translator } from './i18n';
+
+export interface FlipRecord {
+  boardIdx: number;
+  cause: FlipCause;
+  depth: number;
+}
+
+export interface MoveRecord extends Move {
+  cardId: number;
+  owner: PlayerType;
+  flips: FlipRecord[];
+}
+
+export interface RoundLog {
+  round: number;
+  suddenDeath: boolean;
+  initial: GameState; // 配布直後の盤面 (属性タイルを含む)・手札・先手
+  moves: MoveRecord[];
+  result?: MatchResult; // ラウンド終了時に記録
+}
+
+// 3x3 の盤面のマスの名前。表示名は i18n のバンドル (cell.*) にある
+export const CELL_NAMES = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'];
+
+/** マスの表示名。3x3 は "center" などの名前、それ以外の盤面は列の英字と行の番号 (例: "B3") */
+export function cellName(idx: number, shape: BoardShape = CLASSIC_BOARD, tr: Translator = EN): string {
+  if (shape.cols === 3 && shape.rows === 3) return tr.t(`cell.${CELL_NAMES[idx]}` as MessageKey);
+  return `${String.fromCharCode(65 + (idx % shape.cols))}${Math.floor(idx / shape.cols) + 1}`;
+}
+
+export function createRoundLog(round: number, initial: GameState, suddenDeath = false): RoundLog {
+  return { round, suddenDeath, initial, moves: [] };
+}
+
+export function recordMove(log: RoundLog, move: Move, events: MoveEvent[]): RoundLog {
+  const placed = events.find((e): e is Extract<MoveEvent, { type: 'PLACED' }> => e.type === 'PLACED')!;
+  const flips = events.flatMap(e => e.type === 'FLIPPED' ? [{ boardIdx: e.boardIdx, cause: e.cause, depth: e.depth }] : []);
+  const record: MoveRecord = { handIdx: move.handIdx, boardIdx: move.boardIdx, cardId: placed.card.id, owner: placed.owner, flips };
+  return { ...log, moves: [...log.moves, record] };
+}
+
+/**
+ * 伏せられていた手札 (オンライン対戦の相手の手札) が判明したら開始局面にも書き戻す。
+ * handIdx は現時点の手札での位置で、既に出したカードを除いて開始時の位置に対応させる
+ */
+export function revealInitialCard(log: RoundLog, owner: PlayerType, handIdx: number, card: Card): RoundLog {
+  const slots = log.initial.hands[owner].map((_, i) => i);
+  log.moves.forEach(m => { if (m.owner === owner) slots.splice(m.handIdx, 1); });
+  const hand = log.initial.hands[owner].map((c, i) => (i === slots[handIdx] ? { ...card, owner } : c));
+  return { ...log, initial: { ...log.initial, hands: { ...log.initial.hands, [owner]: hand } } };
+}
+
+/** 開始局面から step 手目までを再生した局面 */
+export function replayRound(log: RoundLog, step = log.moves.length): GameState {
+  return log.moves.slice(0, step).reduce((state, m) => applyMove(state, m).state, log.initial);
+}
+
+/** 例: "P1 placed Bite Bug at center, flipped 2 cards (PLUS, COMBO)"。ownerName で "CPU" などに言い換えられる */
+export function describeMove(record: MoveRecord, cardName: string, ownerName: string = record.owner, tr: Translator = EN, shape: BoardShape = CLASSIC_BOARD): string {
+  const causes = [...new Set(record.flips.map(f => f.cause))].filter(c => c !== 'BASIC');
+  const count = record.flips.length;
+  const flipped = count === 0 ? ''
+    : (count === 1 ? tr.t('move.flippedOne') : tr.t('move.flipped', { count })) + (causes.length ? tr.t('move.causes', { causes: causes.join(', ') }) : '');
+  return tr.t('move.placed', { owner: ownerName, card: cardName, cell: cellName(record.boardIdx, shape, tr) }) + flipped;
+}
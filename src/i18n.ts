@@ -0,0 +1,75 @@
+// --- Internationalization ---
+// UI の文言・カード名・属性名の翻訳。文言は locales/ にキーで持ち、バンドルにないキーは英語で補う
+import type { Card } from './types';
+import { BUILT_IN_CARDS, CARD_DATA } from './constants';
+import en, { type MessageKey } from './locales/en';
+import ja from './locales/ja';
+import CARD_NAMES_EN from './data/cardNames.en.json';
+
+export type Locale = 'en' | 'ja';
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+/** データファイルに直接書く訳文。その言語がなければ英語を使う */
+export type LocalizedText = Partial<Record<Locale, string>> & { en: string };
+
+export const LOCALES: Locale[] = ['en', 'ja'];
+export const LOCALE_LABELS: Record<Locale, string> = { en: 'English', ja: '日本語' };
+
+const BUNDLES: Record<Locale, Record<MessageKey, string>> = { en, ja };
+// cards.json の name は日本語なので、日本語では訳を持たずにそのまま使う
+const CARD_NAMES: Record<Locale, Record<string, string>> = { en: CARD_NAMES_EN, ja: {} };
+
+const STORAGE_KEY = 'triple-triad-locale';
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  cardName: (card: Pick<Card, 'id' | 'name'>) => string;
+  elementName: (element: string) => string;
+  localized: (text: LocalizedText) => string;
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const messages = BUNDLES[locale];
+  const t = (key: MessageKey, params: MessageParams = {}) =>
+    (messages[key] ?? en[key] ?? key).replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+  return {
+    locale,
+    t,
+    // 訳は同梱のカードの ID に対応する。カスタムカードセットや訳のないカードは元の名前を出す
+    cardName: card => (CARD_DATA === BUILT_IN_CARDS ? CARD_NAMES[locale][card.id] : undefined) ?? card.name,
+    elementName: element => (`element.${element}` in en ? t(`element.${element}` as MessageKey) : element),
+    localized: text => text[locale] ?? text.en,
+  };
+}
+
+/** React の外 (ルール・記録のモジュールや CLI) で使う既定の翻訳 */
+export const EN = createTranslator('en');
+
+// --- Storage ---
+
+export function detectLocale(): Locale {
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  return languages.some(lang => lang?.toLowerCase().startsWith('ja')) ? 'ja' : 'en';
+}
+
+export function loadLocale(): Locale {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as { version: number; locale: Locale };
+      if (parsed.version === 1 && LOCALES.includes(parsed.locale)) return parsed.locale;
+    }
+  } catch {
+    // 読めなければブラウザの言語設定に従う
+  }
+  return detectLocale();
+}
+
+export function saveLocale(locale: Locale) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, locale }));
+  } catch {
+    // 保存できなくても今のセッションでは切り替わる
+  }
+}
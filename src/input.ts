@@ -0,0 +1,106 @@
+// --- Keyboard & Gamepad Input ---
+// キーボードとゲームパッドの入力を共通の操作に変換する。画面側は操作だけを見てカーソルを動かす
+import { useEffect, useRef } from 'react';
+
+export type InputAction =
+  | { type: 'MOVE'; dx: number; dy: number }
+  | { type: 'CONFIRM' }
+  | { type: 'CANCEL' }
+  | { type: 'NUMBER'; value: number }; // 数字キー 1-9 のショートカット
+
+const KEY_ACTIONS: Record<string, InputAction> = {
+  ArrowUp: { type: 'MOVE', dx: 0, dy: -1 },
+  ArrowDown: { type: 'MOVE', dx: 0, dy: 1 },
+  ArrowLeft: { type: 'MOVE', dx: -1, dy: 0 },
+  ArrowRight: { type: 'MOVE', dx: 1, dy: 0 },
+  w: { type: 'MOVE', dx: 0, dy: -1 },
+  s: { type: 'MOVE', dx: 0, dy: 1 },
+  a: { type: 'MOVE', dx: -1, dy: 0 },
+  d: { type: 'MOVE', dx: 1, dy: 0 },
+  Enter: { type: 'CONFIRM' },
+  ' ': { type: 'CONFIRM' },
+  Escape: { type: 'CANCEL' },
+  Backspace: { type: 'CANCEL' },
+};
+
+// Standard Gamepad のボタン番号 (A / B / 十字キー)
+const PAD_BUTTONS: [number, InputAction][] = [
+  [0, { type: 'CONFIRM' }],
+  [1, { type: 'CANCEL' }],
+  [12, KEY_ACTIONS.ArrowUp],
+  [13, KEY_ACTIONS.ArrowDown],
+  [14, KEY_ACTIONS.ArrowLeft],
+  [15, KEY_ACTIONS.ArrowRight],
+];
+const STICK_THRESHOLD = 0.5;
+const REPEAT_DELAY = 400; // 押しっぱなしの方向入力がリピートし始めるまで (ms)
+const REPEAT_INTERVAL = 120;
+
+export function keyToAction(e: KeyboardEvent): InputAction | null {
+  if (e.ctrlKey || e.metaKey || e.altKey) return null;
+  const target = e.target as HTMLElement | null;
+  // 文字入力中は奪わない。フォーカス中のボタンの Enter / Space はブラウザ標準のクリックに任せる
+  if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return null;
+  if (target?.tagName === 'BUTTON' && (e.key === 'Enter' || e.key === ' ')) return null;
+  if (/^[1-9]$/.test(e.key)) return { type: 'NUMBER', value: Number(e.key) };
+  return KEY_ACTIONS[e.key.length === 1 ? e.key.toLowerCase() : e.key] ?? null;
+}
+
+// 接続中のゲームパッドで押されている操作 (左スティックは十字キーとして扱う)
+function padPressed(): Map<string, InputAction> {
+  const pressed = new Map<string, InputAction>();
+  const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+  for (const pad of pads) {
+    if (!pad) continue;
+    PAD_BUTTONS.forEach(([button, action]) => { if (pad.buttons[button]?.pressed) pressed.set(String(button), action); });
+    const [x = 0, y = 0] = pad.axes;
+    if (y < -STICK_THRESHOLD) pressed.set('12', KEY_ACTIONS.ArrowUp);
+    if (y > STICK_THRESHOLD) pressed.set('13', KEY_ACTIONS.ArrowDown);
+    if (x < -STICK_THRESHOLD) pressed.set('14', KEY_ACTIONS.ArrowLeft);
+    if (x > STICK_THRESHOLD) pressed.set('15', KEY_ACTIONS.ArrowRight);
+  }
+  return pressed;
+}
+
+/**
+ * キーボードとゲームパッドの操作を購読する。同時に有効にするのは 1 画面につき 1 つだけにする
+ * (ゲームパッドはフレームごとにポーリングし、押した瞬間と方向入力のリピートで発火する)
+ */
+export function useInputActions(onAction: (action: InputAction) => void, enabled = true) {
+  const handler = useRef(onAction);
+  handler.current = onAction;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKey = (e: KeyboardEvent) => {
+      const action = keyToAction(e);
+      if (!action) return;
+      e.preventDefault();
+      handler.current(action);
+    };
+    window.addEventListener('keydown', onKey);
+
+    // ボタンごとに「次に発火してよい時刻」を持つ。離したら消す
+    const held = new Map<string, number>();
+    let frame = requestAnimationFrame(function poll(now: number) {
+      const pressed = padPressed();
+      held.forEach((_, key) => { if (!pressed.has(key)) held.delete(key); });
+      pressed.forEach((action, key) => {
+        const next = held.get(key);
+        if (next === undefined) {
+          held.set(key, now + REPEAT_DELAY);
+          handler.current(action);
+        } else if (action.type === 'MOVE' && now >= next) {
+          held.set(key, now + REPEAT_INTERVAL);
+          handler.current(action);
+        }
+      });
+      frame = requestAnimationFrame(poll);
+    });
+
+    return () => {
+      window.removeEventListener('keydown', onKey);
+      cancelAnimationFrame(frame);
+    };
+  }, [enabled]);
+}
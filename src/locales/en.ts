@@ -0,0 +1,379 @@
+// 英語バンドル。キーの一覧はこのファイルが正で、他の言語は同じキーを持つ
+const en = {
+  // --- Common ---
+  'common.title': 'Title',
+  'common.player1': 'Player 1',
+  'common.player2': 'Player 2',
+  'common.cpu': 'CPU',
+  'common.any': 'Any',
+  'common.none': 'None',
+  'common.round': 'Round {round}',
+  'common.language': 'Language',
+  'common.animation': 'Animation speed',
+  'animationSpeed.NORMAL': 'Normal',
+  'animationSpeed.FAST': 'Fast',
+  'animationSpeed.INSTANT': 'Instant',
+
+  'element.fire': 'Fire',
+  'element.ice': 'Ice',
+  'element.thunder': 'Thunder',
+  'element.earth': 'Earth',
+  'element.wind': 'Wind',
+  'element.water': 'Water',
+  'element.poison': 'Poison',
+  'element.holy': 'Holy',
+
+  'difficulty.LOW': 'Easy',
+  'difficulty.MID': 'Normal',
+  'difficulty.HIGH': 'Hard',
+  'difficulty.EXPERT': 'Expert',
+
+  'difficultyInfo.LOW': 'Plays random moves',
+  'difficultyInfo.MID': 'Picks the best move one turn ahead',
+  'difficultyInfo.HIGH': 'Reads 3 moves ahead',
+  'difficultyInfo.EXPERT': 'Reads 3 moves ahead, and to the end once 8 or fewer cells are empty (large boards may stop at a search limit)',
+
+  'rule.elementalEnabled': 'Elem',
+  'rule.sameEnabled': 'Same',
+  'rule.plusEnabled': 'Plus',
+  'rule.sameWallEnabled': 'S.Wall',
+  'rule.plusWallEnabled': 'P.Wall',
+  'rule.openEnabled': 'Open',
+  'rule.randomEnabled': 'Random',
+  'rule.suddenDeathEnabled': 'Sudden',
+  'rule.reverseEnabled': 'Reverse',
+  'rule.fallenAceEnabled': 'F.Ace',
+
+  'tradeRule.NONE': 'None',
+  'tradeRule.ONE': 'One',
+  'tradeRule.DIFF': 'Diff',
+  'tradeRule.DIRECT': 'Direct',
+  'tradeRule.ALL': 'All',
+
+  'boardLayout.classic': 'Classic 3×3',
+  'boardLayout.grand': 'Grand 4×4',
+  'boardLayout.wide': 'Wide 5×3',
+  'boardLayout.pillars': 'Pillars 4×4',
+  'boardLayout.ring': 'Ring 3×3',
+
+  'elementLayout.SCATTER': 'Scatter',
+  'elementLayout.CORNERS': 'Corners',
+  'elementLayout.CENTER': 'Center',
+  'elementLayout.CROSS': 'Cross',
+  'elementLayout.EDGES': 'Edges',
+  'tileEffect.BOOST': 'Boost tile',
+  'tileEffect.LOCK': 'Locked tile',
+
+  'seriesType.SINGLE': 'Single',
+  'seriesType.BEST_OF': 'Best of',
+  'seriesType.FIRST_TO': 'First to',
+  'seriesType.TOTAL_CARDS': 'Total cards',
+  'seriesFormat.SINGLE': 'Single match',
+  'seriesFormat.BEST_OF': 'Best of {count}',
+  'seriesFormat.FIRST_TO': 'First to {count} wins',
+  'seriesFormat.TOTAL_CARDS': 'Most cards over {count} rounds',
+
+  // --- Title ---
+  'title.gameMode': 'Game Mode',
+  'title.vsCpu': 'VS CPU',
+  'title.localPvp': 'Local PvP',
+  'title.onlinePvp': 'Online PvP',
+  'title.rules': 'Rule Settings',
+  'title.cpu': 'CPU: {level}',
+  'title.intelligence': 'Intelligence',
+  'title.personality': 'Style: {name}',
+  'title.collection': 'Collection',
+  'title.cardsOwned': '{count} cards owned',
+  'title.trade': 'Trade',
+  'title.board': 'Board',
+  'title.handSize': '{count} cards per hand',
+  'elemental.layout': 'Layout',
+  'elemental.count': 'Tiles',
+  'elemental.countRandom': 'Random',
+  'elemental.power': 'Power',
+  'elemental.boost': 'Boost',
+  'elemental.locked': 'Lock',
+  'elemental.weights': 'Odds',
+  'series.format': 'Series',
+  'series.rounds': 'Rounds',
+  'series.wins': 'Wins',
+  'series.draws': 'Draws',
+  'series.drawsCount': 'Count',
+  'series.drawsReplay': 'Replay',
+  'title.seed': 'Seed (blank = random)',
+  'title.continue': 'Continue Series',
+  'title.start': 'Start Battle',
+  'title.deckBuilder': 'Deck Builder',
+  'title.campaign': 'Campaign',
+  'title.puzzles': 'Puzzles',
+  'title.cardSets': 'Card Sets',
+  'title.stats': 'Stats',
+
+  // --- Campaign ---
+  'campaign.title': 'Campaign',
+  'campaign.titleAccent': 'Ladder',
+  'campaign.progress': '{cleared} / {total} defeated',
+  'campaign.locked': 'Locked',
+  'campaign.cleared': 'Defeated',
+  'campaign.noRules': 'Basic rules',
+  'campaign.fixedDeck': 'Signature deck',
+  'campaign.themedDeck': 'Themed deck',
+  'campaign.reward': 'Reward',
+  'campaign.challenge': 'Challenge',
+  'campaign.rewardEarned': 'Added to your collection',
+  'campaign.back': 'Back to Campaign',
+
+  // --- Puzzles ---
+  'puzzle.title': 'Puzzle',
+  'puzzle.titleAccent': 'Challenges',
+  'puzzle.progress': '{solved} / {total} solved',
+  'puzzle.solved': 'Solved',
+  'puzzle.goal.WIN': 'Win the round',
+  'puzzle.goal.WIN_BY': 'Win by {margin} or more',
+  'puzzle.goal.COMBO': 'Trigger a {length}-step Combo',
+  'puzzle.emptyTiles': '{count} empty tiles',
+  'puzzle.play': 'Play',
+  'puzzle.success': 'Puzzle Solved',
+  'puzzle.failed': 'Goal Missed',
+  'puzzle.retry': 'Retry',
+  'puzzle.back': 'Back to Puzzles',
+
+  // --- Card Sets ---
+  'cardSets.title': 'Card',
+  'cardSets.titleAccent': 'Sets',
+  'cardSets.builtIn': 'Standard Set',
+  'cardSets.cardCount': '{count} cards',
+  'cardSets.active': 'In use',
+  'cardSets.use': 'Use',
+  'cardSets.delete': 'Delete',
+  'cardSets.note': 'Switching sets reloads the game. Collection, Campaign and Puzzles are only available with the standard set.',
+  'cardSets.import': 'Import',
+  'cardSets.importHint': 'Choose a card JSON file with its images, or a ZIP containing both. Images can also be data URLs inside the JSON.',
+  'cardSets.choose': 'Choose Files',
+  'cardSets.reading': 'Reading...',
+  'cardSets.name': 'Set name',
+  'cardSets.valid': '{count} valid',
+  'cardSets.invalid': '{count} with errors',
+  'cardSets.save': 'Save Set',
+  'cardSets.cancel': 'Cancel',
+  'cardSets.saveFailed': 'The set could not be saved (storage may be full)',
+  'cardSets.selectFailed': 'The set could not be selected (storage may be unavailable)',
+
+  // --- Deck Select ---
+  'deckSelect.title': 'Deck Selection',
+  'deckSelect.choice': '{player} Choice',
+  'deckSelect.waiting': 'Waiting for opponent...',
+  'deckSelect.pattern': 'Pattern {number}',
+  'deckSelect.select': 'Select',
+  'deckSelect.deck': 'Deck',
+  'deckSelect.confirm': 'Click to Confirm',
+  'deckSelect.level': 'Level {level}',
+
+  // --- Coin Toss ---
+  'coinToss.title': 'Coin Toss',
+  'coinToss.subtitle': 'Determining the First Turn...',
+  'coinToss.result': '{player} Start',
+
+  // --- Battle ---
+  'battle.matchSeed': 'Match seed',
+  'battle.undo': 'Undo',
+  'battle.redo': 'Redo',
+  'battle.turn': '{player} Turn',
+  'battle.cpuThinking': 'CPU Thinking...',
+  'battle.reconnecting': 'reconnecting',
+  'battle.opponentOffline': 'opponent offline',
+  'battle.draw': 'Draw',
+  'battle.suddenDeath': 'Sudden Death',
+  'battle.seriesChampion': 'Series Champion',
+  'battle.matchVictory': 'Match Victory',
+  'series.round': 'Round',
+  'series.result': 'Result',
+  'series.totalWins': 'Wins',
+  'series.totalCards': 'Cards',
+  'series.drawsReplayed': 'draws replayed',
+  'series.notCounted': 'Draw (replayed)',
+  'battle.replayRound': 'Replay Round',
+  'battle.rematch': 'Rematch',
+  'battle.returnToTitle': 'Return to Title',
+  'battle.nextMatch': 'Start Next Match',
+  'battle.leaveRoom': 'Leave Room',
+  'battle.watchReplay': 'Watch Replay',
+  'battle.hints': 'Hints',
+
+  // --- Trade ---
+  'trade.label': 'Trade: {rule} / {caption}',
+  'trade.direct': 'Captured cards change hands',
+  'trade.draw': 'Draw - no cards traded',
+  'trade.chooseOne': 'Choose 1 card to take',
+  'trade.choose': 'Choose {count} cards to take',
+  'trade.youTake': 'You take',
+  'trade.cpuTakes': 'CPU takes',
+  'trade.noCards': 'No cards',
+  'trade.claim': 'Claim & Return to Title',
+
+  // --- Replay ---
+  'replay.results': 'Results',
+  'replay.round': 'R{round}',
+  'replay.suddenDeath': 'SD',
+  'replay.move': 'Move {step} / {total}',
+  'replay.movesFirst': '{player} moves first',
+  'replay.share': 'Share',
+  'replay.title': 'Title',
+
+  // --- Notation ---
+  'notation.text': 'Notation',
+  'notation.link': 'Link',
+  'notation.copy': 'Copy',
+  'notation.copied': 'Copied',
+  'notation.unavailable': 'Rounds that start from a puzzle position or with hidden cards cannot be shared',
+  'notation.import': 'Import Game',
+  'notation.placeholder': 'Paste a notation or link',
+  'notation.load': 'Load',
+  'notation.error.format': 'Not a game notation',
+  'notation.error.version': 'Unsupported notation version: {detail}',
+  'notation.error.board': 'Unknown board size: {detail}',
+  'notation.error.rules': 'Unknown rule: {detail}',
+  'notation.error.tiles': 'Bad board tiles: {detail}',
+  'notation.error.card': 'Unknown card: {detail}',
+  'notation.error.hands': 'Hands do not match the board size',
+  'notation.error.move': 'Illegal move: {detail}',
+
+  // --- Hints & Analysis ---
+  'hint.flips': '{count} would flip',
+  'hint.best': 'best move, {count} would flip',
+  'analysis.title': 'Move Analysis',
+  'analysis.running': 'Analyzing...',
+  'analysis.failed': 'Analysis failed',
+  'analysis.clean': 'No better moves found',
+  'analysis.move': 'Move {step}',
+  'analysis.played': 'Played {card} at {cell}',
+  'analysis.better': 'Better: {card} at {cell}',
+  'analysis.lost': '{count} lost',
+
+  // --- Move description ---
+  'move.placed': '{owner} placed {card} at {cell}',
+  'move.flippedOne': ', flipped 1 card',
+  'move.flipped': ', flipped {count} cards',
+  'move.causes': ' ({causes})',
+  'move.score': 'Score {p1} to {p2}.',
+
+  'cell.top-left': 'top-left',
+  'cell.top': 'top',
+  'cell.top-right': 'top-right',
+  'cell.left': 'left',
+  'cell.center': 'center',
+  'cell.right': 'right',
+  'cell.bottom-left': 'bottom-left',
+  'cell.bottom': 'bottom',
+  'cell.bottom-right': 'bottom-right',
+
+  // --- Screen reader ---
+  'a11y.board': 'Board',
+  'a11y.hand': '{player} hand',
+  'a11y.score': '{player} score {score}',
+  'a11y.faceDown': 'Face-down card',
+  'a11y.card': '{card}, level {level}: {stats}',
+  'a11y.stat': '{side} {value}',
+  'a11y.side.0': 'top',
+  'a11y.side.1': 'left',
+  'a11y.side.2': 'right',
+  'a11y.side.3': 'bottom',
+  'a11y.tile': '{element} tile',
+  'a11y.empty': 'empty',
+  'a11y.blocked': 'blocked',
+  'a11y.preview': 'stats become {stats}',
+
+  // --- Deck Builder ---
+  'deckBuilder.title': 'Deck',
+  'deckBuilder.titleAccent': 'Builder',
+  'deckBuilder.count': '{visible} / {total} cards',
+  'deckBuilder.name': 'Name',
+  'deckBuilder.total': 'Total',
+  'deckBuilder.min': 'min',
+  'deckBuilder.max': 'max',
+  'deckBuilder.clear': 'Clear',
+  'deckBuilder.highLimit': 'Lv.{level}+ Limit',
+  'deckBuilder.levelCap': 'Total Level Cap',
+  'deckBuilder.deckName': 'Deck name',
+  'deckBuilder.save': 'Save',
+  'deckBuilder.new': 'New',
+  'deckBuilder.saved': 'Saved Decks',
+  'deckBuilder.noSaved': 'No saved decks',
+
+  'deckError.size': 'Deck needs {size} cards ({count}/{size})',
+  'deckError.duplicate': 'Duplicate card: {card}',
+  'deckError.highLevel': 'At most {max} card(s) of Lv.{level}+ ({count} in deck)',
+  'deckError.levelCap': 'Total level {total} exceeds cap of {cap}',
+  'deckError.notOwned': 'Not in collection: {card}',
+  'deckError.usedByP1': 'Already used by Player 1: {card}',
+
+  'cardSetError.noJson': 'No card JSON file found',
+  'cardSetError.badJson': 'The JSON file could not be parsed',
+  'cardSetError.badZip': 'The files could not be read',
+  'cardSetError.notList': 'Expected a list of cards or {"name", "cards"}',
+  'cardSetError.tooFew': 'A set needs at least {min} cards ({count})',
+  'cardError.notObject': 'Not a card object',
+  'cardError.id': 'id must be a positive integer',
+  'cardError.duplicateId': 'Duplicate id {id}',
+  'cardError.name': 'name is missing',
+  'cardError.level': 'level must be a whole number from 1 to 10',
+  'cardError.stats': 'stats must be 4 whole numbers from {min} to {max}',
+  'cardError.attr': 'Unknown attr "{attr}" (use {allowed} or null)',
+  'cardError.img': 'img must be a string',
+  'cardError.imageMissing': 'Image not found: {img}',
+
+  // --- Online ---
+  'online.title': 'Online',
+  'online.titleAccent': 'PvP',
+  'online.status.connecting': 'Connecting...',
+  'online.status.open': 'Connected',
+  'online.status.reconnecting': 'Reconnecting...',
+  'online.status.closed': 'Offline',
+  'online.relayUrl': 'Relay URL',
+  'online.create': 'Create Room',
+  'online.roomCode': 'Room code',
+  'online.join': 'Join',
+  'online.roomCodeLabel': 'Room Code',
+  'online.youAre': 'You are {player}',
+  'online.peerConnected': 'Opponent connected',
+  'online.waiting': 'Waiting for opponent...',
+  'online.hint': 'The player who starts the battle decides the rules and the seed.',
+  'online.start': 'Start Battle',
+  'online.leave': 'Leave Room',
+
+  // --- Stats ---
+  'stats.title': 'Player',
+  'stats.titleAccent': 'Stats',
+  'stats.reset': 'Reset',
+  'stats.confirmReset': 'Delete all recorded matches?',
+  'stats.series': '{count} series',
+  'stats.streak': 'Streak',
+  'stats.best': 'Best',
+  'stats.vsCpu': 'Win Rate vs CPU',
+  'stats.byRules': 'Win Rate by Rules',
+  'stats.noFinished': 'No finished series',
+  'stats.mostUsed': 'Most Used',
+  'stats.bestCards': 'Best Performing',
+  'stats.notEnough': 'Not enough data',
+  'stats.recent': 'Recent Series',
+  'stats.noMatches': 'No matches recorded yet',
+  'stats.unfinished': 'Unfinished',
+  'stats.outcome.WIN': 'Win',
+  'stats.outcome.LOSS': 'Loss',
+  'stats.outcome.DRAW': 'Draw',
+  'stats.suddenDeath': 'Sudden Death',
+  'stats.triggers': 'Same {same} · Plus {plus} · Combo {combo}',
+  'stats.seed': 'Seed',
+  'stats.mode.CPU': 'CPU',
+  'stats.mode.PVP': 'PvP',
+  'stats.mode.ONLINE': 'Online',
+
+  // --- Offline ---
+  'pwa.updateAvailable': 'Update available',
+  'pwa.reload': 'Reload',
+  'pwa.dismiss': 'Later',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,379 @@
+// 日本語バンドル
+import type { MessageKey } from './en';
+
+const ja: Record<MessageKey, string> = {
+  // --- Common ---
+  'common.title': 'タイトル',
+  'common.player1': 'プレイヤー1',
+  'common.player2': 'プレイヤー2',
+  'common.cpu': 'CPU',
+  'common.any': '制限なし',
+  'common.none': 'なし',
+  'common.round': 'ラウンド {round}',
+  'common.language': '言語',
+  'common.animation': '演出の速さ',
+  'animationSpeed.NORMAL': '通常',
+  'animationSpeed.FAST': '速い',
+  'animationSpeed.INSTANT': 'なし',
+
+  'element.fire': '炎',
+  'element.ice': '冷気',
+  'element.thunder': '雷',
+  'element.earth': '地',
+  'element.wind': '風',
+  'element.water': '水',
+  'element.poison': '毒',
+  'element.holy': '聖',
+
+  'difficulty.LOW': 'やさしい',
+  'difficulty.MID': 'ふつう',
+  'difficulty.HIGH': 'むずかしい',
+  'difficulty.EXPERT': 'エキスパート',
+
+  'difficultyInfo.LOW': 'ランダムに置く',
+  'difficultyInfo.MID': '1 手先の結果で選ぶ',
+  'difficultyInfo.HIGH': '3 手先まで読む',
+  'difficultyInfo.EXPERT': '3 手先まで読み、空きが 8 マス以下なら終局まで読む (広い盤面では読みの上限で打ち切ることがある)',
+
+  'rule.elementalEnabled': 'エレメンタル',
+  'rule.sameEnabled': 'セイム',
+  'rule.plusEnabled': 'プラス',
+  'rule.sameWallEnabled': 'セイムウォール',
+  'rule.plusWallEnabled': 'プラスウォール',
+  'rule.openEnabled': 'オープン',
+  'rule.randomEnabled': 'ランダム',
+  'rule.suddenDeathEnabled': 'サドンデス',
+  'rule.reverseEnabled': 'リバース',
+  'rule.fallenAceEnabled': 'Fエース',
+
+  'tradeRule.NONE': 'なし',
+  'tradeRule.ONE': 'ワン',
+  'tradeRule.DIFF': 'ディファレンス',
+  'tradeRule.DIRECT': 'ダイレクト',
+  'tradeRule.ALL': 'オール',
+
+  'boardLayout.classic': 'クラシック 3×3',
+  'boardLayout.grand': 'グランド 4×4',
+  'boardLayout.wide': 'ワイド 5×3',
+  'boardLayout.pillars': '柱つき 4×4',
+  'boardLayout.ring': 'リング 3×3',
+
+  'elementLayout.SCATTER': 'ランダム',
+  'elementLayout.CORNERS': '四隅',
+  'elementLayout.CENTER': '中央',
+  'elementLayout.CROSS': '十字',
+  'elementLayout.EDGES': '辺',
+  'tileEffect.BOOST': 'ブーストのマス',
+  'tileEffect.LOCK': 'ロックのマス',
+
+  'seriesType.SINGLE': '1 本勝負',
+  'seriesType.BEST_OF': '過半数',
+  'seriesType.FIRST_TO': '先取',
+  'seriesType.TOTAL_CARDS': '合計枚数',
+  'seriesFormat.SINGLE': '1 本勝負',
+  'seriesFormat.BEST_OF': '{count} 本勝負',
+  'seriesFormat.FIRST_TO': '{count} 勝先取',
+  'seriesFormat.TOTAL_CARDS': '{count} ラウンドの合計枚数',
+
+  // --- Title ---
+  'title.gameMode': 'ゲームモード',
+  'title.vsCpu': 'CPU 対戦',
+  'title.localPvp': 'ローカル対戦',
+  'title.onlinePvp': 'オンライン対戦',
+  'title.rules': 'ルール設定',
+  'title.cpu': 'CPU: {level}',
+  'title.intelligence': 'CPU の強さ',
+  'title.personality': '性格: {name}',
+  'title.collection': 'コレクション',
+  'title.cardsOwned': '所持 {count} 枚',
+  'title.trade': 'トレード',
+  'title.board': '盤面',
+  'title.handSize': '手札 {count} 枚',
+  'elemental.layout': '配置',
+  'elemental.count': '枚数',
+  'elemental.countRandom': 'ランダム',
+  'elemental.power': '補正',
+  'elemental.boost': 'ブースト',
+  'elemental.locked': 'ロック',
+  'elemental.weights': '出やすさ',
+  'series.format': 'シリーズ',
+  'series.rounds': 'ラウンド',
+  'series.wins': '勝利数',
+  'series.draws': '引き分け',
+  'series.drawsCount': '数える',
+  'series.drawsReplay': 'やり直し',
+  'title.seed': 'シード (空欄でランダム)',
+  'title.continue': 'シリーズを再開',
+  'title.start': 'バトル開始',
+  'title.deckBuilder': 'デッキ編集',
+  'title.campaign': 'キャンペーン',
+  'title.puzzles': 'パズル',
+  'title.cardSets': 'カードセット',
+  'title.stats': '戦績',
+
+  // --- Campaign ---
+  'campaign.title': 'キャンペーン',
+  'campaign.titleAccent': '勝ち抜き戦',
+  'campaign.progress': '{cleared} / {total} 人撃破',
+  'campaign.locked': '未開放',
+  'campaign.cleared': '撃破済み',
+  'campaign.noRules': '基本ルールのみ',
+  'campaign.fixedDeck': '専用デッキ',
+  'campaign.themedDeck': 'テーマデッキ',
+  'campaign.reward': '報酬',
+  'campaign.challenge': '挑戦する',
+  'campaign.rewardEarned': 'コレクションに加わったカード',
+  'campaign.back': 'キャンペーンへ戻る',
+
+  // --- Puzzles ---
+  'puzzle.title': 'パズル',
+  'puzzle.titleAccent': 'チャレンジ',
+  'puzzle.progress': '{solved} / {total} 問正解',
+  'puzzle.solved': '正解済み',
+  'puzzle.goal.WIN': 'このラウンドに勝つ',
+  'puzzle.goal.WIN_BY': '{margin} 点差以上で勝つ',
+  'puzzle.goal.COMBO': '{length} 段のコンボを起こす',
+  'puzzle.emptyTiles': '空きマス {count}',
+  'puzzle.play': '挑戦する',
+  'puzzle.success': '正解',
+  'puzzle.failed': '目標未達成',
+  'puzzle.retry': 'もう一度',
+  'puzzle.back': 'パズル一覧へ戻る',
+
+  // --- Card Sets ---
+  'cardSets.title': 'カード',
+  'cardSets.titleAccent': 'セット',
+  'cardSets.builtIn': '標準セット',
+  'cardSets.cardCount': '{count} 枚',
+  'cardSets.active': '使用中',
+  'cardSets.use': '使う',
+  'cardSets.delete': '削除',
+  'cardSets.note': 'セットを切り替えるとゲームを再読み込みします。コレクション・キャンペーン・パズルは標準セットでのみ遊べます。',
+  'cardSets.import': '読み込み',
+  'cardSets.importHint': 'カードの JSON と画像、またはそれらをまとめた ZIP を選んでください。画像は JSON に data URL で書くこともできます。',
+  'cardSets.choose': 'ファイルを選ぶ',
+  'cardSets.reading': '読み込み中...',
+  'cardSets.name': 'セット名',
+  'cardSets.valid': '有効 {count} 枚',
+  'cardSets.invalid': 'エラー {count} 枚',
+  'cardSets.save': 'セットを保存',
+  'cardSets.cancel': 'キャンセル',
+  'cardSets.saveFailed': 'セットを保存できませんでした (保存容量が足りない可能性があります)',
+  'cardSets.selectFailed': 'セットを切り替えられませんでした (保存領域が使えない可能性があります)',
+
+  // --- Deck Select ---
+  'deckSelect.title': 'デッキ選択',
+  'deckSelect.choice': '{player} の選択',
+  'deckSelect.waiting': '相手を待っています...',
+  'deckSelect.pattern': 'パターン {number}',
+  'deckSelect.select': 'デッキを',
+  'deckSelect.deck': '選択',
+  'deckSelect.confirm': 'もう一度押して決定',
+  'deckSelect.level': 'レベル {level}',
+
+  // --- Coin Toss ---
+  'coinToss.title': 'コイントス',
+  'coinToss.subtitle': '先攻を決めています...',
+  'coinToss.result': '{player} の先攻',
+
+  // --- Battle ---
+  'battle.matchSeed': '対戦シード',
+  'battle.undo': '待った',
+  'battle.redo': 'やり直し',
+  'battle.turn': '{player} のターン',
+  'battle.cpuThinking': 'CPU 思考中...',
+  'battle.reconnecting': '再接続中',
+  'battle.opponentOffline': '相手が切断中',
+  'battle.draw': '引き分け',
+  'battle.suddenDeath': 'サドンデス',
+  'battle.seriesChampion': 'シリーズ優勝',
+  'series.round': 'ラウンド',
+  'series.result': '結果',
+  'series.totalWins': '勝利数',
+  'series.totalCards': '枚数',
+  'series.drawsReplayed': '引き分けはやり直し',
+  'series.notCounted': '引き分け (やり直し)',
+  'battle.matchVictory': 'ラウンド勝利',
+  'battle.replayRound': '再戦する',
+  'battle.rematch': 'もう一度対戦',
+  'battle.returnToTitle': 'タイトルへ戻る',
+  'battle.nextMatch': '次のラウンドへ',
+  'battle.leaveRoom': 'ルームを出る',
+  'battle.watchReplay': 'リプレイを見る',
+  'battle.hints': 'ヒント',
+
+  // --- Trade ---
+  'trade.label': 'トレード: {rule} / {caption}',
+  'trade.direct': '取ったカードがそのまま移ります',
+  'trade.draw': '引き分けのためトレードなし',
+  'trade.chooseOne': 'もらうカードを 1 枚選んでください',
+  'trade.choose': 'もらうカードを {count} 枚選んでください',
+  'trade.youTake': 'あなたがもらうカード',
+  'trade.cpuTakes': 'CPU が持っていくカード',
+  'trade.noCards': 'カードなし',
+  'trade.claim': '受け取ってタイトルへ',
+
+  // --- Replay ---
+  'replay.results': '結果',
+  'replay.round': 'R{round}',
+  'replay.suddenDeath': 'SD',
+  'replay.move': '{step} / {total} 手目',
+  'replay.movesFirst': '{player} の先攻',
+  'replay.share': '共有',
+  'replay.title': 'タイトル',
+
+  // --- Notation ---
+  'notation.text': '棋譜',
+  'notation.link': 'リンク',
+  'notation.copy': 'コピー',
+  'notation.copied': 'コピーしました',
+  'notation.unavailable': 'パズルの局面から始まったラウンドや伏せ札のあるラウンドは共有できません',
+  'notation.import': '棋譜を読み込む',
+  'notation.placeholder': '棋譜かリンクを貼り付け',
+  'notation.load': '読み込む',
+  'notation.error.format': '棋譜の形式ではありません',
+  'notation.error.version': '対応していない棋譜の版です: {detail}',
+  'notation.error.board': '盤面の大きさが不明です: {detail}',
+  'notation.error.rules': '不明なルールです: {detail}',
+  'notation.error.tiles': '盤面のマスが不正です: {detail}',
+  'notation.error.card': '不明なカードです: {detail}',
+  'notation.error.hands': '手札の枚数が盤面の大きさと合いません',
+  'notation.error.move': '置けない手です: {detail}',
+
+  // --- Hints & Analysis ---
+  'hint.flips': '{count} 枚めくれる',
+  'hint.best': '最善手、{count} 枚めくれる',
+  'analysis.title': '検討',
+  'analysis.running': '検討中...',
+  'analysis.failed': '検討できませんでした',
+  'analysis.clean': 'より良い手は見つかりませんでした',
+  'analysis.move': '{step} 手目',
+  'analysis.played': '{card} を{cell}に置いた',
+  'analysis.better': '最善: {card} を{cell}',
+  'analysis.lost': '{count} 枚の損',
+
+  // --- Move description ---
+  'move.placed': '{owner} が {card} を{cell}に置いた',
+  'move.flippedOne': '、1 枚をめくった',
+  'move.flipped': '、{count} 枚をめくった',
+  'move.causes': ' ({causes})',
+  'move.score': 'スコア {p1} 対 {p2}。',
+
+  'cell.top-left': '左上',
+  'cell.top': '上',
+  'cell.top-right': '右上',
+  'cell.left': '左',
+  'cell.center': '中央',
+  'cell.right': '右',
+  'cell.bottom-left': '左下',
+  'cell.bottom': '下',
+  'cell.bottom-right': '右下',
+
+  // --- Screen reader ---
+  'a11y.board': '盤面',
+  'a11y.hand': '{player} の手札',
+  'a11y.score': '{player} のスコア {score}',
+  'a11y.faceDown': '裏向きのカード',
+  'a11y.card': '{card}、レベル {level}: {stats}',
+  'a11y.stat': '{side} {value}',
+  'a11y.side.0': '上',
+  'a11y.side.1': '左',
+  'a11y.side.2': '右',
+  'a11y.side.3': '下',
+  'a11y.tile': '{element}のマス',
+  'a11y.empty': '空き',
+  'a11y.blocked': '置けないマス',
+  'a11y.preview': '置くと {stats}',
+
+  // --- Deck Builder ---
+  'deckBuilder.title': 'デッキ',
+  'deckBuilder.titleAccent': '編集',
+  'deckBuilder.count': '{visible} / {total} 枚',
+  'deckBuilder.name': '名前',
+  'deckBuilder.total': '合計',
+  'deckBuilder.min': '最小',
+  'deckBuilder.max': '最大',
+  'deckBuilder.clear': 'クリア',
+  'deckBuilder.highLimit': 'Lv.{level} 以上の上限',
+  'deckBuilder.levelCap': 'レベル合計の上限',
+  'deckBuilder.deckName': 'デッキ名',
+  'deckBuilder.save': '保存',
+  'deckBuilder.new': '新規',
+  'deckBuilder.saved': '保存したデッキ',
+  'deckBuilder.noSaved': '保存したデッキはありません',
+
+  'deckError.size': 'デッキは {size} 枚必要です ({count}/{size})',
+  'deckError.duplicate': 'カードが重複しています: {card}',
+  'deckError.highLevel': 'Lv.{level} 以上は {max} 枚まで (デッキに {count} 枚)',
+  'deckError.levelCap': 'レベル合計 {total} が上限 {cap} を超えています',
+  'deckError.notOwned': '所持していないカード: {card}',
+  'deckError.usedByP1': 'プレイヤー1 が使用済み: {card}',
+
+  'cardSetError.noJson': 'カードの JSON ファイルがありません',
+  'cardSetError.badJson': 'JSON ファイルを解析できません',
+  'cardSetError.badZip': 'ファイルを読み込めません',
+  'cardSetError.notList': 'カードの配列か {"name", "cards"} の形式にしてください',
+  'cardSetError.tooFew': 'セットには {min} 枚以上のカードが必要です ({count} 枚)',
+  'cardError.notObject': 'カードのオブジェクトではありません',
+  'cardError.id': 'id は正の整数にしてください',
+  'cardError.duplicateId': 'id {id} が重複しています',
+  'cardError.name': 'name がありません',
+  'cardError.level': 'level は 1〜10 の整数にしてください',
+  'cardError.stats': 'stats は {min}〜{max} の整数 4 つにしてください',
+  'cardError.attr': '不明な attr "{attr}" ({allowed} または null)',
+  'cardError.img': 'img は文字列にしてください',
+  'cardError.imageMissing': '画像が見つかりません: {img}',
+
+  // --- Online ---
+  'online.title': 'オンライン',
+  'online.titleAccent': '対戦',
+  'online.status.connecting': '接続中...',
+  'online.status.open': '接続済み',
+  'online.status.reconnecting': '再接続中...',
+  'online.status.closed': 'オフライン',
+  'online.relayUrl': '中継サーバーの URL',
+  'online.create': 'ルームを作る',
+  'online.roomCode': 'ルームコード',
+  'online.join': '参加',
+  'online.roomCodeLabel': 'ルームコード',
+  'online.youAre': 'あなたは{player}です',
+  'online.peerConnected': '相手が接続しました',
+  'online.waiting': '相手を待っています...',
+  'online.hint': 'バトルを開始した側のルールとシードで対戦します。',
+  'online.start': 'バトル開始',
+  'online.leave': 'ルームを出る',
+
+  // --- Stats ---
+  'stats.title': 'プレイヤー',
+  'stats.titleAccent': '戦績',
+  'stats.reset': 'リセット',
+  'stats.confirmReset': '記録したすべての対戦を削除しますか?',
+  'stats.series': '{count} シリーズ',
+  'stats.streak': '連勝',
+  'stats.best': '最高',
+  'stats.vsCpu': 'CPU の強さ別の勝率',
+  'stats.byRules': 'ルール別の勝率',
+  'stats.noFinished': '終わったシリーズはありません',
+  'stats.mostUsed': 'よく使うカード',
+  'stats.bestCards': '勝率の高いカード',
+  'stats.notEnough': 'データが足りません',
+  'stats.recent': '最近のシリーズ',
+  'stats.noMatches': 'まだ対戦の記録がありません',
+  'stats.unfinished': '未決着',
+  'stats.outcome.WIN': '勝ち',
+  'stats.outcome.LOSS': '負け',
+  'stats.outcome.DRAW': '引き分け',
+  'stats.suddenDeath': 'サドンデス',
+  'stats.triggers': 'セイム {same} · プラス {plus} · コンボ {combo}',
+  'stats.seed': 'シード',
+  'stats.mode.CPU': 'CPU',
+  'stats.mode.PVP': '対人',
+  'stats.mode.ONLINE': 'オンライン',
+
+  // --- Offline ---
+  'pwa.updateAvailable': '新しい版があります',
+  'pwa.reload': '更新する',
+  'pwa.dismiss': 'あとで',
+};
+
+export default ja;
@@ -1,10 +1,20 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App' 
+import I18nProvider from './components/I18nProvider'
+import UpdatePrompt from './components/UpdatePrompt'
+import { activateCardSet } from './cardSets'
+import { registerServiceWorker } from './pwa'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+registerServiceWorker()
+
+// カスタムカードセットを選んでいれば、カードを参照する画面を描く前に差し替える
+activateCardSet().then(() => ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <App />
+      <UpdatePrompt />
+    </I18nProvider>
   </React.StrictMode>,
-)
\ No newline at end of file
+))
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest';
+import type { BoardShape, BoardTile, GameSettings } from './types';
+import { applyMove, createBoard, getLegalMoves, handSize, type GameState } from './engine';
+import { BOARD_LAYOUTS, CARD_DATA, CLASSIC_BOARD, CLASSIC_ELEMENTAL, DEFAULT_SETTINGS } from './constants';
+import { createRoundLog, recordMove, type RoundLog } from './history';
+import { canWriteNotation, extractNotation, NOTATION_HASH_PREFIX, notationUrl, parseNotation, writeNotation } from './notation';
+import { createRng } from './rng';
+
+/** seed で配った手札と盤面から、ランダムな手を moves 手だけ進めたラウンドの記録 */
+function playRound(settings: GameSettings, seed: string, moves = Infinity, board?: BoardTile[]): RoundLog {
+  const rng = createRng(seed);
+  const size = handSize(settings.boardShape);
+  const deck = rng.shuffle(CARD_DATA).slice(0, size * 2);
+  const initial: GameState = {
+    board: board ?? createBoard(rng, settings.elementalEnabled, settings.boardShape, settings.elementalConfig),
+    hands: { P1: deck.slice(0, size).map(c => ({ ...c, owner: 'P1' as const })), P2: deck.slice(size).map(c => ({ ...c, owner: 'P2' as const })) },
+    turn: rng.next() < 0.5 ? 'P1' : 'P2',
+    rules: settings,
+  };
+  let log = createRoundLog(1, initial);
+  let state = initial;
+  for (let i = 0; i < moves && getLegalMoves(state).length > 0; i++) {
+    const move = rng.pick(getLegalMoves(state));
+    const result = applyMove(state, move);
+    log = recordMove(log, move, result.events);
+    state = result.state;
+  }
+  return log;
+}
+
+function roundTrip(log: RoundLog): RoundLog {
+  const text = writeNotation(log);
+  const parsed = parseNotation(text);
+  if ('error' in parsed) throw new Error(`${parsed.error} ${parsed.detail ?? ''} in ${text}`);
+  return parsed.log;
+}
+
+// 開始局面と着手を、記法で表せる範囲 (カード ID・マス・タイル) で比べる
+function expectSameRound(actual: RoundLog, expected: RoundLog) {
+  const tiles = (log: RoundLog) => log.initial.board.map(t => ({ element: t.element, blocked: !!t.blocked, effect: t.effect ?? null }));
+  const ids = (log: RoundLog) => ({ P1: log.initial.hands.P1.map(c => c.id), P2: log.initial.hands.P2.map(c => c.id) });
+  expect(tiles(actual)).toEqual(tiles(expected));
+  expect(ids(actual)).toEqual(ids(expected));
+  expect(actual.initial.turn).toBe(expected.initial.turn);
+  expect(actual.initial.rules.boardShape).toEqual(expected.initial.rules.boardShape);
+  expect(actual.moves).toEqual(expected.moves);
+}
+
+const settingsFor = (overrides: Partial<GameSettings>): GameSettings => ({
+  ...DEFAULT_SETTINGS, randomEnabled: false, suddenDeathEnabled: false, ...overrides,
+});
+
+describe('writeNotation / parseNotation', () => {
+  it('writes the documented format', () => {
+    const log = playRound(settingsFor({ elementalEnabled: true, sameEnabled: true, openEnabled: true, plusEnabled: false }), 'format', 3);
+    expect(writeNotation(log)).toMatch(/^TT1\/3x3\/[A-Z-]+\/[.xfitewaph+!]{9}\/\d+(-\d+){4}\/\d+(-\d+){4}\/[12]\/\d+[A-C][1-3](-\d+[A-C][1-3]){2}$/);
+  });
+
+  it('round-trips finished rounds with every rule', () => {
+    const settings = settingsFor({
+      elementalEnabled: true, sameEnabled: true, plusEnabled: true, sameWallEnabled: true, plusWallEnabled: true,
+      reverseEnabled: true, fallenAceEnabled: true, openEnabled: true,
+    });
+    for (let i = 0; i < 20; i++) {
+      const log = playRound(settings, `all:${i}`);
+      const parsed = roundTrip(log);
+      expectSameRound(parsed, log);
+      expect(writeNotation(parsed)).toBe(writeNotation(log));
+    }
+  });
+
+  it('round-trips unfinished rounds and rounds without moves', () => {
+    const settings = settingsFor({});
+    for (const moves of [0, 1, 4]) expectSameRound(roundTrip(playRound(settings, `partial:${moves}`, moves)), playRound(settings, `partial:${moves}`, moves));
+    expect(writeNotation(playRound(settings, 'empty', 0)).endsWith('/')).toBe(true);
+  });
+
+  it.each(BOARD_LAYOUTS.map(l => [l.id, l.shape] as const))('round-trips the %s board', (_, shape: BoardShape) => {
+    const settings = settingsFor({ boardShape: shape, elementalEnabled: true, sameEnabled: true, plusEnabled: true });
+    for (let i = 0; i < 5; i++) {
+      const log = playRound(settings, `shape:${i}`);
+      expectSameRound(roundTrip(log), log);
+    }
+  });
+
+  it('round-trips blocked, BOOST and LOCK tiles', () => {
+    const shape = BOARD_LAYOUTS.find(l => l.id === 'pillars')!.shape;
+    const settings = settingsFor({
+      boardShape: shape, elementalEnabled: true,
+      elementalConfig: { ...CLASSIC_ELEMENTAL, count: 3, boostTiles: 2, lockedTiles: 2 },
+    });
+    const log = playRound(settings, 'tiles');
+    const text = writeNotation(log);
+    expect(text.split('/')[3]).toMatch(/^(?=.*\+.*\+)(?=.*!.*!)[^x]{5}x[^x]{4}x[^x]{5}$/);
+    expectSameRound(roundTrip(log), log);
+  });
+
+  it('round-trips the elemental magnitude', () => {
+    const settings = settingsFor({ elementalEnabled: true, elementalConfig: { ...CLASSIC_ELEMENTAL, magnitude: 2, boostTiles: 1 } });
+    const log = playRound(settings, 'magnitude');
+    expect(writeNotation(log).split('/')[2]).toMatch(/2$/);
+    const parsed = roundTrip(log);
+    expect(parsed.initial.rules.elementalConfig?.magnitude).toBe(2);
+    // 補正値が違えばめくれ方も変わるので、着手の記録まで一致することを確かめる
+    expectSameRound(parsed, log);
+    expect(writeNotation(playRound(settingsFor({ elementalEnabled: true }), 'magnitude')).split('/')[2]).not.toMatch(/\d$/);
+  });
+
+  it('keeps only the rules that change the round', () => {
+    const log = playRound(settingsFor({ sameEnabled: false, plusEnabled: false, elementalEnabled: false, randomEnabled: true, suddenDeathEnabled: true, openEnabled: false }), 'rules', 0);
+    expect(writeNotation(log).split('/')[2]).toBe('-');
+  });
+});
+
+describe('notation in URLs', () => {
+  it('reads the notation back out of a share link', () => {
+    const log = playRound(settingsFor({}), 'url', 5);
+    const url = notationUrl(log, 'https://example.com/triple-triad-app/');
+    expect(url.startsWith(`https://example.com/triple-triad-app/${NOTATION_HASH_PREFIX}`)).toBe(true);
+    expect(extractNotation(`  ${url}  `)).toBe(writeNotation(log));
+    // チャットなどでエスケープされた URL も読める
+    expect(extractNotation(url.replace(writeNotation(log), encodeURIComponent(writeNotation(log))))).toBe(writeNotation(log));
+    expectSameRound(roundTrip(log), log);
+  });
+
+  it('only writes rounds that start empty with both hands known', () => {
+    const log = playRound(settingsFor({}), 'known', 0);
+    expect(canWriteNotation(log)).toBe(true);
+    const hidden = { ...log, initial: { ...log.initial, hands: { ...log.initial.hands, P2: log.initial.hands.P2.map(c => ({ ...c, id: -1 })) } } };
+    expect(canWriteNotation(hidden)).toBe(false);
+    const board = log.initial.board.map((t, i) => (i === 0 ? { ...t, card: { ...CARD_DATA[0], owner: 'P2' as const } } : t));
+    expect(canWriteNotation({ ...log, initial: { ...log.initial, board } })).toBe(false);
+  });
+});
+
+describe('parseNotation errors', () => {
+  const valid = writeNotation(playRound(settingsFor({ sameEnabled: true }), 'errors', 2, createBoard(createRng('plain'), false, CLASSIC_BOARD)));
+  const fields = valid.split('/');
+  const withField = (index: number, value: string) => fields.map((f, i) => (i === index ? value : f)).join('/');
+  const errorOf = (text: string) => {
+    const parsed = parseNotation(text);
+    return 'error' in parsed ? parsed.error : null;
+  };
+
+  it('accepts the unmodified text', () => {
+    expect(errorOf(valid)).toBeNull();
+  });
+
+  it.each([
+    ['an empty string', ''],
+    ['a missing field', fields.slice(0, 7).join('/')],
+    ['an extra field', `${valid}/1`],
+    ['an unknown first player', withField(6, '3')],
+  ])('rejects %s as malformed', (_, text) => {
+    expect(errorOf(text)).toBe('format');
+  });
+
+  it('rejects other versions', () => {
+    expect(errorOf(withField(0, 'TT2'))).toBe('version');
+  });
+
+  it.each(['1x3', '9x9', '3x', 'axb', '3-3'])('rejects the board size %s', size => {
+    expect(errorOf(withField(1, size))).toBe('board');
+  });
+
+  it.each(['SZ', 'S3', 's', ''])('rejects the rules field %s', rules => {
+    expect(errorOf(withField(2, rules))).toBe('rules');
+  });
+
+  it.each(['........', '..........', '....#....', 'xxxxxxxxx'])('rejects the tiles %s', tiles => {
+    expect(errorOf(withField(3, tiles))).toBe('tiles');
+  });
+
+  it('rejects unknown cards', () => {
+    expect(errorOf(withField(4, fields[4].replace(/^\d+/, '99999')))).toBe('card');
+    expect(errorOf(withField(5, fields[5].replace(/^\d+/, 'x')))).toBe('card');
+  });
+
+  it('rejects hands of the wrong size', () => {
+    expect(errorOf(withField(4, fields[4].split('-').slice(1).join('-')))).toBe('hands');
+    // ring の盤面 (8 マス) では 4 枚ずつ
+    expect(errorOf(withField(3, '....x....'))).toBe('hands');
+  });
+
+  describe('illegal moves', () => {
+    const [first, second] = fields[7].split('-');
+    const cell = (code: string) => code.replace(/^\d+/, '');
+    const cardOf = (code: string) => code.match(/^\d+/)![0];
+    const opponentCard = fields[6] === '1' ? fields[5].split('-')[0] : fields[4].split('-')[0];
+
+    it.each([
+      ['a cell that is already taken', () => `${first}-${cardOf(second)}${cell(first)}`],
+      ['a card from the other hand', () => `${opponentCard}${cell(first)}`],
+      ['a card that was already played', () => `${first}-${cardOf(first)}${cell(second)}`],
+      ['a cell outside the board', () => `${cardOf(first)}D1`],
+      ['a row outside the board', () => `${cardOf(first)}A4`],
+      ['a garbled move', () => `${first}-?`],
+    ])('rejects %s', (_, moves) => {
+      expect(errorOf(withField(7, moves()))).toBe('move');
+    });
+
+    it('rejects moves onto blocked cells', () => {
+      // 中央が置けない ring の盤面 (手札 4 枚) に作り直す
+      const hand = (field: string) => field.split('-').slice(0, 4).join('-');
+      const firstCard = (fields[6] === '1' ? fields[4] : fields[5]).split('-')[0];
+      const ring = (moves: string) => [fields[0], fields[1], fields[2], '....x....', hand(fields[4]), hand(fields[5]), fields[6], moves].join('/');
+      expect(errorOf(ring(`${firstCard}B2`))).toBe('move');
+      expect(errorOf(ring(`${firstCard}A1`))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+// --- Game Notation ---
+// 1 ラウンドを短い文字列にする。チャットに貼ったり URL (#game=...) で共有したりして、受け取った側はリプレイで開く
+//
+//   TT1/3x3/ESO/f..+..xi./12-8-44-3-90/6-7-21-9-10/1/12B2-7A1-44C3
+//
+// "/" で区切った 8 つの欄:
+//   1. 版 (TT1)
+//   2. 盤面の大きさ (列x行)
+//   3. 有効なルールの記号 (RULE_CODES)。なしは "-"。末尾の数字は属性タイルの補正値 (1 は省略)
+//   4. 左上から 1 マス 1 文字の開始盤面: "." 普通のマス / "x" 置けないマス / "+" BOOST / "!" LOCK / 属性 (ELEMENT_CODES)
+//   5. 6. P1・P2 の開始時の手札 (カード ID を "-" でつなぐ)
+//   7. 先手 (1 か 2)
+//   8. 着手 (カード ID とマスの名前。マスは列の英字と行の番号) を "-" でつなぐ。着手なしは空
+import type { BoardShape, BoardTile, Card, GameSettings, PlayerType, RuleToggleKey, TileEffect } from './types';
+import { applyMove, cellCount, elementalOf, handSize, isLegalMove, shapeOf, type GameState } from './engine';
+import { CARD_DATA, CLASSIC_ELEMENTAL, DEFAULT_SETTINGS } from './constants';
+import { createRoundLog, recordMove, type RoundLog } from './history';
+
+export type NotationError = 'format' | 'version' | 'board' | 'rules' | 'tiles' | 'card' | 'hands' | 'move';
+
+export type ParsedNotation = { log: RoundLog } | { error: NotationError; detail?: string };
+
+const VERSION = 'TT1';
+export const NOTATION_HASH_PREFIX = '#game=';
+const MAX_SIDE = 8;
+
+// Random と Sudden Death はラウンドの中身に関わらないので記録しない
+const RULE_CODES: Partial<Record<RuleToggleKey, string>> = {
+  elementalEnabled: 'E', sameEnabled: 'S', plusEnabled: 'P', openEnabled: 'O',
+  sameWallEnabled: 'W', plusWallEnabled: 'L', reverseEnabled: 'R', fallenAceEnabled: 'A',
+};
+
+const ELEMENT_CODES: Record<string, string> = {
+  fire: 'f', ice: 'i', thunder: 't', earth: 'e', wind: 'w', water: 'a', poison: 'p', holy: 'h',
+};
+
+const EFFECT_CODES: Record<TileEffect, string> = { BOOST: '+', LOCK: '!' };
+
+const invert = (codes: Record<string, string>) => Object.fromEntries(Object.entries(codes).map(([k, v]) => [v, k]));
+const RULE_KEYS_BY_CODE = invert(RULE_CODES as Record<string, string>) as Record<string, RuleToggleKey>;
+const ELEMENTS_BY_CODE = invert(ELEMENT_CODES);
+const EFFECTS_BY_CODE = invert(EFFECT_CODES) as Record<string, TileEffect>;
+
+const cellCode = (idx: number, shape: BoardShape) => `${String.fromCharCode(65 + (idx % shape.cols))}${Math.floor(idx / shape.cols) + 1}`;
+
+function tileCode(tile: BoardTile): string {
+  if (tile.blocked) return 'x';
+  if (tile.element) return ELEMENT_CODES[tile.element];
+  return tile.effect ? EFFECT_CODES[tile.effect] : '.';
+}
+
+/** 書き出せるのは空の盤面から始まり、両者の手札がすべて分かっているラウンドだけ (パズルやオンライン対戦の伏せ札は不可) */
+export const canWriteNotation = (log: RoundLog): boolean =>
+  log.initial.board.every(tile => !tile.card) && [...log.initial.hands.P1, ...log.initial.hands.P2].every(c => c.id >= 0);
+
+// --- Writer ---
+
+export function writeNotation(log: RoundLog): string {
+  const { initial } = log;
+  const shape = shapeOf(initial.rules);
+  const { magnitude } = elementalOf(initial.rules);
+  const settings = initial.rules as Partial<GameSettings>; // アプリの記録は Open や Elemental を含む設定全体を持つ
+  const rules = (Object.keys(RULE_CODES) as RuleToggleKey[]).filter(key => settings[key]).map(key => RULE_CODES[key]).join('');
+  const hand = (owner: PlayerType) => initial.hands[owner].map(c => c.id).join('-');
+  return [
+    VERSION,
+    `${shape.cols}x${shape.rows}`,
+    `${rules || '-'}${magnitude !== 1 ? magnitude : ''}`,
+    initial.board.map(tileCode).join(''),
+    hand('P1'),
+    hand('P2'),
+    initial.turn === 'P1' ? '1' : '2',
+    log.moves.map(m => `${m.cardId}${cellCode(m.boardIdx, shape)}`).join('-'),
+  ].join('/');
+}
+
+/** 共有用の URL。今のページの URL のハッシュに入れる */
+export const notationUrl = (log: RoundLog, base = `${window.location.origin}${window.location.pathname}`): string =>
+  `${base}${NOTATION_HASH_PREFIX}${writeNotation(log)}`;
+
+// --- Parser ---
+
+/** URL をそのまま貼っても読めるよう、#game= より後ろを取り出す */
+export function extractNotation(text: string): string {
+  const trimmed = text.trim();
+  const hash = trimmed.indexOf(NOTATION_HASH_PREFIX);
+  if (hash < 0) return trimmed;
+  try {
+    return decodeURIComponent(trimmed.slice(hash + NOTATION_HASH_PREFIX.length));
+  } catch {
+    return trimmed.slice(hash + NOTATION_HASH_PREFIX.length); // 壊れたエスケープはそのまま読ませて形式のエラーにする
+  }
+}
+
+function parseHand(field: string, owner: PlayerType): Card[] | string {
+  const cards: Card[] = [];
+  for (const id of field.split('-')) {
+    const card = /^\d+$/.test(id) ? CARD_DATA.find(c => c.id === Number(id)) : undefined;
+    if (!card) return id;
+    cards.push({ ...card, owner });
+  }
+  return cards;
+}
+
+/** 文字列を開始局面と着手の記録に戻す。着手は 1 手ずつルールエンジンで適用し、置けない手があれば error にする */
+export function parseNotation(text: string): ParsedNotation {
+  const fields = extractNotation(text).split('/');
+  if (fields.length !== 8) return { error: 'format' };
+  const [version, size, ruleField, tileField, p1Field, p2Field, first, moveField] = fields;
+  if (version !== VERSION) return { error: 'version', detail: version };
+
+  const dims = /^(\d)x(\d)$/.exec(size);
+  const cols = Number(dims?.[1]);
+  const rows = Number(dims?.[2]);
+  if (!dims || cols < 2 || rows < 2 || cols > MAX_SIDE || rows > MAX_SIDE) return { error: 'board', detail: size };
+
+  const rules = /^(-|[A-Z]+)([12]?)$/.exec(ruleField);
+  if (!rules) return { error: 'rules', detail: ruleField };
+  const letters = rules[1] === '-' ? [] : rules[1].split('');
+  const unknown = letters.find(l => !RULE_KEYS_BY_CODE[l]);
+  if (unknown) return { error: 'rules', detail: unknown };
+
+  const tileCodes = tileField.split('');
+  if (tileCodes.length !== cols * rows) return { error: 'tiles', detail: tileField };
+  const badTile = tileCodes.find(c => c !== '.' && c !== 'x' && !ELEMENTS_BY_CODE[c] && !EFFECTS_BY_CODE[c]);
+  if (badTile) return { error: 'tiles', detail: badTile };
+  const board: BoardTile[] = tileCodes.map(c => ({
+    card: null, element: ELEMENTS_BY_CODE[c] ?? null,
+    ...(c === 'x' ? { blocked: true } : {}), ...(EFFECTS_BY_CODE[c] ? { effect: EFFECTS_BY_CODE[c] } : {}),
+  }));
+  const shape: BoardShape = { cols, rows, blocked: board.flatMap((tile, i) => (tile.blocked ? [i] : [])) };
+  if (shape.blocked.length >= cellCount(shape)) return { error: 'tiles', detail: tileField };
+
+  const p1 = parseHand(p1Field, 'P1');
+  const p2 = parseHand(p2Field, 'P2');
+  if (typeof p1 === 'string') return { error: 'card', detail: p1 };
+  if (typeof p2 === 'string') return { error: 'card', detail: p2 };
+  if (p1.length !== handSize(shape) || p2.length !== handSize(shape)) return { error: 'hands' };
+  if (first !== '1' && first !== '2') return { error: 'format' };
+
+  const settings: GameSettings = {
+    ...DEFAULT_SETTINGS,
+    ...Object.fromEntries(Object.values(RULE_KEYS_BY_CODE).map(key => [key, letters.some(l => RULE_KEYS_BY_CODE[l] === key)])),
+    randomEnabled: false, suddenDeathEnabled: false,
+    boardShape: shape,
+    elementalConfig: { ...CLASSIC_ELEMENTAL, magnitude: rules[2] ? Number(rules[2]) : 1 },
+  };
+  const initial: GameState = { board, hands: { P1: p1, P2: p2 }, turn: first === '1' ? 'P1' : 'P2', rules: settings };
+
+  // 着手はカード ID で書くので、今の手札での位置に直しながら進める
+  let log = createRoundLog(1, initial);
+  let state = initial;
+  for (const code of moveField ? moveField.split('-') : []) {
+    const move = /^(\d+)([A-Z])(\d+)$/.exec(code);
+    const col = move ? move[2].charCodeAt(0) - 65 : -1;
+    const row = move ? Number(move[3]) - 1 : -1;
+    const handIdx = move ? state.hands[state.turn].findIndex(c => c.id === Number(move[1])) : -1;
+    const next = { boardIdx: row * cols + col, handIdx };
+    if (col < 0 || col >= cols || row < 0 || row >= rows || !isLegalMove(state, next)) return { error: 'move', detail: code };
+    const result = applyMove(state, next);
+    log = recordMove(log, next, result.events);
+    state = result.state;
+  }
+  return { log };
+}
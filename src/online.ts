@@ -0,0 +1,169 @@
+// --- Online PvP ---
+// 中継サーバー (server/relay.js) との通信。サーバーは届いた順に通し番号を振って両者へ配信するので、
+// 自分の操作も相手の操作も、サーバーから戻ってきたエントリを順番に適用すれば両方の画面が一致する
+import type { Card, GameSettings, PlayerType } from './types';
+
+export type RelayStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type OnlinePayload =
+  | { kind: 'start'; settings: GameSettings; seed: string } // シリーズ開始・再戦。ルールは開始した側のものを使う
+  | { kind: 'deck'; seed: string; cards: Card[] | null } // seed はラウンドのシード。Open ルールなしでは中身を伏せる
+  | { kind: 'move'; seed: string; handIdx: number; boardIdx: number; card: Card } // seed はゲームのシード
+  | { kind: 'reveal'; seed: string; hand: Card[] }; // ラウンド終了時に残った手札を公開する (Sudden Death 用)
+
+export interface RelayEntry {
+  seq: number;
+  from: PlayerType;
+  payload: OnlinePayload;
+  secret?: { cards: Card[] }; // 送り主にだけ返ってくる伏せたデッキ
+}
+
+export interface OnlineSession {
+  url: string;
+  room: string;
+  seat: PlayerType;
+  token: string;
+}
+
+export interface RelayHandlers {
+  onJoined: (session: OnlineSession) => void;
+  onEntry: (entry: RelayEntry) => void;
+  onPeer: (connected: boolean) => void;
+  onStatus: (status: RelayStatus) => void;
+  onError: (message: string) => void;
+}
+
+export interface RelayConnection {
+  send: (payload: OnlinePayload, secret?: RelayEntry['secret']) => void;
+  close: () => void;
+}
+
+type ServerMessage =
+  | { type: 'joined'; room: string; seat: PlayerType; token: string }
+  | ({ type: 'entry' } & RelayEntry)
+  | { type: 'peer'; connected: boolean }
+  | { type: 'error'; message: string };
+
+const SESSION_KEY = 'triple-triad-online';
+const MAX_RETRY_MS = 10000;
+
+export const defaultRelayUrl = (): string =>
+  typeof location === 'undefined' ? 'ws://localhost:8787' : `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname}:8787`;
+
+// --- Hidden Cards ---
+
+// 相手の伏せ札。中身はわからないので id を負にして区別する
+export const HIDDEN_CARD: Card = { id: -1, level: 0, name: '?', stats: [0, 0, 0, 0], attr: null, img: '' };
+
+export const isHiddenCard = (card: Card): boolean => card.id < 0;
+
+export const hiddenHand = (count: number, owner: PlayerType): Card[] => Array.from({ length: count }, () => ({ ...HIDDEN_CARD, owner }));
+
+/** 伏せ札を公開されたカードで前から順に置き換える */
+export function fillHiddenCards(cards: Card[], revealed: Card[]): Card[] {
+  const rest = [...revealed];
+  return cards.map(c => (isHiddenCard(c) && rest.length > 0 ? { ...rest.shift()!, owner: c.owner } : c));
+}
+
+// --- Session Storage ---
+// リロードしても同じ席に戻れるよう、タブ単位で部屋とトークンを覚えておく
+
+export function loadSession(): OnlineSession | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY);
+    return raw ? (JSON.parse(raw) as OnlineSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: OnlineSession | null) {
+  try {
+    if (session) sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(SESSION_KEY);
+  } catch {
+    // 保存できなくても接続中の対戦は続けられる
+  }
+}
+
+// --- Connection ---
+
+/**
+ * 部屋を作成 (room 未指定) または参加する。切断されたら受信済みの通し番号以降を要求して自動で再接続する。
+ * 再接続では取りこぼしたエントリだけが届くが、リロード後 (lastSeq = 0) は最初からすべて届く。
+ */
+export function connectRelay(url: string, target: { room?: string; token?: string }, handlers: RelayHandlers): RelayConnection {
+  let socket: WebSocket | null = null;
+  let session: OnlineSession | null = null;
+  let lastSeq = 0;
+  let retryMs = 1000;
+  let closed = false;
+  let ready = false; // 現在のソケットで部屋に入り終えたか
+  let outbox: string[] = []; // 再接続中に送ろうとしたメッセージ
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const open = () => {
+    handlers.onStatus(session ? 'reconnecting' : 'connecting');
+    const ws = new WebSocket(url);
+    socket = ws;
+    ready = false;
+
+    ws.onopen = () => {
+      retryMs = 1000;
+      const room = session?.room ?? target.room;
+      const token = session?.token ?? target.token;
+      ws.send(JSON.stringify(room ? { type: 'join', room, token, since: lastSeq } : { type: 'create' }));
+    };
+
+    ws.onmessage = (e: MessageEvent<string>) => {
+      const message = JSON.parse(e.data) as ServerMessage;
+      switch (message.type) {
+        case 'joined':
+          session = { url, room: message.room, seat: message.seat, token: message.token };
+          ready = true;
+          handlers.onJoined(session);
+          handlers.onStatus('open');
+          outbox.forEach(m => ws.send(m));
+          outbox = [];
+          break;
+        case 'entry':
+          if (message.seq <= lastSeq) return;
+          lastSeq = message.seq;
+          handlers.onEntry({ seq: message.seq, from: message.from, payload: message.payload, secret: message.secret });
+          break;
+        case 'peer':
+          handlers.onPeer(message.connected);
+          break;
+        case 'error':
+          handlers.onError(message.message);
+          // 部屋に入れなかった場合 (部屋の破棄・満席) は再接続しても同じなので諦める
+          if (!ready) close();
+          break;
+      }
+    };
+
+    ws.onclose = () => {
+      if (closed || socket !== ws) return;
+      handlers.onStatus('reconnecting');
+      retryTimer = setTimeout(open, retryMs);
+      retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+    };
+  };
+
+  const close = () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    socket?.close();
+    handlers.onStatus('closed');
+  };
+
+  open();
+  return {
+    send: (payload, secret) => {
+      const message = JSON.stringify({ type: 'send', payload, ...(secret ? { secret } : {}) });
+      if (ready && socket?.readyState === WebSocket.OPEN) socket.send(message);
+      else outbox.push(message);
+    },
+    close,
+  };
+}
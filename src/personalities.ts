@@ -0,0 +1,40 @@
+// --- CPU Personalities ---
+// CPU の打ち筋とデッキの選び方の重み。data/personalities.json に定義し、コードを変えずに追加できる
+import type { LocalizedText } from './i18n';
+import PERSONALITY_DATA from './data/personalities.json';
+
+/** evaluateMove の加点。MID はこの評価で手を選び、HIGH・EXPERT は読みの結果が同じ手の中からこの評価で選ぶ */
+export interface MoveWeights {
+  same: number; // SAME の成立
+  plus: number; // PLUS の成立
+  flip: number; // めくれる 1 枚ごと
+  combo: number; // COMBO でめくれる 1 枚ごとの上乗せ
+  stats: number; // 置いたカードの 4 辺の平均
+  corner: number; // 角 (隣接マスが 2 つ以下) に置く
+  exposure: number; // 空きマスに向いた辺の弱さ (10 - 値) ごとの減点
+  noise: number; // 0〜noise の乱数を足す
+}
+
+/** 候補のデッキを比べるときの重み (カード 1 枚ごとに足す) */
+export interface DeckWeights {
+  strength: number; // 4 辺の平均
+  peak: number; // 一番強い辺
+  weakest: number; // 一番弱い辺
+  elements: number; // 盤面の属性タイルとの相性
+}
+
+export interface CpuPersonality {
+  id: string;
+  name: LocalizedText;
+  description: LocalizedText;
+  weights: MoveWeights;
+  deck: DeckWeights;
+}
+
+export const CPU_PERSONALITIES = PERSONALITY_DATA as CpuPersonality[];
+
+export const DEFAULT_PERSONALITY = 'balanced';
+
+// 見つからない ID (削除されたパーソナリティの古い設定など) は先頭のものを使う
+export const findPersonality = (id: string | undefined): CpuPersonality =>
+  CPU_PERSONALITIES.find(p => p.id === id) ?? CPU_PERSONALITIES[0];
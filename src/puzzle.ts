@@ -0,0 +1,121 @@
+// --- Puzzles ---
+// 途中の局面から始めて目標の達成を目指す一人用の問題。問題は data/puzzles.json に定義する
+import type { BoardTile, Card, GameSettings, MatchResult, PlayerType, RuleToggleKey } from './types';
+import type { LocalizedText, Translator } from './i18n';
+import type { RoundLog } from './history';
+import { calculateStats, cellCount, type GameState } from './engine';
+import { CARD_DATA, CLASSIC_BOARD, CLASSIC_ELEMENTAL, withRules } from './constants';
+import PUZZLE_DATA from './data/puzzles.json';
+
+export interface PuzzleTile {
+  card?: number; // カード ID。省略すると空きマス
+  owner?: PlayerType;
+  element?: string;
+}
+
+export type PuzzleGoal =
+  | { type: 'WIN' }
+  | { type: 'WIN_BY'; margin: number } // P1 の得点 - P2 の得点がこれ以上
+  | { type: 'COMBO'; length: number }; // P1 の 1 手でコンボがこの段数まで連鎖する
+
+export interface Puzzle {
+  id: string;
+  name: LocalizedText;
+  description?: LocalizedText;
+  rules: Partial<Record<RuleToggleKey, boolean>>; // 書かれていないルールは無効
+  board: PuzzleTile[]; // 左上から 9 マス
+  hands: Record<PlayerType, number[]>;
+  turn: PlayerType;
+  goal: PuzzleGoal;
+}
+
+export interface PuzzleProgress {
+  version: 1;
+  solved: string[];
+}
+
+/** 挑戦中のパズル。終わったら previousSettings に戻す */
+export interface PuzzleRun {
+  puzzleId: string;
+  previousSettings: GameSettings;
+}
+
+const STORAGE_KEY = 'triple-triad-puzzles';
+
+const findCard = (id: number): Card | undefined => CARD_DATA.find(c => c.id === id);
+
+// 盤面が埋まる前にどちらかの手札が尽きる問題は遊べないので読み込まない
+function isPlayable(puzzle: Puzzle): boolean {
+  const ids = [...puzzle.board.flatMap(t => (t.card !== undefined ? [t.card] : [])), ...puzzle.hands.P1, ...puzzle.hands.P2];
+  const empty = puzzle.board.filter(t => t.card === undefined).length;
+  const other = puzzle.turn === 'P1' ? 'P2' : 'P1';
+  return puzzle.board.length === cellCount(CLASSIC_BOARD) && empty > 0 && ids.every(id => findCard(id))
+    && puzzle.hands[puzzle.turn].length >= Math.ceil(empty / 2) && puzzle.hands[other].length >= Math.floor(empty / 2);
+}
+
+export const PUZZLES = (PUZZLE_DATA as Puzzle[]).filter(isPlayable);
+
+export const findPuzzle = (id: string): Puzzle | null => PUZZLES.find(p => p.id === id) ?? null;
+
+/** 相手 (P2) は EXPERT の探索で最善の応手を返す。パズルは両者の手札を公開して遊ぶ */
+export function puzzleSettings(puzzle: Puzzle, base: GameSettings): GameSettings {
+  return {
+    ...withRules(base, puzzle.rules),
+    openEnabled: true, randomEnabled: false, suddenDeathEnabled: false,
+    cpuDifficulty: 'EXPERT', pvpMode: false, collectionMode: false, tradeRule: 'NONE', boardShape: CLASSIC_BOARD, elementalConfig: CLASSIC_ELEMENTAL,
+    seriesFormat: { type: 'SINGLE', length: 1, countDraws: true },
+  };
+}
+
+// 置かれているカードはルールエンジンで置いたときと同じく属性の補正済みの値を持たせる
+export function puzzleState(puzzle: Puzzle, settings: GameSettings): GameState {
+  const board: BoardTile[] = puzzle.board.map(tile => {
+    const element = tile.element ?? null;
+    const card = tile.card !== undefined ? findCard(tile.card)! : null;
+    return { element, card: card && { ...card, owner: tile.owner ?? 'P2', modifiedStats: calculateStats(card, { element }) } };
+  });
+  const hand = (owner: PlayerType) => puzzle.hands[owner].map(id => ({ ...findCard(id)!, owner }));
+  return { board, hands: { P1: hand('P1'), P2: hand('P2') }, turn: puzzle.turn, rules: settings };
+}
+
+export function isGoalMet(goal: PuzzleGoal, log: RoundLog, result: MatchResult): boolean {
+  switch (goal.type) {
+    case 'WIN': return result.winner === 'P1';
+    case 'WIN_BY': return result.scores[0] - result.scores[1] >= goal.margin;
+    case 'COMBO': return log.moves.some(m => m.owner === 'P1' && m.flips.some(f => f.cause === 'COMBO' && f.depth >= goal.length));
+  }
+}
+
+export function describeGoal(goal: PuzzleGoal, tr: Translator): string {
+  switch (goal.type) {
+    case 'WIN': return tr.t('puzzle.goal.WIN');
+    case 'WIN_BY': return tr.t('puzzle.goal.WIN_BY', { margin: goal.margin });
+    case 'COMBO': return tr.t('puzzle.goal.COMBO', { length: goal.length });
+  }
+}
+
+export const recordSolved = (progress: PuzzleProgress, puzzleId: string): PuzzleProgress =>
+  progress.solved.includes(puzzleId) ? progress : { ...progress, solved: [...progress.solved, puzzleId] };
+
+// --- Storage ---
+
+export function loadPuzzleProgress(): PuzzleProgress {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as PuzzleProgress;
+      if (parsed.version === 1 && Array.isArray(parsed.solved)) return parsed;
+    }
+  } catch {
+    // 壊れたデータは未解決から
+  }
+  return { version: 1, solved: [] };
+}
+
+export function savePuzzleProgress(progress: PuzzleProgress) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch {
+    // 保存できなくても解いた結果はその場で表示する
+  }
+}
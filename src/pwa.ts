@@ -0,0 +1,48 @@
+// --- Offline (PWA) ---
+// 本番のビルドで Service Worker (pwa/sw.js から作る sw.js) を登録し、新しい版が待機したら画面に知らせる
+
+type UpdateListener = () => void;
+
+let waiting: ServiceWorker | null = null;
+const listeners = new Set<UpdateListener>();
+
+const notify = (worker: ServiceWorker) => {
+  waiting = worker;
+  listeners.forEach(listener => listener());
+};
+
+export const isUpdateWaiting = () => waiting !== null;
+
+/** 新しい版が使えるようになったら呼ぶ。登録を解除する関数を返す */
+export function onUpdateAvailable(listener: UpdateListener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+/** 待機中の版に切り替え、切り替わったら読み込み直す */
+export function applyUpdate() {
+  if (!waiting) return;
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'SKIP_WAITING' });
+}
+
+// 初めて入れたとき (controller がまだない) は更新ではないので知らせない
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  const base = import.meta.env.BASE_URL;
+  navigator.serviceWorker.register(`${base}sw.js`, { scope: base }).then(registration => {
+    if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) notify(worker);
+      });
+    });
+    // 開きっぱなしの端末でも画面に戻ったときに新しい版を確かめる
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') registration.update().catch(() => {});
+    });
+  }).catch(() => {
+    // 登録できなくても通信できればそのまま遊べる
+  });
+}
@@ -0,0 +1,51 @@
+// --- Seeded Random ---
+// 同じシードからは同じデッキ・属性タイル・先手・CPU の手が得られるよう、乱数はすべてここを通す
+export interface Rng {
+  next(): number; // [0, 1)
+  int(max: number): number; // [0, max)
+  pick<T>(items: readonly T[]): T;
+  shuffle<T>(items: readonly T[]): T[];
+}
+
+const SEED_CHARS = 'abcdefghijkmnpqrstuvwxyz23456789'; // 読み間違えやすい l/o/0/1 を除く
+
+/** 画面に表示・入力しやすい 8 文字のシード */
+export function randomSeed(): string {
+  return Array.from({ length: 8 }, () => SEED_CHARS[Math.floor(Math.random() * SEED_CHARS.length)]).join('');
+}
+
+// FNV-1a: 任意の文字列を 32bit の初期値にする
+function hashSeed(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32。用途ごとに "シード:用途" のような派生シードで別系列を作る */
+export function createRng(seed: string = randomSeed()): Rng {
+  let a = hashSeed(seed);
+  const next = () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (max: number) => Math.floor(next() * max);
+  return {
+    next,
+    int,
+    pick: items => items[int(items.length)],
+    // Fisher-Yates (sort に乱数の比較関数を渡すと偏る)
+    shuffle: items => {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [result[i], result[j]] = [result[j], result[i]];
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// --- Series Formats ---
+// ラウンドの結果からシリーズの決着と勝者を決める。1 ラウンドの勝敗はルールエンジン (getWinner) が決める
+import type { MatchResult, PlayerType, SeriesFormat, SeriesType } from './types';
+import { getWinner } from './engine';
+import { BEST_OF_THREE } from './constants';
+import type { Translator } from './i18n';
+
+// タイトルで選べる長さ (SINGLE は長さを持たない)
+export const SERIES_LENGTHS: Record<SeriesType, number[]> = {
+  SINGLE: [1],
+  BEST_OF: [3, 5, 7],
+  FIRST_TO: [2, 3, 4, 5],
+  TOTAL_CARDS: [2, 3, 4, 5],
+};
+
+export const SERIES_TYPES = Object.keys(SERIES_LENGTHS) as SeriesType[];
+
+const wins = (results: MatchResult[], player: PlayerType) => results.filter(r => r.winner === player).length;
+
+/** 数えるラウンド。countDraws が false なら引き分けは数えない */
+export const countedRounds = (results: MatchResult[], format: SeriesFormat): MatchResult[] =>
+  format.countDraws ? results : results.filter(r => r.winner !== 'DRAW');
+
+/** 最も長引いたときのラウンド数 (数えない引き分けは含まない) */
+function maxRounds(format: SeriesFormat): number {
+  switch (format.type) {
+    case 'SINGLE': return 1;
+    case 'BEST_OF': case 'TOTAL_CARDS': return format.length;
+    case 'FIRST_TO': return format.length * 2 - 1;
+  }
+}
+
+/** ヘッダーに並べる結果の枠の数。数えない引き分けの分だけ増える */
+export const seriesSlots = (results: MatchResult[], format: SeriesFormat): number =>
+  Math.max(maxRounds(format) + results.length - countedRounds(results, format).length, results.length);
+
+export const cardTotals = (results: MatchResult[]): [number, number] =>
+  results.reduce<[number, number]>((sum, r) => [sum[0] + r.scores[0], sum[1] + r.scores[1]], [0, 0]);
+
+export function isSeriesOver(results: MatchResult[], format: SeriesFormat = BEST_OF_THREE): boolean {
+  const played = countedRounds(results, format).length;
+  const most = Math.max(wins(results, 'P1'), wins(results, 'P2'));
+  switch (format.type) {
+    case 'SINGLE': return played >= 1;
+    case 'BEST_OF': return played >= format.length || most > format.length / 2;
+    case 'FIRST_TO': return most >= format.length;
+    case 'TOTAL_CARDS': return played >= format.length;
+  }
+}
+
+/** TOTAL_CARDS は数えたラウンドの得点の合計、それ以外は勝ったラウンドの数で決める */
+export function getSeriesWinner(results: MatchResult[], format: SeriesFormat = BEST_OF_THREE): PlayerType | 'DRAW' {
+  if (format.type === 'TOTAL_CARDS') return getWinner(cardTotals(countedRounds(results, format)));
+  return getWinner([wins(results, 'P1'), wins(results, 'P2')]);
+}
+
+/** 種類を切り替える。長さはその種類で最初に選べる値に戻す */
+export const withSeriesType = (format: SeriesFormat, type: SeriesType): SeriesFormat => ({ ...format, type, length: SERIES_LENGTHS[type][0] });
+
+/** 例: "Best of 3" / "First to 2 wins · draws replayed" */
+export const describeSeries = (format: SeriesFormat, tr: Translator): string =>
+  tr.t(`seriesFormat.${format.type}`, { count: format.length }) + (format.countDraws ? '' : ` · ${tr.t('series.drawsReplayed')}`);
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BoardTile, Card } from './types';
+import { loadSeries, saveSeries, SAVE_VERSION } from './seriesSave';
+import { CLASSIC_BOARD, DEFAULT_SETTINGS } from './constants';
+
+const STORAGE_KEY = 'triple-triad-series';
+
+// テストは node で動くので、localStorage はメモリ上の簡単なものに置き換える
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); },
+  };
+}
+
+beforeEach(() => { vi.stubGlobal('localStorage', memoryStorage()); });
+afterEach(() => { vi.unstubAllGlobals(); });
+
+const card = (id: number, attr: string | null, name = `#${id}`): Card => ({ id, level: 1, name, stats: [5, 5, 5, 5], attr, img: '', owner: 'P1' });
+
+// 属性が漢字だったころ (SAVE_VERSION 1) のセーブ。後から追加された設定項目はない
+function legacySave() {
+  const board: BoardTile[] = Array.from({ length: 9 }, () => ({ card: null, element: null }));
+  board[0] = { card: { ...card(1, '火'), owner: 'P2', modifiedStats: [6, 6, 6, 6] }, element: '火' };
+  board[4] = { card: null, element: '聖' };
+  const { boardShape, elementalConfig, seriesFormat, cpuPersonality, ...oldSettings } = DEFAULT_SETTINGS;
+  return {
+    version: 1,
+    savedAt: 0,
+    snapshot: {
+      gameState: 'PLAYING', round: 1, matchResults: [],
+      p1Hand: [card(2, '冷'), card(3, null, '火の鳥')],
+      p2Hand: [card(4, '毒')],
+      board, turn: 'P1', settings: { ...oldSettings, sameEnabled: false },
+      tossWinner: 'P1', selectingPlayer: 'P1', suddenDeathHands: null,
+      roundDecks: { P1: [card(2, '冷'), card(3, null, '火の鳥')], P2: [card(1, '火'), card(4, '毒')] },
+      roundLog: null, seriesLog: [], matchSeed: 'm', gameSeed: 'g',
+    },
+  };
+}
+
+const store = (value: unknown) => localStorage.setItem(STORAGE_KEY, typeof value === 'string' ? value : JSON.stringify(value));
+
+describe('loadSeries', () => {
+  it('converts kanji elements in a version 1 save to element IDs', () => {
+    store(legacySave());
+    const snapshot = loadSeries()!;
+    expect(snapshot.board[0].element).toBe('fire');
+    expect(snapshot.board[0].card?.attr).toBe('fire');
+    expect(snapshot.board[4].element).toBe('holy');
+    expect(snapshot.p1Hand.map(c => c.attr)).toEqual(['ice', null]);
+    expect(snapshot.p2Hand[0].attr).toBe('poison');
+    expect(snapshot.roundDecks.P2.map(c => c.attr)).toEqual(['fire', 'poison']);
+    // カード名に同じ漢字があっても書き換えない
+    expect(snapshot.p1Hand[1].name).toBe('火の鳥');
+  });
+
+  it('fills settings added after the save with their defaults and keeps the saved ones', () => {
+    store(legacySave());
+    const snapshot = loadSeries()!;
+    expect(snapshot.settings.sameEnabled).toBe(false);
+    expect(snapshot.settings.boardShape).toEqual(CLASSIC_BOARD);
+    expect(snapshot.settings.elementalConfig).toEqual(DEFAULT_SETTINGS.elementalConfig);
+    expect(snapshot.settings.seriesFormat).toEqual(DEFAULT_SETTINGS.seriesFormat);
+    expect(snapshot.seriesId).toBeTruthy();
+    expect(snapshot.campaign).toBeNull();
+    expect(snapshot.puzzle).toBeNull();
+  });
+
+  it('restores what saveSeries wrote', () => {
+    store(legacySave());
+    const snapshot = loadSeries()!;
+    saveSeries(snapshot);
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!).version).toBe(SAVE_VERSION);
+    expect(loadSeries()).toEqual(snapshot);
+  });
+
+  it('does not convert element IDs again in a current save', () => {
+    store(legacySave());
+    const snapshot = loadSeries()!;
+    saveSeries({ ...snapshot, board: snapshot.board.map((t, i) => (i === 8 ? { ...t, element: 'water' } : t)) });
+    expect(loadSeries()!.board[8].element).toBe('water');
+  });
+
+  it.each([
+    ['nothing saved', null],
+    ['broken JSON', '{"version": 2, "snap'],
+    ['null', 'null'],
+    ['a number', '42'],
+    ['a save without a snapshot', { version: 2, savedAt: 0 }],
+    ['a newer version', { ...legacySave(), version: SAVE_VERSION + 1 }],
+    ['a missing version', { ...legacySave(), version: undefined }],
+    ['a non-numeric version', { ...legacySave(), version: 'two' }],
+    ['a phase that cannot be resumed', { ...legacySave(), snapshot: { ...legacySave().snapshot, gameState: 'TITLE' } }],
+  ])('returns null for %s', (_, value) => {
+    if (value !== null) store(value);
+    expect(() => loadSeries()).not.toThrow();
+    expect(loadSeries()).toBeNull();
+  });
+
+  it('clears the save when given null', () => {
+    store(legacySave());
+    saveSeries(null);
+    expect(loadSeries()).toBeNull();
+  });
+});
+
@@ -0,0 +1,95 @@
+// --- Series Save ---
+// 進行中のシリーズを遷移のたびに localStorage へ保存し、リロード後にタイトルから再開できるようにする
+import type { BoardTile, Card, GamePhase, GameSettings, MatchResult, PlayerType } from './types';
+import type { RoundLog } from './history';
+import type { CampaignRun } from './campaign';
+import type { PuzzleRun } from './puzzle';
+import { DEFAULT_SETTINGS, LEGACY_ELEMENT_IDS } from './constants';
+import { createSeriesId } from './stats';
+
+export interface SeriesSnapshot {
+  gameState: GamePhase;
+  round: number;
+  matchResults: MatchResult[];
+  p1Hand: Card[];
+  p2Hand: Card[];
+  board: BoardTile[];
+  turn: PlayerType;
+  settings: GameSettings;
+  tossWinner: PlayerType | null;
+  selectingPlayer: PlayerType;
+  suddenDeathHands: Record<PlayerType, Card[]> | null;
+  roundDecks: Record<PlayerType, Card[]>;
+  roundLog: RoundLog | null;
+  seriesLog: RoundLog[];
+  matchSeed: string;
+  gameSeed: string;
+  seriesId: string; // 戦績の記録先
+  campaign: CampaignRun | null;
+  puzzle: PuzzleRun | null;
+}
+
+export const SAVE_VERSION = 2; // 2: 属性を漢字から ID (fire など) に変更
+
+interface SeriesSaveFile {
+  version: number;
+  savedAt: number;
+  snapshot: SeriesSnapshot;
+}
+
+const STORAGE_KEY = 'triple-triad-series';
+
+// シリーズの途中として再開できる画面。リプレイ閲覧中は結果画面に戻す
+const RESUMABLE: GamePhase[] = ['DECK_SELECT', 'COIN_TOSS', 'PLAYING', 'ROUND_END', 'GAME_OVER'];
+
+export const isResumablePhase = (phase: GamePhase): boolean => RESUMABLE.includes(phase) || phase === 'REPLAY';
+
+// カードの attr と盤面の element の値だけを置き換える (カード名に同じ漢字が含まれていても触れない)
+function migrateElementIds<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(migrateElementIds) as T;
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [
+    key,
+    (key === 'attr' || key === 'element') && typeof v === 'string' ? LEGACY_ELEMENT_IDS[v] ?? v : migrateElementIds(v),
+  ])) as T;
+}
+
+/**
+ * 古い形式のセーブを現在の形式に変換する。ルールを追加したら SAVE_VERSION を上げてここに変換を足す。
+ * 変換できない (未来や不明なバージョン・中身のないファイルなど) 場合は null
+ */
+function migrate(file: SeriesSaveFile): SeriesSnapshot | null {
+  if (!Number.isInteger(file?.version) || file.version < 1 || file.version > SAVE_VERSION || !file.snapshot) return null;
+  const snapshot = file.version < 2 ? migrateElementIds(file.snapshot) : file.snapshot;
+  // 保存後に追加された設定項目は既定値で補う。戦績の記録より前のセーブには seriesId、キャンペーン・パズルより前のセーブには campaign・puzzle がない
+  return {
+    ...snapshot, settings: { ...DEFAULT_SETTINGS, ...snapshot.settings }, seriesId: snapshot.seriesId || createSeriesId(),
+    campaign: snapshot.campaign ?? null, puzzle: snapshot.puzzle ?? null,
+  };
+}
+
+export function loadSeries(): SeriesSnapshot | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const snapshot = migrate(JSON.parse(raw) as SeriesSaveFile);
+    return snapshot && RESUMABLE.includes(snapshot.gameState) ? snapshot : null;
+  } catch {
+    // 壊れたセーブは再開候補に出さない
+    return null;
+  }
+}
+
+export function saveSeries(snapshot: SeriesSnapshot | null) {
+  try {
+    if (!snapshot) {
+      localStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+    const gameState = snapshot.gameState === 'REPLAY' ? 'GAME_OVER' : snapshot.gameState;
+    const file: SeriesSaveFile = { version: SAVE_VERSION, savedAt: Date.now(), snapshot: { ...snapshot, gameState } };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+  } catch {
+    // 保存できなくても対戦は続けられる
+  }
+}
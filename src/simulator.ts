@@ -0,0 +1,173 @@
+// --- Headless Simulator ---
+// React を使わずにルールエンジンと CPU だけで対戦を回す。AI の強さの比較やカードバランスの確認用 (cli/simulate.ts から使う)
+import type { Card, GameSettings, PlayerType } from './types';
+import { applyMove, collectOwnedCards, createBoard, getScores, getWinner, handSize, isBoardFull, type GameState } from './engine';
+import { getBestMove } from './ai';
+import { generateValidDeck } from './decks';
+import { CARD_DATA } from './constants';
+import { createRng } from './rng';
+import { ruleSetLabel } from './stats';
+
+export type Strategy = GameSettings['cpuDifficulty'];
+export type Side = 'A' | 'B';
+
+export const STRATEGIES: Strategy[] = ['LOW', 'MID', 'HIGH', 'EXPERT'];
+
+export interface SimulationOptions {
+  strategies: Record<Side, Strategy>;
+  games: number;
+  seed: string; // ゲーム i はシード "seed:i" で配布・盤面・先手・CPU の乱数が決まる
+  settings: GameSettings;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface GameRecord {
+  seats: Record<Side, PlayerType>;
+  decks: Record<PlayerType, Card[]>;
+  first: PlayerType;
+  winner: PlayerType | 'DRAW';
+  scores: [number, number];
+  suddenDeaths: number;
+}
+
+export interface SideReport {
+  strategy: Strategy;
+  wins: number;
+  winRate: number;
+  averageScore: number;
+}
+
+export interface CardReport {
+  id: number;
+  name: string;
+  level: number;
+  games: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  winRate: number;
+  contribution: number; // (勝ち + 引き分け/2) / 使用数 - 0.5。両デッキの平均は 0 になる
+}
+
+export interface SimulationReport {
+  seed: string;
+  games: number;
+  rules: string;
+  settings: GameSettings;
+  sides: Record<Side, SideReport>;
+  draws: number;
+  drawRate: number;
+  firstPlayer: { wins: number; losses: number; draws: number; winRate: number };
+  cards: CardReport[];
+}
+
+const MAX_SUDDEN_DEATH = 5; // 引き分けが続いた場合の再戦の上限
+
+const ratio = (n: number, total: number): number => (total ? Math.round((n / total) * 1000) / 1000 : 0);
+
+// --- Games ---
+
+export function playGame(index: number, options: SimulationOptions): GameRecord {
+  const { settings, strategies } = options;
+  const rng = createRng(`${options.seed}:${index}`);
+  // 席の有利不利を打ち消すため、奇数番目のゲームは A と B の席を入れ替える
+  const seats: Record<Side, PlayerType> = index % 2 === 0 ? { A: 'P1', B: 'P2' } : { A: 'P2', B: 'P1' };
+  const strategyOf = (player: PlayerType): Strategy => strategies[seats.A === player ? 'A' : 'B'];
+
+  const size = handSize(settings.boardShape);
+  const p1Deck = generateValidDeck(settings.deckConstraints, rng, undefined, CARD_DATA, size);
+  const p2Deck = generateValidDeck(settings.deckConstraints, rng, new Set(p1Deck.map(c => c.id)), CARD_DATA, size);
+  const decks: Record<PlayerType, Card[]> = { P1: p1Deck.map(c => ({ ...c, owner: 'P1' })), P2: p2Deck.map(c => ({ ...c, owner: 'P2' })) };
+
+  let hands = decks;
+  let first: PlayerType = rng.next() < 0.5 ? 'P1' : 'P2';
+  const firstOfRound = first;
+  for (let suddenDeaths = 0; ; suddenDeaths++) {
+    let state: GameState = { board: createBoard(rng, settings.elementalEnabled, settings.boardShape, settings.elementalConfig), hands, turn: first, rules: settings };
+    while (!isBoardFull(state.board)) {
+      const move = getBestMove(state, { ...settings, cpuDifficulty: strategyOf(state.turn) }, rng);
+      state = applyMove(state, move).state;
+    }
+    const scores = getScores(state.board, state.hands);
+    const winner = getWinner(scores);
+    if (winner !== 'DRAW' || !settings.suddenDeathEnabled || suddenDeaths >= MAX_SUDDEN_DEATH) {
+      return { seats, decks, first: firstOfRound, winner, scores, suddenDeaths };
+    }
+    hands = collectOwnedCards(state.board, state.hands);
+    first = rng.next() < 0.5 ? 'P1' : 'P2';
+  }
+}
+
+// --- Report ---
+
+export function summarizeGames(records: GameRecord[], options: SimulationOptions): SimulationReport {
+  const total = records.length;
+  const side = (s: Side): SideReport => {
+    const wins = records.filter(r => r.winner === r.seats[s]).length;
+    const score = records.reduce((sum, r) => sum + r.scores[r.seats[s] === 'P1' ? 0 : 1], 0);
+    return { strategy: options.strategies[s], wins, winRate: ratio(wins, total), averageScore: total ? Math.round((score / total) * 100) / 100 : 0 };
+  };
+  const draws = records.filter(r => r.winner === 'DRAW').length;
+  const firstWins = records.filter(r => r.winner === r.first).length;
+
+  // cards.json の全カードを出力する (使われなかったカードは 0)
+  const cards = new Map<number, CardReport>(CARD_DATA.map(c => [c.id, { id: c.id, name: c.name, level: c.level, games: 0, wins: 0, draws: 0, losses: 0, winRate: 0, contribution: 0 }]));
+  records.forEach(r => (['P1', 'P2'] as const).forEach(player => r.decks[player].forEach(card => {
+    const stat = cards.get(card.id);
+    if (!stat) return;
+    stat.games++;
+    if (r.winner === 'DRAW') stat.draws++;
+    else if (r.winner === player) stat.wins++;
+    else stat.losses++;
+  })));
+  cards.forEach(stat => {
+    stat.winRate = ratio(stat.wins, stat.games);
+    stat.contribution = stat.games ? Math.round(((stat.wins + stat.draws / 2) / stat.games - 0.5) * 1000) / 1000 : 0;
+  });
+
+  return {
+    seed: options.seed,
+    games: total,
+    rules: ruleSetLabel(options.settings),
+    settings: options.settings,
+    sides: { A: side('A'), B: side('B') },
+    draws,
+    drawRate: ratio(draws, total),
+    firstPlayer: { wins: firstWins, losses: total - draws - firstWins, draws, winRate: ratio(firstWins, total) },
+    cards: [...cards.values()],
+  };
+}
+
+export function runSimulation(options: SimulationOptions): SimulationReport {
+  const records: GameRecord[] = [];
+  for (let i = 0; i < options.games; i++) {
+    records.push(playGame(i, options));
+    options.onProgress?.(i + 1, options.games);
+  }
+  return summarizeGames(records, options);
+}
+
+// --- CSV ---
+
+const toCsv = (rows: (string | number)[][]): string =>
+  rows.map(row => row.map(v => (typeof v === 'string' && /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : String(v))).join(',')).join('\n') + '\n';
+
+export const summaryCsv = (report: SimulationReport): string => toCsv([
+  ['metric', 'value'],
+  ['seed', report.seed],
+  ['games', report.games],
+  ['rules', report.rules],
+  ['a_strategy', report.sides.A.strategy],
+  ['a_win_rate', report.sides.A.winRate],
+  ['a_average_score', report.sides.A.averageScore],
+  ['b_strategy', report.sides.B.strategy],
+  ['b_win_rate', report.sides.B.winRate],
+  ['b_average_score', report.sides.B.averageScore],
+  ['draw_rate', report.drawRate],
+  ['first_player_win_rate', report.firstPlayer.winRate],
+]);
+
+export const cardsCsv = (report: SimulationReport): string => toCsv([
+  ['id', 'name', 'level', 'games', 'wins', 'draws', 'losses', 'win_rate', 'contribution'],
+  ...report.cards.map(c => [c.id, c.name, c.level, c.games, c.wins, c.draws, c.losses, c.winRate, c.contribution]),
+]);
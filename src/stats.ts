@@ -0,0 +1,184 @@
+// --- Player Statistics ---
+// 終わったラウンドとシリーズを localStorage に記録し、難易度・ルール・カードごとの成績を集計する
+import type { GameSettings, PlayerType } from './types';
+import { getScores, getWinner } from './engine';
+import { replayRound, type RoundLog } from './history';
+
+export type TriggerKind = 'SAME' | 'PLUS' | 'COMBO';
+export type SeriesMode = 'CPU' | 'PVP' | 'ONLINE';
+export type Outcome = 'WIN' | 'LOSS' | 'DRAW';
+
+export interface RoundRecord {
+  round: number;
+  suddenDeath: boolean;
+  winner: PlayerType | 'DRAW';
+  scores: number[];
+  decks: Record<PlayerType, number[]>; // ラウンド開始時の手札のカード ID
+  triggers: Record<TriggerKind, number>; // カードを裏返した SAME/PLUS/COMBO の回数
+}
+
+export interface SeriesRecord {
+  id: string;
+  playedAt: number; // 最初のラウンドが終わった時刻
+  mode: SeriesMode;
+  seat: PlayerType; // 成績を集計する側 (CPU 戦・ローカル対人戦は P1、オンラインは自分の席)
+  settings: GameSettings;
+  seed: string;
+  rounds: RoundRecord[];
+  winner: PlayerType | 'DRAW' | null; // null は未決着 (途中でやめたシリーズ)
+}
+
+export type SeriesMeta = Omit<SeriesRecord, 'rounds' | 'winner'>;
+
+export interface StatsStore {
+  version: 1;
+  series: SeriesRecord[];
+}
+
+const STORAGE_KEY = 'triple-triad-stats';
+const MAX_SERIES = 200;
+const MIN_CARD_ROUNDS = 3; // 勝率ランキングに載せる最低使用ラウンド数
+
+export const createSeriesId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// --- Recording ---
+
+export function toRoundRecord(log: RoundLog): RoundRecord {
+  const final = replayRound(log);
+  const scores = log.result?.scores ?? getScores(final.board, final.hands);
+  const triggers: Record<TriggerKind, number> = { SAME: 0, PLUS: 0, COMBO: 0 };
+  log.moves.forEach(m => {
+    new Set(m.flips.map(f => f.cause)).forEach(cause => { if (cause !== 'BASIC') triggers[cause]++; });
+  });
+  return {
+    round: log.round,
+    suddenDeath: log.suddenDeath,
+    winner: log.result?.winner ?? getWinner(scores),
+    scores,
+    decks: { P1: log.initial.hands.P1.map(c => c.id), P2: log.initial.hands.P2.map(c => c.id) },
+    triggers,
+  };
+}
+
+/** ラウンド終了のたびに呼ぶ。シリーズの記録がなければ作り、決着したら勝者を書き込む */
+export function recordRound(store: StatsStore, meta: SeriesMeta, round: RoundRecord, winner: SeriesRecord['winner']): StatsStore {
+  const existing = store.series.find(s => s.id === meta.id);
+  const record: SeriesRecord = existing
+    ? { ...existing, rounds: [...existing.rounds, round], winner }
+    : { ...meta, rounds: [round], winner };
+  const series = [record, ...store.series.filter(s => s.id !== meta.id)].slice(0, MAX_SERIES);
+  return { ...store, series };
+}
+
+// --- Storage ---
+
+export function loadStats(): StatsStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as StatsStore;
+      if (parsed.version === 1 && Array.isArray(parsed.series)) return parsed;
+    }
+  } catch {
+    // 壊れたデータは空の記録で置き換える
+  }
+  return { version: 1, series: [] };
+}
+
+export function saveStats(store: StatsStore) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // 保存できなくても対戦は続けられる
+  }
+}
+
+// --- Summary ---
+
+export interface WinRate {
+  played: number;
+  wins: number;
+  losses: number;
+}
+
+export interface CardStat {
+  cardId: number;
+  rounds: number;
+  wins: number;
+}
+
+export interface StatsSummary {
+  overall: WinRate;
+  byDifficulty: Record<GameSettings['cpuDifficulty'], WinRate>;
+  byRuleSet: { label: string; rate: WinRate }[];
+  mostUsed: CardStat[];
+  bestCards: CardStat[];
+  currentStreak: number; // 連勝中なら正、連敗中なら負
+  bestStreak: number;
+}
+
+const RULE_LABELS: [keyof GameSettings, string][] = [
+  ['elementalEnabled', 'Elem'], ['sameEnabled', 'Same'], ['plusEnabled', 'Plus'],
+  ['sameWallEnabled', 'S.Wall'], ['plusWallEnabled', 'P.Wall'], ['openEnabled', 'Open'],
+  ['randomEnabled', 'Random'], ['suddenDeathEnabled', 'Sudden'], ['reverseEnabled', 'Reverse'], ['fallenAceEnabled', 'F.Ace'],
+];
+
+export const ruleSetLabel = (settings: GameSettings): string =>
+  RULE_LABELS.filter(([key]) => settings[key]).map(([, label]) => label).join(' + ') || 'Basic';
+
+export const seriesOutcome = (record: SeriesRecord): Outcome | null =>
+  record.winner === null ? null : record.winner === 'DRAW' ? 'DRAW' : record.winner === record.seat ? 'WIN' : 'LOSS';
+
+export const winPercent = (rate: WinRate): number => (rate.played ? Math.round((rate.wins / rate.played) * 100) : 0);
+
+const emptyRate = (): WinRate => ({ played: 0, wins: 0, losses: 0 });
+
+const addOutcome = (rate: WinRate, outcome: Outcome) => {
+  rate.played++;
+  if (outcome === 'WIN') rate.wins++;
+  if (outcome === 'LOSS') rate.losses++;
+};
+
+export function summarizeStats(series: SeriesRecord[]): StatsSummary {
+  const finished = series.filter(s => s.winner !== null).sort((a, b) => a.playedAt - b.playedAt);
+  const overall = emptyRate();
+  const byDifficulty = { LOW: emptyRate(), MID: emptyRate(), HIGH: emptyRate(), EXPERT: emptyRate() };
+  const byRuleSet = new Map<string, WinRate>();
+  let streak = 0;
+  let bestStreak = 0;
+
+  finished.forEach(s => {
+    const outcome = seriesOutcome(s)!;
+    addOutcome(overall, outcome);
+    // 難易度別の勝率は CPU 戦だけを数える
+    if (s.mode === 'CPU') addOutcome(byDifficulty[s.settings.cpuDifficulty], outcome);
+    const label = ruleSetLabel(s.settings);
+    if (!byRuleSet.has(label)) byRuleSet.set(label, emptyRate());
+    addOutcome(byRuleSet.get(label)!, outcome);
+
+    streak = outcome === 'WIN' ? Math.max(streak, 0) + 1 : outcome === 'LOSS' ? Math.min(streak, 0) - 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+  });
+
+  // カードの成績は Sudden Death を除いた、自分が組んだデッキのラウンドで数える
+  const cards = new Map<number, CardStat>();
+  series.forEach(s => s.rounds.filter(r => !r.suddenDeath).forEach(r => {
+    r.decks[s.seat].forEach(id => {
+      const stat = cards.get(id) ?? { cardId: id, rounds: 0, wins: 0 };
+      stat.rounds++;
+      if (r.winner === s.seat) stat.wins++;
+      cards.set(id, stat);
+    });
+  }));
+  const cardStats = [...cards.values()];
+
+  return {
+    overall,
+    byDifficulty,
+    byRuleSet: [...byRuleSet.entries()].map(([label, rate]) => ({ label, rate })).sort((a, b) => b.rate.played - a.rate.played),
+    mostUsed: [...cardStats].sort((a, b) => b.rounds - a.rounds).slice(0, 5),
+    bestCards: cardStats.filter(c => c.rounds >= MIN_CARD_ROUNDS).sort((a, b) => b.wins / b.rounds - a.wins / a.rounds || b.rounds - a.rounds).slice(0, 5),
+    currentStreak: streak,
+    bestStreak,
+  };
+}
@@ -0,0 +1,86 @@
+// --- Animation Timeline ---
+// 1 手で起きたイベントを、置く → SAME/PLUS の表示とそのめくり → 通常のめくり → コンボの段ごとのめくり の順に並べて 1 つずつ再生する
+import type { BoardTile, PlayerType } from './types';
+import type { MoveEvent } from './engine';
+
+export type AnimationSpeed = 'NORMAL' | 'FAST' | 'INSTANT';
+
+export type TimelineStep =
+  | { type: 'PLACE'; boardIdx: number }
+  | { type: 'BANNER'; effect: 'SAME' | 'PLUS' | 'COMBO' }
+  | { type: 'FLIP'; flips: { boardIdx: number; from: PlayerType }[] }; // 同時にめくれる 1 段分
+
+/** 再生中のタイムライン。index の手順まで表示済み */
+export interface Timeline {
+  steps: TimelineStep[];
+  index: number;
+}
+
+export const ANIMATION_SPEEDS: AnimationSpeed[] = ['NORMAL', 'FAST', 'INSTANT'];
+
+// 手順ごとの表示時間 (ms)。INSTANT ではタイムラインを作らない
+export const STEP_DURATIONS: Record<Exclude<AnimationSpeed, 'INSTANT'>, Record<TimelineStep['type'], number>> = {
+  NORMAL: { PLACE: 350, BANNER: 1100, FLIP: 600 },
+  FAST: { PLACE: 120, BANNER: 450, FLIP: 250 },
+};
+
+// カード 1 枚が裏返る時間 (ms)。FLIP の表示時間に収まる長さにする
+export const FLIP_DURATIONS: Record<AnimationSpeed, number> = { NORMAL: 500, FAST: 200, INSTANT: 0 };
+
+const STORAGE_KEY = 'triple-triad-animation';
+
+type FlipEvent = Extract<MoveEvent, { type: 'FLIPPED' }>;
+
+export function buildTimeline(events: MoveEvent[]): TimelineStep[] {
+  const flips = events.filter((e): e is FlipEvent => e.type === 'FLIPPED');
+  const wave = (selected: FlipEvent[]): TimelineStep[] =>
+    (selected.length > 0 ? [{ type: 'FLIP', flips: selected.map(f => ({ boardIdx: f.boardIdx, from: f.from })) }] : []);
+
+  const steps: TimelineStep[] = events.flatMap((e): TimelineStep[] => {
+    if (e.type === 'PLACED') return [{ type: 'PLACE', boardIdx: e.boardIdx }];
+    if (e.type === 'RULE_TRIGGERED') return [{ type: 'BANNER', effect: e.rule }, ...wave(flips.filter(f => f.cause === e.rule))];
+    return [];
+  });
+  steps.push(...wave(flips.filter(f => f.cause === 'BASIC')));
+
+  const depth = Math.max(0, ...flips.map(f => f.depth));
+  if (depth > 0) steps.push({ type: 'BANNER', effect: 'COMBO' });
+  for (let d = 1; d <= depth; d++) steps.push(...wave(flips.filter(f => f.cause === 'COMBO' && f.depth === d)));
+  return steps;
+}
+
+/** 表示する盤面: まだ再生していない段でめくれるカードは元の持ち主のまま見せる */
+export function timelineBoard(board: BoardTile[], timeline: Timeline | null): BoardTile[] {
+  if (!timeline) return board;
+  const pending = new Map(timeline.steps.slice(timeline.index + 1).flatMap(s => (s.type === 'FLIP' ? s.flips.map(f => [f.boardIdx, f.from] as const) : [])));
+  if (pending.size === 0) return board;
+  return board.map((tile, i) => (pending.has(i) && tile.card ? { ...tile, card: { ...tile.card, owner: pending.get(i) } } : tile));
+}
+
+export const currentBanner = (timeline: Timeline | null) => {
+  const step = timeline?.steps[timeline.index];
+  return step?.type === 'BANNER' ? step.effect : null;
+};
+
+// --- Storage ---
+
+export function loadAnimationSpeed(): AnimationSpeed {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as { version: number; speed: AnimationSpeed };
+      if (parsed.version === 1 && ANIMATION_SPEEDS.includes(parsed.speed)) return parsed.speed;
+    }
+  } catch {
+    // 読めなければ通常の速さ
+  }
+  return 'NORMAL';
+}
+
+export function saveAnimationSpeed(speed: AnimationSpeed) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, speed }));
+  } catch {
+    // 保存できなくても今のセッションでは切り替わる
+  }
+}
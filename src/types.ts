@@ -1,19 +1,74 @@
 export type PlayerType = 'P1' | 'P2'; // PLAYER/CPU から P1/P2 に変更
-export type GameState = 'TITLE' | 'DECK_SELECT' | 'COIN_TOSS' | 'PLAYING' | 'ROUND_END' | 'GAME_OVER';
+export type GamePhase = 'TITLE' | 'DECK_BUILDER' | 'DECK_SELECT' | 'COIN_TOSS' | 'PLAYING' | 'ROUND_END' | 'GAME_OVER' | 'REPLAY' | 'LOBBY' | 'STATS' | 'CAMPAIGN' | 'PUZZLES' | 'CARD_SETS';
+export type EffectType = 'SAME' | 'PLUS' | 'COMBO' | null;
+export type TradeRule = 'NONE' | 'ONE' | 'DIFF' | 'DIRECT' | 'ALL';
+
+export interface DeckConstraints {
+  maxHighLevel: number | null; // レベル 8 以上のカードの上限枚数
+  totalLevelCap: number | null; // デッキ 5 枚のレベル合計の上限
+}
+
+/** 盤面の形。blocked (左上から数えたマスの番号) には置けず、隣のカードから見ると盤面の端と同じ扱いになる */
+export interface BoardShape {
+  cols: number;
+  rows: number;
+  blocked: number[];
+}
+
+// 属性タイルを置くマス。SCATTER はランダムなマス、それ以外は盤面の形から決まるマス
+export type ElementLayout = 'SCATTER' | 'CORNERS' | 'CENTER' | 'CROSS' | 'EDGES';
+
+// 属性のないマスの効果。BOOST はどのカードも強くなり、LOCK に置いたカードは取られない
+export type TileEffect = 'BOOST' | 'LOCK';
+
+/** Elemental ルールの細かい設定 */
+export interface ElementalConfig {
+  layout: ElementLayout;
+  count: number | null; // SCATTER で置く属性タイルの数。null は従来どおり 1〜4 枚 (同じマスに重なると減る)
+  weights: Record<string, number>; // 属性ごとの出やすさ。書かれていない属性は 1、0 なら出ない
+  magnitude: number; // 属性が一致・不一致のときに上下する値 (1 か 2)
+  boostTiles: number;
+  lockedTiles: number;
+}
+
+// SINGLE: 1 ラウンド / BEST_OF: length ラウンドの過半数 / FIRST_TO: 先に length 勝 / TOTAL_CARDS: length ラウンドの得点の合計
+export type SeriesType = 'SINGLE' | 'BEST_OF' | 'FIRST_TO' | 'TOTAL_CARDS';
+
+export interface SeriesFormat {
+  type: SeriesType;
+  length: number; // BEST_OF・TOTAL_CARDS はラウンド数、FIRST_TO は勝利数 (SINGLE では使わない)
+  countDraws: boolean; // false なら引き分けのラウンドは数えずにやり直す
+}
 
 export interface GameSettings {
   elementalEnabled: boolean;
   sameEnabled: boolean;
   plusEnabled: boolean;
+  openEnabled: boolean; // P2 の手札を公開
+  randomEnabled: boolean; // デッキ選択なしで手札をランダム配布
+  suddenDeathEnabled: boolean; // 引き分けたら盤面の所有カードで再戦
+  sameWallEnabled: boolean; // 盤面の端を A として SAME 判定
+  plusWallEnabled: boolean; // 盤面の端を A として PLUS 判定
+  reverseEnabled: boolean; // 数値が低い方が勝つ
+  fallenAceEnabled: boolean; // 1 が A に勝つ
   cpuDifficulty: 'LOW' | 'MID' | 'HIGH' | 'EXPERT';
+  cpuPersonality: string; // data/personalities.json の ID
   pvpMode: boolean; // 対人モード
+  collectionMode: boolean; // 所持カードだけでデッキを組む (CPU 戦のみ)
+  tradeRule: TradeRule; // シリーズ終了時のカード交換ルール
+  deckConstraints: DeckConstraints;
+  boardShape: BoardShape; // 手札の枚数は置けるマスの数から決まる
+  elementalConfig: ElementalConfig;
+  seriesFormat: SeriesFormat;
 }
 
+export type RuleToggleKey = Extract<keyof GameSettings, `${string}Enabled`>;
+
 export interface Card {
   id: number;
   level: number;
   name: string;
-  stats: number[]; 
+  stats: number[];
   modifiedStats?: number[];
   attr: string | null;
   img: string;
@@ -23,9 +78,11 @@ export interface Card {
 export interface BoardTile {
   card: Card | null;
   element: string | null;
+  blocked?: boolean; // 置けないマス
+  effect?: TileEffect;
 }
 
 export interface MatchResult {
   winner: PlayerType | 'DRAW';
   scores: number[];
-}
\ No newline at end of file
+}
@@ -1,11 +1,44 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+// index.html で読み込んでいる外部のスクリプト。オフラインでも使えるよう Service Worker がキャッシュする
+const CDN_FILES = ['https://cdn.tailwindcss.com']
+// public/ にあってビルドの出力に現れないアプリ本体のファイル
+const PUBLIC_SHELL_FILES = ['manifest.webmanifest', 'icons/icon-192.png', 'icons/icon-512.png']
+
+const hash = (text: string) => createHash('sha256').update(text).digest('hex').slice(0, 12)
+
+// pwa/sw.js の先頭にキャッシュするファイルの一覧と版を書き込んで sw.js として出力する
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      // addAll は同じ URL が重なると失敗するので重複を除く
+      const shellFiles = [...new Set([...PUBLIC_SHELL_FILES, ...Object.keys(bundle).filter(name => !name.endsWith('.map'))])]
+      const cardsJson = readFileSync('src/data/cards.json', 'utf-8')
+      const cardFiles = [...new Set((JSON.parse(cardsJson) as { img: string }[]).map(card => card.img).filter(Boolean))]
+      const constants = {
+        SHELL_VERSION: hash(shellFiles.sort().join('\n')),
+        SHELL_FILES: shellFiles,
+        CARD_VERSION: hash(cardsJson),
+        CARD_FILES: cardFiles,
+        CDN_FILES,
+      }
+      const header = Object.entries(constants).map(([key, value]) => `const ${key} = ${JSON.stringify(value)};`).join('\n')
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: `${header}\n\n${readFileSync('pwa/sw.js', 'utf-8')}` })
+    },
+  }
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
   // Vercelデプロイ時はルート、ローカルやGitHub Pagesではサブパスを適用
   base: process.env.VERCEL ? '/' : '/triple-triad-app/',
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   build: {
     outDir: 'dist',
   }